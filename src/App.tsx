@@ -2,21 +2,41 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { AdminAuthProvider } from "@/contexts/AdminAuthContext";
+import RequireRole from "@/components/auth/RequireRole";
+import InfluencerLayout from "@/components/layout/InfluencerLayout";
+import CreatorLayout from "@/components/layout/CreatorLayout";
+import AdminLayout from "@/components/layout/AdminLayout";
 
 // Pages
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import CreatorPublicProfile from "./pages/CreatorPublicProfile";
+import ResetPassword from "./pages/ResetPassword";
 import InfluencerAuth from "./pages/influencer/InfluencerAuth";
 import InfluencerDashboard from "./pages/influencer/InfluencerDashboard";
+import InfluencerDiscover from "./pages/influencer/InfluencerDiscover";
+import InfluencerBookCreator from "./pages/influencer/InfluencerBookCreator";
 import CreatorAuth from "./pages/creator/CreatorAuth";
 import CreatorDashboard from "./pages/creator/CreatorDashboard";
+import CreatorBookings from "./pages/creator/CreatorBookings";
+import CreatorPortfolio from "./pages/creator/CreatorPortfolio";
+import CreatorPricing from "./pages/creator/CreatorPricing";
+import CreatorAvailability from "./pages/creator/CreatorAvailability";
+import CreatorSettings from "./pages/creator/CreatorSettings";
 import AdminLogin from "./pages/admin/AdminLogin";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30_000,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -28,24 +48,45 @@ const App = () => (
           <BrowserRouter>
             <Routes>
               <Route path="/" element={<Index />} />
+              <Route path="/creators/:id" element={<CreatorPublicProfile />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
               
               {/* Influencer Routes (formerly Customer) */}
               <Route path="/influencer/auth" element={<InfluencerAuth />} />
-              <Route path="/influencer/dashboard" element={<InfluencerDashboard />} />
+              <Route element={<RequireRole role="customer" />}>
+                <Route element={<InfluencerLayout />}>
+                  <Route path="/influencer/dashboard" element={<InfluencerDashboard />} />
+                  <Route path="/influencer/discover" element={<InfluencerDiscover />} />
+                  <Route path="/influencer/book/:creatorId" element={<InfluencerBookCreator />} />
+                </Route>
+              </Route>
               
               {/* Creator Routes (formerly Team) */}
               <Route path="/creator/auth" element={<CreatorAuth />} />
-              <Route path="/creator/dashboard" element={<CreatorDashboard />} />
+              <Route element={<RequireRole role="team" />}>
+                <Route element={<CreatorLayout />}>
+                  <Route path="/creator/dashboard" element={<CreatorDashboard />} />
+                  <Route path="/creator/bookings" element={<CreatorBookings />} />
+                  <Route path="/creator/portfolio" element={<CreatorPortfolio />} />
+                  <Route path="/creator/pricing" element={<CreatorPricing />} />
+                  <Route path="/creator/availability" element={<CreatorAvailability />} />
+                  <Route path="/creator/settings" element={<CreatorSettings />} />
+                </Route>
+              </Route>
               
               {/* Admin Routes */}
               <Route path="/admin/login" element={<AdminLogin />} />
-              <Route path="/admin/dashboard" element={<AdminDashboard />} />
+              <Route element={<RequireRole role="admin" />}>
+                <Route element={<AdminLayout />}>
+                  <Route path="/admin/dashboard" element={<AdminDashboard />} />
+                </Route>
+              </Route>
               
               {/* Legacy redirects */}
-              <Route path="/customer/auth" element={<InfluencerAuth />} />
-              <Route path="/customer/dashboard" element={<InfluencerDashboard />} />
-              <Route path="/team/auth" element={<CreatorAuth />} />
-              <Route path="/team/dashboard" element={<CreatorDashboard />} />
+              <Route path="/customer/auth" element={<Navigate to="/influencer/auth" replace />} />
+              <Route path="/customer/dashboard" element={<Navigate to="/influencer/dashboard" replace />} />
+              <Route path="/team/auth" element={<Navigate to="/creator/auth" replace />} />
+              <Route path="/team/dashboard" element={<Navigate to="/creator/dashboard" replace />} />
               
               {/* Catch-all */}
               <Route path="*" element={<NotFound />} />
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import type { SignupRole } from "@/lib/auth-routes";
+import { AlertCircle, Loader2, UserPlus } from "lucide-react";
+
+interface ClaimRolePromptProps {
+  role: SignupRole;
+}
+
+const ROLE_DETAILS: Record<SignupRole, { label: string; tile: string; icon: string; button: string }> = {
+  customer: {
+    label: "Influencer",
+    tile: "bg-pink-50",
+    icon: "text-pink-600",
+    button: "bg-pink-600 hover:bg-pink-700",
+  },
+  team: {
+    label: "Creator",
+    tile: "bg-purple-50",
+    icon: "text-purple-600",
+    button: "bg-purple-600 hover:bg-purple-700",
+  },
+};
+
+/**
+ * Shown on a portal's sign-in page to a signed-in user without a role, i.e. an account
+ * from before roles were assigned at signup. The role is permanent, so it is only
+ * claimed when the user asks, and never when the role simply failed to load.
+ */
+const ClaimRolePrompt = ({ role }: ClaimRolePromptProps) => {
+  const { user, roleError, claimRole, signOut } = useAuth();
+  const { toast } = useToast();
+  const [isClaiming, setIsClaiming] = useState(false);
+  const details = ROLE_DETAILS[role];
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    const { error } = await claimRole(role);
+    if (error) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    }
+    setIsClaiming(false);
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50/30 p-6">
+      <Card className="w-full max-w-md border-slate-200 shadow-sm bg-white">
+        <CardContent className="pt-8 pb-10 px-8 space-y-6">
+          {roleError ? (
+            <div>
+              <div className="h-12 w-12 bg-red-50 rounded-xl flex items-center justify-center mb-5">
+                <AlertCircle className="h-6 w-6 text-red-600" />
+              </div>
+              <h1 className="text-2xl font-bold text-slate-900 mb-1">We couldn't load your account</h1>
+              <p className="text-slate-500 text-sm">Check your connection and try again.</p>
+            </div>
+          ) : (
+            <div>
+              <div className={`h-12 w-12 ${details.tile} rounded-xl flex items-center justify-center mb-5`}>
+                <UserPlus className={`h-6 w-6 ${details.icon}`} />
+              </div>
+              <h1 className="text-2xl font-bold text-slate-900 mb-1">Finish setting up your account</h1>
+              <p className="text-slate-500 text-sm">
+                {user?.email} is not linked to a portal yet. Join as {role === "customer" ? "an" : "a"}{" "}
+                {details.label.toLowerCase()} to continue. This cannot be changed later.
+              </p>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2">
+            {roleError ? (
+              <Button className={`w-full h-10 font-medium ${details.button}`} onClick={() => window.location.reload()}>
+                Try Again
+              </Button>
+            ) : (
+              <Button className={`w-full h-10 font-medium ${details.button}`} onClick={handleClaim} disabled={isClaiming}>
+                {isClaiming ? <Loader2 className="h-4 w-4 animate-spin" /> : `Join as ${details.label}`}
+              </Button>
+            )}
+            <Button variant="ghost" className="w-full text-slate-600" onClick={signOut} disabled={isClaiming}>
+              Sign Out
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ClaimRolePrompt;
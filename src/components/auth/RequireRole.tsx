@@ -0,0 +1,45 @@
+import type { ReactNode } from "react";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAdminAuth } from "@/contexts/AdminAuthContext";
+import { PORTALS, type AppRole, type RedirectState } from "@/lib/auth-routes";
+import { Loader2 } from "lucide-react";
+
+interface RequireRoleProps {
+  role: AppRole;
+  /** Rendered when allowed, defaults to the nested routes */
+  children?: ReactNode;
+}
+
+const SPINNER_COLORS: Record<AppRole, string> = {
+  customer: "text-pink-600",
+  team: "text-purple-600",
+  admin: "text-blue-600",
+};
+
+const RequireRole = ({ role, children }: RequireRoleProps) => {
+  const location = useLocation();
+  const { user, userRole, isLoading } = useAuth();
+  const { isAdminLoggedIn, isLoading: isAdminLoading } = useAdminAuth();
+
+  // Admin access is checked with has_role by its own context, everyone else by their user_roles row
+  const isChecking = role === "admin" ? isAdminLoading : isLoading;
+  const isAllowed = role === "admin" ? isAdminLoggedIn : !!user && userRole === role;
+
+  if (isChecking) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className={`h-8 w-8 animate-spin ${SPINNER_COLORS[role]}`} />
+      </div>
+    );
+  }
+
+  if (!isAllowed) {
+    const state: RedirectState = { from: location };
+    return <Navigate to={PORTALS[role].signIn} state={state} replace />;
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
+
+export default RequireRole;
@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useProfile, useUploadAvatar } from "@/hooks/use-profile";
+import type { PortalAccent } from "@/lib/portal-accent";
+import {
+  MAX_AVATAR_SOURCE_BYTES,
+  MAX_AVATAR_ZOOM,
+  drawCrop,
+  getSquareCrop,
+  loadImage,
+  renderAvatar,
+} from "@/lib/avatars";
+import { Camera, Loader2 } from "lucide-react";
+import UserAvatar from "./UserAvatar";
+
+interface AvatarUploadProps {
+  userId: string | undefined;
+  accent: PortalAccent;
+}
+
+const PREVIEW_SIZE = 256;
+
+const AvatarUpload = ({ userId, accent }: AvatarUploadProps) => {
+  const { toast } = useToast();
+  const { data: profile } = useProfile(userId);
+  const uploadAvatar = useUploadAvatar(userId);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const canvas = useRef<HTMLCanvasElement>(null);
+  const dragFrom = useRef<{ x: number; y: number } | null>(null);
+
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [center, setCenter] = useState({ x: 0, y: 0 });
+  const crop = useMemo(
+    () => (image ? getSquareCrop(image.naturalWidth, image.naturalHeight, zoom, center) : null),
+    [image, zoom, center],
+  );
+
+  useEffect(() => {
+    if (image && crop && canvas.current) {
+      drawCrop(canvas.current, image, crop);
+    }
+  }, [image, crop]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (fileInput.current) fileInput.current.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/") || file.size > MAX_AVATAR_SOURCE_BYTES) {
+      toast({
+        variant: "destructive",
+        title: "Unsupported file",
+        description: "Choose a photo under 10 MB.",
+      });
+      return;
+    }
+
+    try {
+      const loaded = await loadImage(file);
+      setZoom(1);
+      setCenter({ x: loaded.naturalWidth / 2, y: loaded.naturalHeight / 2 });
+      setImage(loaded);
+    } catch (error) {
+      toast({ variant: "destructive", title: "Unsupported file", description: (error as Error).message });
+    }
+  };
+
+  // Dragging moves the photo under the frame, scaled from preview pixels to image pixels
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!dragFrom.current || !crop) return;
+    const scale = crop.size / PREVIEW_SIZE;
+    const dx = (e.clientX - dragFrom.current.x) * scale;
+    const dy = (e.clientY - dragFrom.current.y) * scale;
+    dragFrom.current = { x: e.clientX, y: e.clientY };
+    // Start from the clamped crop so dragging back from an edge responds at once
+    setCenter({ x: crop.x + crop.size / 2 - dx, y: crop.y + crop.size / 2 - dy });
+  };
+
+  const handleSave = async () => {
+    if (!image || !crop) return;
+
+    try {
+      const [large, small] = await Promise.all([
+        renderAvatar(image, crop, "large"),
+        renderAvatar(image, crop, "small"),
+      ]);
+      await uploadAvatar.mutateAsync({ large, small });
+      setImage(null);
+      toast({ title: "Profile picture updated" });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not upload your profile picture.",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-6">
+      <UserAvatar
+        url={profile?.avatar_url}
+        name={profile?.full_name}
+        accent={accent}
+        size="large"
+        className="h-24 w-24 text-2xl"
+      />
+      <div className="space-y-2">
+        <div>
+          <p className="font-medium text-slate-900">Profile Picture</p>
+          <p className="text-sm text-slate-500">A clear, professional photo of your face works best</p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+          <Camera className="h-4 w-4 mr-2" />
+          {profile?.avatar_url ? "Change Photo" : "Upload Photo"}
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </div>
+
+      <Dialog open={!!image} onOpenChange={(open) => !open && !uploadAvatar.isPending && setImage(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Crop your photo</DialogTitle>
+            <DialogDescription>Drag to position your photo and use the slider to zoom.</DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-col items-center gap-4">
+            <canvas
+              ref={canvas}
+              width={PREVIEW_SIZE}
+              height={PREVIEW_SIZE}
+              className="rounded-full cursor-move touch-none"
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                dragFrom.current = { x: e.clientX, y: e.clientY };
+              }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => {
+                dragFrom.current = null;
+              }}
+            />
+            <Slider
+              value={[zoom]}
+              min={1}
+              max={MAX_AVATAR_ZOOM}
+              step={0.01}
+              onValueChange={([value]) => setZoom(value)}
+              className="w-full"
+              aria-label="Zoom"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImage(null)} disabled={uploadAvatar.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={uploadAvatar.isPending}>
+              {uploadAvatar.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save Photo
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AvatarUpload;
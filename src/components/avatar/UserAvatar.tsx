@@ -0,0 +1,29 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { PORTAL_ACCENTS, type PortalAccent } from "@/lib/portal-accent";
+import { avatarUrlForSize, getInitials, type AvatarSize } from "@/lib/avatars";
+import { cn } from "@/lib/utils";
+
+interface UserAvatarProps {
+  url: string | null | undefined;
+  name: string | null | undefined;
+  accent: PortalAccent;
+  /** Which uploaded size to load; pick large for anything over 128px on screen */
+  size?: AvatarSize;
+  className?: string;
+}
+
+/** Profile picture, or the person's initials until they upload one */
+const UserAvatar = ({ url, name, accent, size = "small", className }: UserAvatarProps) => {
+  const colors = PORTAL_ACCENTS[accent];
+
+  return (
+    <Avatar className={className}>
+      <AvatarImage src={avatarUrlForSize(url, size) || undefined} alt={name || ""} className="object-cover" />
+      <AvatarFallback className={cn("font-medium", colors.tile, colors.icon)}>
+        {getInitials(name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+};
+
+export default UserAvatar;
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useRevealCreatorBanking } from "@/hooks/use-creator-banking";
+import { formatMaskedAccountNumber } from "@/lib/banking";
+import { Eye, Loader2 } from "lucide-react";
+
+export interface MaskedCreatorBanking {
+  account_holder_name: string | null;
+  bank_name: string | null;
+  ifsc_code: string | null;
+  account_number_last4: string | null;
+  upi_id_masked: string | null;
+}
+
+interface CreatorBankingDetailsProps {
+  creatorId: string;
+  banking: MaskedCreatorBanking;
+}
+
+const CreatorBankingDetails = ({ creatorId, banking }: CreatorBankingDetailsProps) => {
+  const { toast } = useToast();
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [reason, setReason] = useState("");
+  const revealBanking = useRevealCreatorBanking(creatorId);
+  const [revealed, setRevealed] = useState<{ account_number: string | null; upi_id: string | null } | null>(null);
+
+  const hasDetails = banking.bank_name || banking.account_number_last4 || banking.upi_id_masked;
+
+  const reveal = () => {
+    revealBanking.mutate(reason, {
+      onSuccess: (details) => {
+        setRevealed(details);
+        setIsRevealing(false);
+        setReason("");
+      },
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not reveal the banking details.",
+        });
+      },
+    });
+  };
+
+  if (!hasDetails) {
+    return (
+      <div className="p-3 bg-slate-50 rounded-lg text-sm">
+        <p className="text-slate-400 italic">No banking details provided</p>
+      </div>
+    );
+  }
+
+  const accountNumber = revealed ? revealed.account_number : formatMaskedAccountNumber(banking.account_number_last4);
+  const upiId = revealed ? revealed.upi_id : banking.upi_id_masked;
+
+  return (
+    <div className="space-y-2 p-3 bg-slate-50 rounded-lg text-sm">
+      {banking.account_holder_name && (
+        <p><span className="text-slate-500">Account holder:</span> {banking.account_holder_name}</p>
+      )}
+      {banking.bank_name && (
+        <p><span className="text-slate-500">Bank:</span> {banking.bank_name}</p>
+      )}
+      {accountNumber && (
+        <p><span className="text-slate-500">Account:</span> {accountNumber}</p>
+      )}
+      {banking.ifsc_code && (
+        <p><span className="text-slate-500">IFSC:</span> {banking.ifsc_code}</p>
+      )}
+      {upiId && (
+        <p><span className="text-slate-500">UPI:</span> {upiId}</p>
+      )}
+
+      {!revealed && (banking.account_number_last4 || banking.upi_id_masked) && (
+        isRevealing ? (
+          <div className="flex gap-2 pt-1">
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason for access, e.g. payout failed"
+              maxLength={500}
+              className="h-8 bg-white"
+            />
+            <Button size="sm" onClick={reveal} disabled={reason.trim().length < 3 || revealBanking.isPending}>
+              {revealBanking.isPending && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+              Reveal
+            </Button>
+          </div>
+        ) : (
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-blue-600" onClick={() => setIsRevealing(true)}>
+            <Eye className="mr-1 h-3.5 w-3.5" />
+            Reveal full details
+          </Button>
+        )
+      )}
+      {revealed && <p className="text-xs text-slate-400">This access has been logged.</p>}
+    </div>
+  );
+};
+
+export default CreatorBankingDetails;
@@ -0,0 +1,229 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Check, CheckCheck, FileText, Image as ImageIcon, Loader2, Paperclip, Send, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useBookingMessages } from "@/hooks/use-booking-messages";
+import { MAX_ATTACHMENT_BYTES, MAX_MESSAGE_LENGTH, isImageAttachment } from "@/lib/messages";
+
+type Accent = "pink" | "purple";
+
+interface BookingMessagesDialogProps {
+  bookingId: string | null;
+  userId: string | undefined;
+  title: string;
+  description?: string;
+  accent?: Accent;
+  onClose: () => void;
+}
+
+const ACCENTS: Record<Accent, { bubble: string; button: string; text: string }> = {
+  pink: { bubble: "bg-pink-600 text-white", button: "bg-pink-600 hover:bg-pink-700", text: "text-pink-600" },
+  purple: { bubble: "bg-purple-600 text-white", button: "bg-purple-600 hover:bg-purple-700", text: "text-purple-600" },
+};
+
+const BookingMessagesDialog = ({
+  bookingId,
+  userId,
+  title,
+  description,
+  accent = "pink",
+  onClose,
+}: BookingMessagesDialogProps) => {
+  const { toast } = useToast();
+  const { messages, isLoading, isError, sendMessage, attachmentUrl } = useBookingMessages(bookingId, userId);
+  const [draft, setDraft] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const colors = ACCENTS[accent];
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length]);
+
+  useEffect(() => {
+    setDraft("");
+    setFile(null);
+  }, [bookingId]);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    if (selected.size > MAX_ATTACHMENT_BYTES) {
+      toast({
+        variant: "destructive",
+        title: "File too large",
+        description: "Attachments can be up to 10 MB.",
+      });
+    } else {
+      setFile(selected);
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleSend = () => {
+    if (!draft.trim() && !file) return;
+
+    sendMessage.mutate({ body: draft, file }, {
+      onSuccess: () => {
+        setDraft("");
+        setFile(null);
+      },
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not send your message.",
+        });
+      },
+    });
+  };
+
+  const openAttachment = (path: string) => {
+    attachmentUrl.mutate(path, {
+      onSuccess: (url) => window.open(url, "_blank", "noopener,noreferrer"),
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not open the attachment.",
+        });
+      },
+    });
+  };
+
+  return (
+    <Dialog open={!!bookingId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+
+        <div className="h-80 overflow-y-auto rounded-md border bg-slate-50 p-3 space-y-3">
+          {isLoading ? (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className={`h-6 w-6 animate-spin ${colors.text}`} />
+            </div>
+          ) : isError ? (
+            <div className="flex h-full items-center justify-center text-sm text-red-500">
+              Could not load the messages. Close and reopen to try again.
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="flex h-full items-center justify-center text-sm text-slate-500">
+              No messages yet. Share your brief or ask a question.
+            </div>
+          ) : (
+            messages.map((message) => {
+              const isOwn = message.sender_id === userId;
+              return (
+                <div key={message.id} className={`flex ${isOwn ? "justify-end" : "justify-start"}`}>
+                  <div
+                    className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                      isOwn ? colors.bubble : "bg-white border text-slate-900"
+                    }`}
+                  >
+                    {message.body && <p className="whitespace-pre-wrap break-words">{message.body}</p>}
+                    {message.attachment_path && (
+                      <button
+                        type="button"
+                        onClick={() => openAttachment(message.attachment_path!)}
+                        className="mt-1 flex items-center gap-1.5 underline underline-offset-2"
+                      >
+                        {isImageAttachment(message.attachment_type) ? (
+                          <ImageIcon className="h-3.5 w-3.5" />
+                        ) : (
+                          <FileText className="h-3.5 w-3.5" />
+                        )}
+                        {message.attachment_name || "Attachment"}
+                      </button>
+                    )}
+                    <p className={`mt-1 flex items-center gap-1 text-xs ${isOwn ? "text-white/70 justify-end" : "text-slate-400"}`}>
+                      {format(new Date(message.created_at), "MMM d, HH:mm")}
+                      {isOwn &&
+                        (message.read_at ? (
+                          <CheckCheck className="h-3.5 w-3.5" aria-label="Seen" />
+                        ) : (
+                          <Check className="h-3.5 w-3.5" aria-label="Sent" />
+                        ))}
+                    </p>
+                  </div>
+                </div>
+              );
+            })
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {file && (
+          <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm text-slate-600">
+            <span className="flex items-center gap-2 truncate">
+              <Paperclip className="h-4 w-4 shrink-0" />
+              <span className="truncate">{file.name}</span>
+            </span>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setFile(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="flex items-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept="image/*,application/pdf,.doc,.docx,.txt"
+            onChange={handleFileSelect}
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={sendMessage.isPending}
+            aria-label="Attach a file"
+          >
+            <Paperclip className="h-4 w-4" />
+          </Button>
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="Write a message..."
+            maxLength={MAX_MESSAGE_LENGTH}
+            rows={2}
+            className="resize-none"
+          />
+          <Button
+            size="icon"
+            onClick={handleSend}
+            disabled={sendMessage.isPending || (!draft.trim() && !file)}
+            className={colors.button}
+            aria-label="Send"
+          >
+            {sendMessage.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BookingMessagesDialog;
@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, Clock, XCircle, AlertCircle } from "lucide-react";
+
+interface BookingStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+const VARIANTS: Record<string, { variant: "default" | "secondary" | "destructive" | "outline"; icon: React.ReactNode }> = {
+  confirmed: { variant: "default", icon: <CheckCircle className="h-3 w-3" /> },
+  pending: { variant: "secondary", icon: <Clock className="h-3 w-3" /> },
+  cancelled: { variant: "destructive", icon: <XCircle className="h-3 w-3" /> },
+  completed: { variant: "outline", icon: <CheckCircle className="h-3 w-3" /> },
+};
+
+const BookingStatusBadge = ({ status, className }: BookingStatusBadgeProps) => {
+  const { variant, icon } = VARIANTS[status] || { variant: "secondary" as const, icon: <AlertCircle className="h-3 w-3" /> };
+  return (
+    <Badge variant={variant} className={`gap-1 capitalize ${className || ""}`}>
+      {icon} {status}
+    </Badge>
+  );
+};
+
+export default BookingStatusBadge;
@@ -0,0 +1,28 @@
+import { Badge } from "@/components/ui/badge";
+import { PAYMENT_STATUS_LABELS, type PaymentStatus } from "@/lib/payments";
+
+interface PaymentStatusBadgeProps {
+  status: string;
+  amount?: number;
+  className?: string;
+}
+
+const CLASSES: Record<PaymentStatus, string> = {
+  authorized: "bg-slate-100 text-slate-700",
+  captured: "bg-blue-100 text-blue-700",
+  released: "bg-green-100 text-green-700",
+  refunded: "bg-amber-100 text-amber-700",
+  voided: "bg-slate-100 text-slate-500",
+};
+
+const PaymentStatusBadge = ({ status, amount, className }: PaymentStatusBadgeProps) => {
+  const label = PAYMENT_STATUS_LABELS[status as PaymentStatus] || status;
+  return (
+    <Badge variant="secondary" className={`${CLASSES[status as PaymentStatus] || ""} ${className || ""}`}>
+      {amount !== undefined && `₹${amount} · `}
+      {label}
+    </Badge>
+  );
+};
+
+export default PaymentStatusBadge;
@@ -1,49 +1,44 @@
-import { useNavigate } from "react-router-dom";
-import { useAuth } from "@/contexts/AuthContext";
+import { useNavigate, Link } from "react-router-dom";
+import { useCreatorBookings } from "@/hooks/use-bookings";
+import { useCreatorPortfolio } from "@/hooks/use-creator-portfolio";
+import { useCreatorPricing } from "@/hooks/use-creator-pricing";
+import { useCreatorProfileViews } from "@/hooks/use-profile-views";
+import type { CreatorProfile } from "@/hooks/use-creator-profile";
 import { Button } from "@/components/ui/button";
+import BookingStatusBadge from "@/components/bookings/BookingStatusBadge";
+import CreatorReviewsCard from "@/components/reviews/CreatorReviewsCard";
+import CreatorEarningsCard from "@/components/payouts/CreatorEarningsCard";
+import CreatorVerificationCard from "@/components/verification/CreatorVerificationCard";
+import ProfileViewsCard from "./ProfileViewsCard";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { 
-  LogOut, Palette, Calendar, DollarSign, 
-  Image, Settings, CheckCircle
+  Calendar, DollarSign,
+  Image, Settings, CheckCircle, CalendarDays
 } from "lucide-react";
 
 interface CreatorMainDashboardProps {
-  creatorProfile: any;
+  creatorProfile: CreatorProfile;
 }
 
 const CreatorMainDashboard = ({ creatorProfile }: CreatorMainDashboardProps) => {
-  const { signOut } = useAuth();
   const navigate = useNavigate();
+  const { data: bookings } = useCreatorBookings(creatorProfile?.id);
+  const { data: portfolio } = useCreatorPortfolio(creatorProfile.id);
+  const { data: packages } = useCreatorPricing(creatorProfile.id);
+  const { data: profileViews } = useCreatorProfileViews(creatorProfile.id);
 
-  const handleSignOut = async () => {
-    await signOut();
-    navigate("/");
-  };
+  // "-" until each count has loaded, so a slow query never reads as zero
+  const stats = [
+    { label: "Portfolio Items", value: portfolio?.length },
+    { label: "Active Packages", value: packages?.filter(p => p.is_active).length },
+    { label: "Total Bookings", value: bookings?.length },
+    { label: "Profile Views", value: profileViews?.total },
+  ];
 
   return (
-    <div className="min-h-screen bg-slate-50">
-      {/* Header */}
-      <header className="border-b bg-white shadow-sm">
-        <div className="container mx-auto flex items-center justify-between px-4 py-4">
-          <div className="flex items-center gap-3">
-            <div className="h-10 w-10 rounded-xl bg-purple-100 flex items-center justify-center">
-              <Palette className="h-5 w-5 text-purple-600" />
-            </div>
-            <div>
-              <h1 className="text-xl font-semibold text-slate-900">Creator Dashboard</h1>
-              <p className="text-sm text-slate-500">Welcome back!</p>
-            </div>
-          </div>
-          <Button variant="ghost" onClick={handleSignOut} className="text-slate-600">
-            <LogOut className="mr-2 h-4 w-4" />
-            Sign Out
-          </Button>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="container mx-auto px-4 py-8">
-        {/* Welcome Banner */}
+    <main className="container mx-auto px-4 py-8">
+      {/* Welcome Banner, or what is left to do before going live */}
+      {creatorProfile.verification_status === "approved" ? (
         <Card className="mb-8 bg-gradient-to-r from-purple-600 to-purple-800 text-white border-0">
           <CardContent className="py-8">
             <div className="flex items-center gap-4">
@@ -56,50 +51,94 @@ const CreatorMainDashboard = ({ creatorProfile }: CreatorMainDashboardProps) =>
                   Influencers can now discover you and book your services.
                 </p>
               </div>
+              <Button asChild variant="secondary" className="ml-auto">
+                <Link to={`/creators/${creatorProfile.id}`}>View public profile</Link>
+              </Button>
             </div>
           </CardContent>
         </Card>
+      ) : (
+        <CreatorVerificationCard creatorId={creatorProfile.id} />
+      )}
 
-        {/* Quick Stats */}
-        <div className="grid gap-4 md:grid-cols-4 mb-8">
-          <Card>
-            <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium text-slate-600">Portfolio Items</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-slate-900">-</div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium text-slate-600">Active Packages</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-slate-900">-</div>
-            </CardContent>
-          </Card>
-          <Card>
+      {/* Quick Stats */}
+      <div className="grid gap-4 md:grid-cols-4 mb-8">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
             <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium text-slate-600">Total Bookings</CardTitle>
+              <CardTitle className="text-sm font-medium text-slate-600">{stat.label}</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-slate-900">0</div>
+              <div className="text-2xl font-bold text-slate-900">{stat.value ?? "-"}</div>
             </CardContent>
           </Card>
-          <Card>
-            <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium text-slate-600">Profile Views</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-slate-900">0</div>
-            </CardContent>
-          </Card>
-        </div>
+        ))}
+      </div>
+
+      {profileViews && <ProfileViewsCard trend={profileViews.trend} />}
+
+      {/* Bookings */}
+      <Card className="mb-8">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Bookings</CardTitle>
+            <CardDescription>Booking requests from influencers</CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => navigate("/creator/bookings")}>
+            Manage Bookings
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {!bookings?.length ? (
+            <div className="py-10 text-center text-slate-500">
+              <CalendarDays className="mx-auto mb-4 h-12 w-12 opacity-40" />
+              <p className="font-medium">No bookings yet</p>
+              <p className="text-sm mt-1">Booking requests from influencers will appear here</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {bookings.map((booking) => (
+                <div
+                  key={booking.id}
+                  className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div>
+                    <p className="font-medium text-slate-900">
+                      {booking.package?.package_name || "Package"}
+                      {booking.package && <span className="text-purple-600"> · ₹{booking.package.price}</span>}
+                    </p>
+                    <p className="text-sm text-slate-600">
+                      {booking.customer?.full_name || booking.customer?.email || "Influencer"}
+                    </p>
+                    <p className="text-sm text-slate-500">
+                      {new Date(booking.booking_date).toLocaleDateString("en-US", {
+                        weekday: "short",
+                        month: "short",
+                        day: "numeric",
+                      })}{" "}
+                      at {booking.booking_time.slice(0, 5)}
+                    </p>
+                    {booking.notes && (
+                      <p className="text-sm text-slate-400 mt-1">{booking.notes}</p>
+                    )}
+                  </div>
+                  <BookingStatusBadge status={booking.status} className="self-start sm:self-center" />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CreatorEarningsCard creatorId={creatorProfile.id} />
+
+      <CreatorReviewsCard creatorId={creatorProfile.id} />
 
-        {/* Quick Actions */}
-        <h3 className="text-lg font-semibold text-slate-900 mb-4">Manage Your Profile</h3>
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-          <Card className="hover:border-purple-300 transition-colors cursor-pointer">
+      {/* Quick Actions */}
+      <h3 className="text-lg font-semibold text-slate-900 mb-4">Manage Your Profile</h3>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Link to="/creator/portfolio">
+          <Card className="h-full hover:border-purple-300 transition-colors cursor-pointer">
             <CardHeader>
               <div className="h-10 w-10 rounded-lg bg-purple-100 flex items-center justify-center mb-2">
                 <Image className="h-5 w-5 text-purple-600" />
@@ -108,8 +147,10 @@ const CreatorMainDashboard = ({ creatorProfile }: CreatorMainDashboardProps) =>
               <CardDescription>Update your showcase work</CardDescription>
             </CardHeader>
           </Card>
+        </Link>
 
-          <Card className="hover:border-purple-300 transition-colors cursor-pointer">
+        <Link to="/creator/pricing">
+          <Card className="h-full hover:border-purple-300 transition-colors cursor-pointer">
             <CardHeader>
               <div className="h-10 w-10 rounded-lg bg-purple-100 flex items-center justify-center mb-2">
                 <DollarSign className="h-5 w-5 text-purple-600" />
@@ -118,8 +159,10 @@ const CreatorMainDashboard = ({ creatorProfile }: CreatorMainDashboardProps) =>
               <CardDescription>Manage your packages</CardDescription>
             </CardHeader>
           </Card>
+        </Link>
 
-          <Card className="hover:border-purple-300 transition-colors cursor-pointer">
+        <Link to="/creator/availability">
+          <Card className="h-full hover:border-purple-300 transition-colors cursor-pointer">
             <CardHeader>
               <div className="h-10 w-10 rounded-lg bg-purple-100 flex items-center justify-center mb-2">
                 <Calendar className="h-5 w-5 text-purple-600" />
@@ -128,8 +171,10 @@ const CreatorMainDashboard = ({ creatorProfile }: CreatorMainDashboardProps) =>
               <CardDescription>Set your schedule</CardDescription>
             </CardHeader>
           </Card>
+        </Link>
 
-          <Card className="hover:border-purple-300 transition-colors cursor-pointer">
+        <Link to="/creator/settings">
+          <Card className="h-full hover:border-purple-300 transition-colors cursor-pointer">
             <CardHeader>
               <div className="h-10 w-10 rounded-lg bg-purple-100 flex items-center justify-center mb-2">
                 <Settings className="h-5 w-5 text-purple-600" />
@@ -138,9 +183,9 @@ const CreatorMainDashboard = ({ creatorProfile }: CreatorMainDashboardProps) =>
               <CardDescription>Profile & banking</CardDescription>
             </CardHeader>
           </Card>
-        </div>
-      </main>
-    </div>
+        </Link>
+      </div>
+    </main>
   );
 };
 
@@ -0,0 +1,55 @@
+import type { ReactNode } from "react";
+import { Link, Navigate } from "react-router-dom";
+import type { LucideIcon } from "lucide-react";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCreatorProfile } from "@/hooks/use-creator-profile";
+import { Button } from "@/components/ui/button";
+import PageHeader from "@/components/layout/PageHeader";
+
+interface CreatorManagePageProps {
+  icon: LucideIcon;
+  title: string;
+  description: string;
+  children: (creatorId: string) => ReactNode;
+}
+
+/** Shell for the pages linked from "Manage Your Profile"; onboarding has to be finished first */
+const CreatorManagePage = ({ icon, title, description, children }: CreatorManagePageProps) => {
+  const { user } = useAuth();
+  const { data: creatorProfile, isLoading } = useCreatorProfile(user?.id);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+      </div>
+    );
+  }
+
+  if (!creatorProfile?.onboarding_completed) {
+    return <Navigate to="/creator/dashboard" replace />;
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-6 max-w-4xl space-y-6">
+      <PageHeader
+        accent="purple"
+        icon={icon}
+        title={title}
+        description={description}
+        actions={
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/creator/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+        }
+      />
+      {children(creatorProfile.id)}
+    </main>
+  );
+};
+
+export default CreatorManagePage;
@@ -1,13 +1,22 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
+import {
+  useCompleteOnboarding,
+  useCreateCreatorProfile,
+  useUpdateCreatorProfile,
+  type CreatorProfile,
+} from "@/hooks/use-creator-profile";
+import { useOnboardingChecks } from "@/hooks/use-onboarding-checks";
+import { AutosaveScope, useAutosaveScope } from "@/hooks/use-autosave";
+import { firstIncompleteStep, getStepErrors } from "@/lib/onboarding";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { 
-  ArrowLeft, ArrowRight, Check, Loader2, 
+  ArrowLeft, ArrowRight, Check, Circle, Loader2, CheckCircle2, AlertCircle,
   User, Briefcase, Image, DollarSign, Calendar, CreditCard, Palette
 } from "lucide-react";
+import PageHeader from "@/components/layout/PageHeader";
 import Step1Profile from "./onboarding/Step1Profile";
 import Step2Specialization from "./onboarding/Step2Specialization";
 import Step3Portfolio from "./onboarding/Step3Portfolio";
@@ -16,8 +25,7 @@ import Step5Availability from "./onboarding/Step5Availability";
 import Step6Banking from "./onboarding/Step6Banking";
 
 interface CreatorOnboardingProps {
-  creatorProfile: any;
-  onComplete: () => void;
+  creatorProfile: CreatorProfile | null;
 }
 
 const STEPS = [
@@ -29,87 +37,112 @@ const STEPS = [
   { id: 6, title: "Banking", icon: CreditCard, description: "Payment details" },
 ];
 
-const CreatorOnboarding = ({ creatorProfile, onComplete }: CreatorOnboardingProps) => {
-  const { user, signOut } = useAuth();
+const CreatorOnboarding = ({ creatorProfile }: CreatorOnboardingProps) => {
+  const { user } = useAuth();
   const { toast } = useToast();
+  const { mutate: createProfile } = useCreateCreatorProfile(user?.id);
+  const updateProfile = useUpdateCreatorProfile(user?.id);
+  const completeOnboarding = useCompleteOnboarding(user?.id);
   const [currentStep, setCurrentStep] = useState(creatorProfile?.onboarding_step || 1);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [creatorId, setCreatorId] = useState<string | null>(creatorProfile?.id || null);
+  // Errors stay hidden until the creator tries to leave the step
+  const [attemptedStep, setAttemptedStep] = useState<number | null>(null);
+  const [isFlushing, setIsFlushing] = useState(false);
+  const creatorId = creatorProfile?.id || null;
+  const { checks, recheck } = useOnboardingChecks(creatorId || "", user?.id);
+  const autosaves = useAutosaveScope();
+  const stepErrors = getStepErrors(checks, currentStep);
+  const showStepErrors = attemptedStep === currentStep && stepErrors.length > 0;
 
   // Create creator profile if it doesn't exist
   useEffect(() => {
     if (!creatorProfile && user) {
-      createCreatorProfile();
+      createProfile(undefined, {
+        onError: () => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Could not initialize your profile.",
+          });
+        },
+      });
     }
-  }, [creatorProfile, user]);
+  }, [creatorProfile, user, createProfile, toast]);
 
-  const createCreatorProfile = async () => {
-    const { data, error } = await supabase
-      .from("creator_profiles")
-      .insert({ user_id: user?.id })
-      .select()
-      .single();
+  // Every step saves what is pending before the wizard moves, so nothing typed is left
+  // behind. Returns false, after telling the creator why, when the step cannot be left.
+  const flushStep = async (validate: boolean) => {
+    setIsFlushing(true);
+    const problem = await autosaves.flushAll({ validate });
+    setIsFlushing(false);
 
-    if (error) {
+    if (problem) {
       toast({
         variant: "destructive",
-        title: "Error",
-        description: "Could not initialize your profile.",
+        title: "Changes not saved",
+        description: problem,
       });
-    } else {
-      setCreatorId(data.id);
     }
+    return !problem;
   };
 
   const handleNext = async () => {
+    if (!(await flushStep(true))) return;
+
+    if (getStepErrors(recheck(), currentStep).length > 0) {
+      setAttemptedStep(currentStep);
+      return;
+    }
+
     if (currentStep < 6) {
       const nextStep = currentStep + 1;
       setCurrentStep(nextStep);
-      
+
       // Update onboarding step in database
       if (creatorId) {
-        await supabase
-          .from("creator_profiles")
-          .update({ onboarding_step: nextStep })
-          .eq("id", creatorId);
+        updateProfile.mutate({ onboarding_step: nextStep });
       }
     }
   };
 
-  const handleBack = () => {
+  const handleBack = async () => {
+    if (!(await flushStep(false))) return;
+
     if (currentStep > 1) {
       setCurrentStep(currentStep - 1);
     }
   };
 
+  // Awaited rather than using callbacks: the optimistic update swaps this screen for the
+  // dashboard, and callbacks passed to mutate() don't run once the component unmounts
   const handleComplete = async () => {
-    setIsSubmitting(true);
-    
-    if (creatorId) {
-      const { error } = await supabase
-        .from("creator_profiles")
-        .update({ 
-          onboarding_completed: true,
-          onboarding_step: 6 
-        })
-        .eq("id", creatorId);
-
-      if (error) {
-        toast({
-          variant: "destructive",
-          title: "Error",
-          description: "Could not complete onboarding.",
-        });
-      } else {
-        toast({
-          title: "Welcome aboard! 🎉",
-          description: "Your creator profile is now complete.",
-        });
-        onComplete();
-      }
+    if (!creatorId) return;
+    if (!(await flushStep(true))) return;
+
+    const incompleteStep = firstIncompleteStep(recheck());
+    if (incompleteStep !== null) {
+      setCurrentStep(incompleteStep);
+      setAttemptedStep(incompleteStep);
+      toast({
+        variant: "destructive",
+        title: "Almost there",
+        description: `Finish the ${STEPS[incompleteStep - 1].title.toLowerCase()} step before completing setup.`,
+      });
+      return;
+    }
+
+    try {
+      await completeOnboarding.mutateAsync();
+      toast({
+        title: "Welcome aboard! 🎉",
+        description: "Your creator profile is now complete.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not complete onboarding",
+        description: (error as Error).message,
+      });
     }
-    
-    setIsSubmitting(false);
   };
 
   const renderStep = () => {
@@ -127,33 +160,24 @@ const CreatorOnboarding = ({ creatorProfile, onComplete }: CreatorOnboardingProp
       case 5:
         return <Step5Availability {...props} />;
       case 6:
-        return <Step6Banking {...props} onComplete={handleComplete} isSubmitting={isSubmitting} />;
+        return <Step6Banking {...props} onComplete={handleComplete} isSubmitting={completeOnboarding.isPending} />;
       default:
         return null;
     }
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50/30">
-      {/* Header */}
-      <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
-        <div className="container mx-auto flex items-center justify-between px-4 py-4">
-          <div className="flex items-center gap-3">
-            <div className="h-10 w-10 rounded-xl bg-purple-100 flex items-center justify-center">
-              <Palette className="h-5 w-5 text-purple-600" />
-            </div>
-            <div>
-              <h1 className="text-lg font-semibold text-slate-900">Creator Onboarding</h1>
-              <p className="text-sm text-slate-500">Step {currentStep} of 6</p>
-            </div>
-          </div>
-          <Button variant="ghost" onClick={() => signOut()} className="text-slate-600">
-            Exit
-          </Button>
+    <AutosaveScope value={autosaves.flushes}>
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="mb-8">
+          <PageHeader
+            accent="purple"
+            icon={Palette}
+            title="Creator Onboarding"
+            description={`Step ${currentStep} of 6`}
+          />
         </div>
-      </header>
 
-      <div className="container mx-auto px-4 py-8 max-w-5xl">
         {/* Progress Steps */}
         <div className="mb-8">
           <div className="flex items-center justify-between">
@@ -211,15 +235,46 @@ const CreatorOnboarding = ({ creatorProfile, onComplete }: CreatorOnboardingProp
           </CardHeader>
           <CardContent className="p-6">
             {renderStep()}
+
+            {showStepErrors && (
+              <div className="mt-6 flex gap-3 rounded-md bg-red-50 p-3 text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                <ul className="space-y-1">
+                  {stepErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {/* Completeness checklist */}
+        <div className="mt-6 rounded-lg border bg-white p-4">
+          <p className="mb-3 text-sm font-medium text-slate-900">
+            Required to go live ({checks.filter(c => c.isMet).length}/{checks.length})
+          </p>
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {checks.map(check => (
+              <div key={check.label} className="flex items-center gap-2 text-sm">
+                {check.isMet ? (
+                  <CheckCircle2 className="h-4 w-4 text-purple-600" />
+                ) : (
+                  <Circle className="h-4 w-4 text-slate-300" />
+                )}
+                <span className={check.isMet ? "text-slate-700" : "text-slate-500"}>
+                  {check.label}
+                  <span className="text-slate-400"> · {STEPS[check.step - 1].title}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Navigation */}
         <div className="flex justify-between mt-6">
           <Button
             variant="outline"
             onClick={handleBack}
-            disabled={currentStep === 1}
+            disabled={currentStep === 1 || isFlushing}
             className="gap-2"
           >
             <ArrowLeft className="h-4 w-4" />
@@ -229,15 +284,16 @@ const CreatorOnboarding = ({ creatorProfile, onComplete }: CreatorOnboardingProp
           {currentStep < 6 && (
             <Button
               onClick={handleNext}
+              disabled={isFlushing}
               className="gap-2 bg-purple-600 hover:bg-purple-700"
             >
               Save & Continue
-              <ArrowRight className="h-4 w-4" />
+              {isFlushing ? <Loader2 className="h-4 w-4 animate-spin" /> : <ArrowRight className="h-4 w-4" />}
             </Button>
           )}
         </div>
       </div>
-    </div>
+    </AutosaveScope>
   );
 };
 
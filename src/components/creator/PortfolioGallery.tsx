@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, Play } from "lucide-react";
+
+export interface PortfolioGalleryItem {
+  id: string;
+  file_url: string;
+  file_type: string;
+  title: string | null;
+  description: string | null;
+}
+
+interface PortfolioGalleryProps {
+  items: PortfolioGalleryItem[];
+}
+
+const PortfolioGallery = ({ items }: PortfolioGalleryProps) => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const active = activeIndex !== null ? items[activeIndex] : null;
+
+  const showPrevious = () => {
+    setActiveIndex(i => (i === null ? i : (i - 1 + items.length) % items.length));
+  };
+
+  const showNext = () => {
+    setActiveIndex(i => (i === null ? i : (i + 1) % items.length));
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {items.map((item, i) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => setActiveIndex(i)}
+            className="group relative aspect-square overflow-hidden rounded-lg bg-slate-100"
+          >
+            {item.file_type === "video" ? (
+              <>
+                <video src={item.file_url} muted preload="metadata" className="h-full w-full object-cover" />
+                <span className="absolute inset-0 flex items-center justify-center bg-black/20">
+                  <span className="flex h-12 w-12 items-center justify-center rounded-full bg-white/90">
+                    <Play className="h-5 w-5 text-purple-600" />
+                  </span>
+                </span>
+              </>
+            ) : (
+              <img
+                src={item.file_url}
+                alt={item.title || "Portfolio item"}
+                loading="lazy"
+                className="h-full w-full object-cover transition-transform group-hover:scale-105"
+              />
+            )}
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={active !== null} onOpenChange={(open) => !open && setActiveIndex(null)}>
+        <DialogContent
+          className="max-w-4xl border-0 bg-black p-0"
+          onKeyDown={(e) => {
+            if (e.key === "ArrowLeft") showPrevious();
+            if (e.key === "ArrowRight") showNext();
+          }}
+        >
+          <DialogTitle className="sr-only">{active?.title || "Portfolio item"}</DialogTitle>
+          {active && (
+            <div className="relative">
+              {active.file_type === "video" ? (
+                <video key={active.id} src={active.file_url} controls autoPlay className="max-h-[80vh] w-full" />
+              ) : (
+                <img src={active.file_url} alt={active.title || "Portfolio item"} className="max-h-[80vh] w-full object-contain" />
+              )}
+
+              {items.length > 1 && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={showPrevious}
+                    className="absolute left-2 top-1/2 -translate-y-1/2 bg-black/40 text-white hover:bg-black/60 hover:text-white"
+                    aria-label="Previous"
+                  >
+                    <ChevronLeft className="h-6 w-6" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={showNext}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 bg-black/40 text-white hover:bg-black/60 hover:text-white"
+                    aria-label="Next"
+                  >
+                    <ChevronRight className="h-6 w-6" />
+                  </Button>
+                </>
+              )}
+
+              {(active.title || active.description) && (
+                <div className="p-4 text-white">
+                  {active.title && <p className="font-medium">{active.title}</p>}
+                  {active.description && <p className="text-sm text-white/70">{active.description}</p>}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PortfolioGallery;
@@ -0,0 +1,64 @@
+import { Area, AreaChart, CartesianGrid, XAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { PROFILE_VIEW_TREND_DAYS, type ProfileViewDay } from "@/lib/profile-views";
+import { Eye } from "lucide-react";
+
+interface ProfileViewsCardProps {
+  trend: ProfileViewDay[];
+}
+
+const chartConfig = {
+  views: { label: "Views", color: "#9333ea" },
+} satisfies ChartConfig;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const ProfileViewsCard = ({ trend }: ProfileViewsCardProps) => {
+  const periodViews = trend.reduce((sum, day) => sum + day.views, 0);
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="h-5 w-5 text-purple-600" />
+          Profile Views
+        </CardTitle>
+        <CardDescription>
+          {periodViews} {periodViews === 1 ? "visitor" : "visitors"} in the last {PROFILE_VIEW_TREND_DAYS} days,
+          each counted once a day
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+          <AreaChart data={trend} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="date"
+              tickLine={false}
+              axisLine={false}
+              tickMargin={8}
+              minTickGap={32}
+              tickFormatter={formatDay}
+            />
+            <ChartTooltip
+              cursor={false}
+              content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />}
+            />
+            <Area
+              dataKey="views"
+              type="monotone"
+              fill="var(--color-views)"
+              fillOpacity={0.2}
+              stroke="var(--color-views)"
+              strokeWidth={2}
+            />
+          </AreaChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProfileViewsCard;
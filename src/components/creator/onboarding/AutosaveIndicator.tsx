@@ -0,0 +1,33 @@
+import type { AutosaveStatus } from "@/hooks/use-autosave";
+import { AlertCircle, Check, Loader2 } from "lucide-react";
+
+interface AutosaveIndicatorProps {
+  status: AutosaveStatus;
+  error: string | null;
+}
+
+const AutosaveIndicator = ({ status, error }: AutosaveIndicatorProps) => {
+  if (status === "idle") return null;
+
+  if (status === "error") {
+    return (
+      <p className="flex items-center gap-1.5 text-xs text-red-600">
+        <AlertCircle className="h-3.5 w-3.5" />
+        {error}
+      </p>
+    );
+  }
+
+  return (
+    <p className="flex items-center gap-1.5 text-xs text-slate-500">
+      {status === "saved" ? (
+        <Check className="h-3.5 w-3.5 text-purple-600" />
+      ) : (
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+      )}
+      {status === "saved" ? "All changes saved" : "Saving..."}
+    </p>
+  );
+};
+
+export default AutosaveIndicator;
@@ -1,33 +1,33 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
+import { useProfile } from "@/hooks/use-profile";
+import { useCreatorProfile, useUpdateCreatorProfile } from "@/hooks/use-creator-profile";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAutosave } from "@/hooks/use-autosave";
+import { readDraft } from "@/lib/drafts";
+import { INDIAN_STATES, LANGUAGES } from "@/lib/creator-options";
 import { 
-  User, Mail, MapPin, Globe, Camera
+  User, Mail, MapPin, Globe, Loader2
 } from "lucide-react";
+import type { EditorMode } from "./editor-mode";
+import AutosaveIndicator from "./AutosaveIndicator";
+import AvatarUpload from "@/components/avatar/AvatarUpload";
 
 interface Step1ProfileProps {
   creatorId: string;
-  onNext: () => void;
+  onNext?: () => void;
+  mode?: EditorMode;
 }
 
-const INDIAN_STATES = [
-  "Andhra Pradesh", "Arunachal Pradesh", "Assam", "Bihar", "Chhattisgarh",
-  "Goa", "Gujarat", "Haryana", "Himachal Pradesh", "Jharkhand", "Karnataka",
-  "Kerala", "Madhya Pradesh", "Maharashtra", "Manipur", "Meghalaya", "Mizoram",
-  "Nagaland", "Odisha", "Punjab", "Rajasthan", "Sikkim", "Tamil Nadu",
-  "Telangana", "Tripura", "Uttar Pradesh", "Uttarakhand", "West Bengal"
-];
-
-const LANGUAGES = [
-  "English", "Hindi", "Tamil", "Telugu", "Kannada", "Malayalam", "Marathi",
-  "Bengali", "Gujarati", "Punjabi", "Odia", "Urdu"
-];
-
-const Step1Profile = ({ creatorId }: Step1ProfileProps) => {
+const Step1Profile = ({ creatorId, mode = "wizard" }: Step1ProfileProps) => {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSeeded, setIsSeeded] = useState(false);
   const [formData, setFormData] = useState({
     bio: "",
     state: "",
@@ -35,57 +35,66 @@ const Step1Profile = ({ creatorId }: Step1ProfileProps) => {
     location: "",
     languages: [] as string[],
   });
-  const [profile, setProfile] = useState<{ full_name: string | null; email: string | null }>({ full_name: "", email: "" });
+  const { data: profile } = useProfile(user?.id);
+  const { data: creatorProfile } = useCreatorProfile(user?.id);
+  const updateCreatorProfile = useUpdateCreatorProfile(user?.id);
+  const draftKey = mode === "wizard" && creatorId ? `onboarding:${creatorId}:profile` : null;
+
+  const autosave = useAutosave({
+    value: formData,
+    save: (data) => updateCreatorProfile.mutateAsync(data),
+    draftKey,
+    enabled: mode === "wizard" && isSeeded,
+  });
 
+  const resetForm = useCallback(() => {
+    const draft = draftKey ? readDraft<typeof formData>(localStorage, draftKey) : null;
+    setFormData(draft || {
+      bio: creatorProfile?.bio || "",
+      state: creatorProfile?.state || "",
+      city: creatorProfile?.city || "",
+      location: creatorProfile?.location || "",
+      languages: creatorProfile?.languages || [],
+    });
+    setIsDirty(false);
+    setIsSeeded(true);
+  }, [draftKey, creatorProfile]);
+
+  // Seed the form once; after that the form is the source of truth while typing
   useEffect(() => {
-    fetchData();
-  }, [creatorId]);
-
-  const fetchData = async () => {
-    // Fetch base profile
-    const { data: profileData } = await supabase
-      .from("profiles")
-      .select("full_name, email")
-      .eq("user_id", user?.id)
-      .maybeSingle();
-
-    if (profileData) {
-      setProfile(profileData);
+    if (!isSeeded && creatorProfile?.id === creatorId) {
+      resetForm();
     }
-
-    // Fetch creator profile
-    if (creatorId) {
-      const { data: creatorData } = await supabase
-        .from("creator_profiles")
-        .select("bio, state, city, location, languages")
-        .eq("id", creatorId)
-        .maybeSingle();
-
-      if (creatorData) {
-        setFormData({
-          bio: creatorData.bio || "",
-          state: creatorData.state || "",
-          city: creatorData.city || "",
-          location: creatorData.location || "",
-          languages: creatorData.languages || [],
-        });
-      }
-    }
-  };
+  }, [isSeeded, creatorProfile?.id, creatorId, resetForm]);
 
   const handleChange = (field: string, value: string | string[]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
-    
-    // Auto-save to database
-    if (creatorId) {
-      supabase
-        .from("creator_profiles")
-        .update({ [field]: value })
-        .eq("id", creatorId)
-        .then();
+
+    // While onboarding, useAutosave picks the change up
+    if (mode === "standalone") {
+      setIsDirty(true);
     }
   };
 
+  const handleSave = () => {
+    updateCreatorProfile.mutate(formData, {
+      onSuccess: () => {
+        setIsDirty(false);
+        toast({
+          title: "Profile updated",
+          description: "Your changes are live on your public profile.",
+        });
+      },
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not save your profile.",
+        });
+      },
+    });
+  };
+
   const toggleLanguage = (lang: string) => {
     const newLanguages = formData.languages.includes(lang)
       ? formData.languages.filter(l => l !== lang)
@@ -95,16 +104,8 @@ const Step1Profile = ({ creatorId }: Step1ProfileProps) => {
 
   return (
     <div className="space-y-6">
-      {/* Profile Picture Placeholder */}
-      <div className="flex items-center gap-6">
-        <div className="h-24 w-24 rounded-full bg-slate-100 border-2 border-dashed border-slate-300 flex items-center justify-center">
-          <Camera className="h-8 w-8 text-slate-400" />
-        </div>
-        <div>
-          <p className="font-medium text-slate-900">Profile Picture</p>
-          <p className="text-sm text-slate-500">Upload a professional photo</p>
-        </div>
-      </div>
+      {/* Profile Picture */}
+      <AvatarUpload userId={user?.id} accent="purple" />
 
       {/* Basic Info */}
       <div className="grid gap-4 sm:grid-cols-2">
@@ -113,7 +114,7 @@ const Step1Profile = ({ creatorId }: Step1ProfileProps) => {
             <User className="h-4 w-4 text-slate-400" />
             Full Name
           </Label>
-          <Input value={profile.full_name || ""} disabled className="bg-slate-50" />
+          <Input value={profile?.full_name || ""} disabled className="bg-slate-50" />
           <p className="text-xs text-slate-400">From your account profile</p>
         </div>
         <div className="space-y-2">
@@ -121,7 +122,7 @@ const Step1Profile = ({ creatorId }: Step1ProfileProps) => {
             <Mail className="h-4 w-4 text-slate-400" />
             Email
           </Label>
-          <Input value={profile.email || ""} disabled className="bg-slate-50" />
+          <Input value={profile?.email || ""} disabled className="bg-slate-50" />
         </div>
       </div>
 
@@ -197,6 +198,24 @@ const Step1Profile = ({ creatorId }: Step1ProfileProps) => {
           ))}
         </div>
       </div>
+
+      {mode === "wizard" && <AutosaveIndicator status={autosave.status} error={autosave.error} />}
+
+      {mode === "standalone" && (
+        <div className="flex justify-end gap-2 border-t pt-4">
+          <Button variant="outline" onClick={resetForm} disabled={!isDirty || updateCreatorProfile.isPending}>
+            Discard
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!isDirty || updateCreatorProfile.isPending}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            {updateCreatorProfile.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save Changes
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
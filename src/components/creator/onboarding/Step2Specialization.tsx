@@ -1,99 +1,24 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { Label } from "@/components/ui/label";
+import { useCreatorSpecializations, useUpdateCreatorSpecialization } from "@/hooks/use-creator-specializations";
+import { SPECIALIZATIONS, SKILL_LEVELS, type SkillLevel, type SpecializationCategory } from "@/lib/creator-options";
 
 interface Step2SpecializationProps {
   creatorId: string;
-  onNext: () => void;
-}
-
-const SPECIALIZATIONS = [
-  { id: "brand_strategy", label: "Brand Strategy", description: "Develop brand identity and positioning" },
-  { id: "content_creation", label: "Content Creation", description: "Create engaging content for social media" },
-  { id: "reel_direction", label: "Reel Direction", description: "Direct and produce short-form videos" },
-  { id: "story_telling", label: "Story Telling", description: "Craft compelling narratives" },
-  { id: "creative_direction", label: "Creative Direction", description: "Lead overall creative vision" },
-  { id: "photography", label: "Photography", description: "Professional photo shoots" },
-  { id: "video_editing", label: "Video Editing", description: "Edit and produce videos" },
-  { id: "social_media_management", label: "Social Media Management", description: "Manage social media accounts" },
-  { id: "influencer_marketing", label: "Influencer Marketing", description: "Connect brands with influencers" },
-  { id: "copywriting", label: "Copywriting", description: "Write persuasive copy and captions" },
-];
-
-const SKILL_LEVELS = [
-  { id: "beginner", label: "Beginner", color: "bg-green-100 text-green-700 border-green-300" },
-  { id: "intermediate", label: "Intermediate", color: "bg-yellow-100 text-yellow-700 border-yellow-300" },
-  { id: "expert", label: "Expert", color: "bg-purple-100 text-purple-700 border-purple-300" },
-];
-
-type SkillLevel = "beginner" | "intermediate" | "expert";
-
-interface SelectedSkill {
-  category: string;
-  skill_level: SkillLevel;
+  onNext?: () => void;
 }
 
 const Step2Specialization = ({ creatorId }: Step2SpecializationProps) => {
-  const [selectedSkills, setSelectedSkills] = useState<SelectedSkill[]>([]);
+  const { data: selectedSkills = [] } = useCreatorSpecializations(creatorId);
+  const updateSpecialization = useUpdateCreatorSpecialization(creatorId);
 
-  useEffect(() => {
-    if (creatorId) {
-      fetchSpecializations();
-    }
-  }, [creatorId]);
-
-  const fetchSpecializations = async () => {
-    const { data } = await supabase
-      .from("creator_specializations")
-      .select("category, skill_level")
-      .eq("creator_id", creatorId);
-
-    if (data) {
-      setSelectedSkills(data.map(d => ({
-        category: d.category,
-        skill_level: d.skill_level as SkillLevel
-      })));
-    }
-  };
-
-  const toggleSpecialization = async (specId: string) => {
+  const toggleSpecialization = (specId: SpecializationCategory) => {
     const existing = selectedSkills.find(s => s.category === specId);
-    
-    if (existing) {
-      // Remove - use raw SQL approach for dynamic enum value
-      await supabase
-        .from("creator_specializations")
-        .delete()
-        .eq("creator_id", creatorId)
-        .eq("category", specId as any);
-      
-      setSelectedSkills(prev => prev.filter(s => s.category !== specId));
-    } else {
-      // Add with default beginner level
-      const { error } = await supabase
-        .from("creator_specializations")
-        .insert({
-          creator_id: creatorId,
-          category: specId as any,
-          skill_level: "beginner"
-        } as any);
-      
-      if (!error) {
-        setSelectedSkills(prev => [...prev, { category: specId, skill_level: "beginner" }]);
-      }
-    }
+    // New specializations start at beginner level
+    updateSpecialization.mutate({ action: existing ? "remove" : "add", category: specId });
   };
 
-  const updateSkillLevel = async (specId: string, level: SkillLevel) => {
-    await supabase
-      .from("creator_specializations")
-      .update({ skill_level: level })
-      .eq("creator_id", creatorId)
-      .eq("category", specId as any);
-
-    setSelectedSkills(prev => 
-      prev.map(s => s.category === specId ? { ...s, skill_level: level } : s)
-    );
+  const updateSkillLevel = (specId: SpecializationCategory, level: SkillLevel) => {
+    updateSpecialization.mutate({ action: "level", category: specId, skillLevel: level });
   };
 
   const getSkillForSpec = (specId: string) => {
@@ -145,7 +70,7 @@ const Step2Specialization = ({ creatorId }: Step2SpecializationProps) => {
                     {SKILL_LEVELS.map((level) => (
                       <button
                         key={level.id}
-                        onClick={() => updateSkillLevel(spec.id, level.id as SkillLevel)}
+                        onClick={() => updateSkillLevel(spec.id, level.id)}
                         className={`px-3 py-1 rounded-full text-xs font-medium border transition-all ${
                           skill?.skill_level === level.id
                             ? level.color
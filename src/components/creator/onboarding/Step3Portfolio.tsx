@@ -1,46 +1,26 @@
-import { useState, useEffect, useRef } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import {
+  useCreatorPortfolio,
+  useRemovePortfolioItem,
+  useUploadPortfolioItems,
+} from "@/hooks/use-creator-portfolio";
 import { Upload, X, Image as ImageIcon, Video, Loader2 } from "lucide-react";
 
 interface Step3PortfolioProps {
   creatorId: string;
-  onNext: () => void;
-}
-
-interface PortfolioItem {
-  id: string;
-  file_url: string;
-  file_type: string;
-  title: string | null;
+  onNext?: () => void;
 }
 
 const Step3Portfolio = ({ creatorId }: Step3PortfolioProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [portfolio, setPortfolio] = useState<PortfolioItem[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
-
-  useEffect(() => {
-    if (creatorId) {
-      fetchPortfolio();
-    }
-  }, [creatorId]);
-
-  const fetchPortfolio = async () => {
-    const { data } = await supabase
-      .from("creator_portfolio")
-      .select("id, file_url, file_type, title")
-      .eq("creator_id", creatorId)
-      .order("display_order");
-
-    if (data) {
-      setPortfolio(data);
-    }
-  };
+  const { data: portfolio = [] } = useCreatorPortfolio(creatorId);
+  const uploadItems = useUploadPortfolioItems(creatorId, user?.id);
+  const removeItem = useRemovePortfolioItem(creatorId);
+  const isUploading = uploadItems.isPending;
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -55,62 +35,20 @@ const Step3Portfolio = ({ creatorId }: Step3PortfolioProps) => {
       return;
     }
 
-    setIsUploading(true);
-
-    for (const file of Array.from(files)) {
-      const fileType = file.type.startsWith("video/") ? "video" : "image";
-      const fileExt = file.name.split(".").pop();
-      const fileName = `${user?.id}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-
-      // Upload to storage
-      const { error: uploadError } = await supabase.storage
-        .from("creator-portfolio")
-        .upload(fileName, file);
-
-      if (uploadError) {
-        toast({
-          variant: "destructive",
-          title: "Upload failed",
-          description: `Could not upload ${file.name}`,
-        });
-        continue;
-      }
-
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from("creator-portfolio")
-        .getPublicUrl(fileName);
-
-      // Save to database
-      await supabase.from("creator_portfolio").insert({
-        creator_id: creatorId,
-        file_url: urlData.publicUrl,
-        file_type: fileType,
-        display_order: portfolio.length,
+    const { failed } = await uploadItems.mutateAsync(Array.from(files));
+    failed.forEach(name => {
+      toast({
+        variant: "destructive",
+        title: "Upload failed",
+        description: `Could not upload ${name}`,
       });
-    }
+    });
 
-    await fetchPortfolio();
-    setIsUploading(false);
-    
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  const handleRemove = async (item: PortfolioItem) => {
-    // Delete from storage
-    const path = item.file_url.split("/creator-portfolio/")[1];
-    if (path) {
-      await supabase.storage.from("creator-portfolio").remove([path]);
-    }
-
-    // Delete from database
-    await supabase.from("creator_portfolio").delete().eq("id", item.id);
-    
-    await fetchPortfolio();
-  };
-
   return (
     <div className="space-y-6">
       <div className="text-sm text-slate-600">
@@ -183,7 +121,7 @@ const Step3Portfolio = ({ creatorId }: Step3PortfolioProps) => {
 
               {/* Remove Button */}
               <button
-                onClick={() => handleRemove(item)}
+                onClick={() => removeItem.mutate(item)}
                 className="absolute top-2 right-2 bg-red-500 text-white p-1.5 rounded-md opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-600"
               >
                 <X className="h-4 w-4" />
@@ -1,18 +1,25 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useCreatorPricing, useDeleteCreatorPackage, useSaveCreatorPackage } from "@/hooks/use-creator-pricing";
+import { useAutosave } from "@/hooks/use-autosave";
+import { readDraft } from "@/lib/drafts";
 import { Plus, Trash2, DollarSign } from "lucide-react";
+import type { EditorMode } from "./editor-mode";
+import AutosaveIndicator from "./AutosaveIndicator";
 
 interface Step4PricingProps {
   creatorId: string;
-  onNext: () => void;
+  onNext?: () => void;
+  mode?: EditorMode;
 }
 
 interface PricingPackage {
+  /** Stable across saves, so a package is inserted once however many autosaves it sees */
+  key: string;
   id?: string;
   package_name: string;
   hours_range: string;
@@ -21,48 +28,102 @@ interface PricingPackage {
   includes: string[];
 }
 
-const DEFAULT_PACKAGE: PricingPackage = {
+const newPackage = (): PricingPackage => ({
+  key: crypto.randomUUID(),
   package_name: "",
   hours_range: "",
   price: 0,
   description: "",
   includes: [],
-};
+});
+
+const isComplete = (pkg: PricingPackage) => !!pkg.package_name && !!pkg.hours_range && pkg.price > 0;
+
+const isBlank = (pkg: PricingPackage) =>
+  !pkg.package_name && !pkg.hours_range && !pkg.price && !pkg.description && pkg.includes.length === 0;
 
-const Step4Pricing = ({ creatorId }: Step4PricingProps) => {
+const toInput = (pkg: PricingPackage) => ({
+  package_name: pkg.package_name,
+  hours_range: pkg.hours_range,
+  price: pkg.price,
+  description: pkg.description,
+  includes: pkg.includes,
+});
+
+const Step4Pricing = ({ creatorId, mode = "wizard" }: Step4PricingProps) => {
   const { toast } = useToast();
+  const { data: savedPackages, isSuccess } = useCreatorPricing(creatorId);
+  const savePackageMutation = useSaveCreatorPackage(creatorId);
+  const deletePackage = useDeleteCreatorPackage(creatorId);
   const [packages, setPackages] = useState<PricingPackage[]>([]);
   const [newInclude, setNewInclude] = useState<Record<number, string>>({});
+  const [isSeeded, setIsSeeded] = useState(false);
+  const draftKey = mode === "wizard" && creatorId ? `onboarding:${creatorId}:pricing` : null;
+
+  // What each package last looked like on the server, by key. Updated as soon as a save
+  // returns, before the new ids have reached component state.
+  const savedIds = useRef(new Map<string, string>());
+  const savedSnapshots = useRef(new Map<string, string>());
 
+  // Packages are edited locally, so only seed the form once
   useEffect(() => {
-    if (creatorId) {
-      fetchPricing();
-    }
-  }, [creatorId]);
-
-  const fetchPricing = async () => {
-    const { data } = await supabase
-      .from("creator_pricing")
-      .select("*")
-      .eq("creator_id", creatorId)
-      .order("price");
-
-    if (data && data.length > 0) {
-      setPackages(data);
-    } else {
-      // Start with one empty package
-      setPackages([{ ...DEFAULT_PACKAGE }]);
+    if (!isSuccess || isSeeded) return;
+    const fromServer = savedPackages.map(p => ({
+      ...p,
+      key: p.id,
+      description: p.description || "",
+      includes: p.includes || [],
+    }));
+    fromServer.forEach(p => {
+      savedIds.current.set(p.key, p.id);
+      savedSnapshots.current.set(p.key, JSON.stringify(toInput(p)));
+    });
+
+    const draft = draftKey ? readDraft<PricingPackage[]>(localStorage, draftKey) : null;
+    // Start with one empty package
+    setPackages(draft || (fromServer.length > 0 ? fromServer : [newPackage()]));
+    setIsSeeded(true);
+  }, [isSuccess, isSeeded, savedPackages, draftKey]);
+
+  // Complete packages that changed since their last save are written one by one;
+  // incomplete ones wait in the draft
+  const saveChanged = async (current: PricingPackage[]) => {
+    for (const pkg of current) {
+      const snapshot = JSON.stringify(toInput(pkg));
+      if (!isComplete(pkg) || savedSnapshots.current.get(pkg.key) === snapshot) continue;
+
+      const saved = await savePackageMutation.mutateAsync({
+        id: pkg.id ?? savedIds.current.get(pkg.key),
+        ...toInput(pkg),
+      });
+      savedIds.current.set(pkg.key, saved.id);
+      savedSnapshots.current.set(pkg.key, snapshot);
+      setPackages(prev => prev.map(p => (p.key === pkg.key ? { ...p, id: saved.id } : p)));
     }
   };
 
+  const autosave = useAutosave({
+    value: packages,
+    save: saveChanged,
+    draftKey,
+    enabled: mode === "wizard" && isSeeded,
+    validate: (current) => {
+      const index = current.findIndex(p => !isComplete(p) && !isBlank(p));
+      return index === -1 ? null : `Package ${index + 1} needs a name, duration and price before it can be saved.`;
+    },
+  });
+
   const addPackage = () => {
-    setPackages([...packages, { ...DEFAULT_PACKAGE }]);
+    setPackages([...packages, newPackage()]);
   };
 
-  const removePackage = async (index: number) => {
+  const removePackage = (index: number) => {
     const pkg = packages[index];
-    if (pkg.id) {
-      await supabase.from("creator_pricing").delete().eq("id", pkg.id);
+    const id = pkg.id ?? savedIds.current.get(pkg.key);
+    if (id) {
+      deletePackage.mutate(id);
+      savedIds.current.delete(pkg.key);
+      savedSnapshots.current.delete(pkg.key);
     }
     setPackages(packages.filter((_, i) => i !== index));
   };
@@ -76,23 +137,19 @@ const Step4Pricing = ({ creatorId }: Step4PricingProps) => {
   const addInclude = (index: number) => {
     const text = newInclude[index]?.trim();
     if (text) {
-      const updated = [...packages];
-      updated[index].includes = [...updated[index].includes, text];
-      setPackages(updated);
+      updatePackage(index, "includes", [...packages[index].includes, text]);
       setNewInclude({ ...newInclude, [index]: "" });
     }
   };
 
   const removeInclude = (pkgIndex: number, includeIndex: number) => {
-    const updated = [...packages];
-    updated[pkgIndex].includes = updated[pkgIndex].includes.filter((_, i) => i !== includeIndex);
-    setPackages(updated);
+    updatePackage(pkgIndex, "includes", packages[pkgIndex].includes.filter((_, i) => i !== includeIndex));
   };
 
-  const savePackage = async (index: number) => {
+  const savePackage = (index: number) => {
     const pkg = packages[index];
     
-    if (!pkg.package_name || !pkg.hours_range || pkg.price <= 0) {
+    if (!isComplete(pkg)) {
       toast({
         variant: "destructive",
         title: "Missing fields",
@@ -101,44 +158,25 @@ const Step4Pricing = ({ creatorId }: Step4PricingProps) => {
       return;
     }
 
-    if (pkg.id) {
-      // Update
-      await supabase
-        .from("creator_pricing")
-        .update({
-          package_name: pkg.package_name,
-          hours_range: pkg.hours_range,
-          price: pkg.price,
-          description: pkg.description,
-          includes: pkg.includes,
-        })
-        .eq("id", pkg.id);
-    } else {
-      // Insert
-      const { data } = await supabase
-        .from("creator_pricing")
-        .insert({
-          creator_id: creatorId,
-          package_name: pkg.package_name,
-          hours_range: pkg.hours_range,
-          price: pkg.price,
-          description: pkg.description,
-          includes: pkg.includes,
-        })
-        .select()
-        .single();
-
-      if (data) {
-        const updated = [...packages];
-        updated[index] = data;
-        setPackages(updated);
+    savePackageMutation.mutate(
+      { id: pkg.id, ...toInput(pkg) },
+      {
+        onSuccess: (saved) => {
+          setPackages(prev => prev.map(p => (p.key === pkg.key ? { ...p, id: saved.id } : p)));
+          toast({
+            title: "Package saved",
+            description: "Your pricing package has been saved.",
+          });
+        },
+        onError: () => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Could not save the package.",
+          });
+        },
       }
-    }
-
-    toast({
-      title: "Package saved",
-      description: "Your pricing package has been saved.",
-    });
+    );
   };
 
   return (
@@ -148,7 +186,7 @@ const Step4Pricing = ({ creatorId }: Step4PricingProps) => {
       </div>
 
       {packages.map((pkg, index) => (
-        <div key={index} className="border rounded-lg p-6 space-y-4 bg-white">
+        <div key={pkg.key} className="border rounded-lg p-6 space-y-4 bg-white">
           <div className="flex items-center justify-between">
             <h4 className="font-medium text-slate-900">Package {index + 1}</h4>
             {packages.length > 1 && (
@@ -236,9 +274,11 @@ const Step4Pricing = ({ creatorId }: Step4PricingProps) => {
             </div>
           </div>
 
-          <Button onClick={() => savePackage(index)} className="bg-purple-600 hover:bg-purple-700">
-            Save Package
-          </Button>
+          {mode === "standalone" && (
+            <Button onClick={() => savePackage(index)} className="bg-purple-600 hover:bg-purple-700">
+              Save Package
+            </Button>
+          )}
         </div>
       ))}
 
@@ -246,6 +286,8 @@ const Step4Pricing = ({ creatorId }: Step4PricingProps) => {
         <Plus className="h-4 w-4" />
         Add Another Package
       </Button>
+
+      {mode === "wizard" && <AutosaveIndicator status={autosave.status} error={autosave.error} />}
     </div>
   );
 };
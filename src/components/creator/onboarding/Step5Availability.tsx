@@ -1,12 +1,19 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { useCreatorAvailability, useSaveAvailability } from "@/hooks/use-creator-availability";
+import { useAutosave } from "@/hooks/use-autosave";
+import { readDraft } from "@/lib/drafts";
+import { Loader2 } from "lucide-react";
+import type { EditorMode } from "./editor-mode";
+import AutosaveIndicator from "./AutosaveIndicator";
 
 interface Step5AvailabilityProps {
   creatorId: string;
-  onNext: () => void;
+  onNext?: () => void;
+  mode?: EditorMode;
 }
 
 const DAYS = [
@@ -38,61 +45,57 @@ const DEFAULT_AVAILABILITY: Omit<DayAvailability, 'day_of_week'> = {
   is_available: true,
 };
 
-const Step5Availability = ({ creatorId }: Step5AvailabilityProps) => {
+const Step5Availability = ({ creatorId, mode = "wizard" }: Step5AvailabilityProps) => {
   const { toast } = useToast();
-  const [availability, setAvailability] = useState<DayAvailability[]>(
-    DAYS.map(d => ({ day_of_week: d.id, ...DEFAULT_AVAILABILITY, is_available: d.id !== 0 && d.id !== 6 }))
+  const { data: saved = [] } = useCreatorAvailability(creatorId);
+  const saveWeek = useSaveAvailability(creatorId);
+  const draftKey = mode === "wizard" && creatorId ? `onboarding:${creatorId}:availability` : null;
+  // Edited days, by day. Standalone holds them until saved; the wizard autosaves them.
+  const [drafts, setDrafts] = useState<Record<number, DayAvailability>>(
+    () => (draftKey && readDraft<Record<number, DayAvailability>>(localStorage, draftKey)) || {}
   );
+  const isDirty = Object.keys(drafts).length > 0;
+
+  const autosave = useAutosave({
+    value: drafts,
+    save: (days) => saveWeek.mutateAsync(Object.values(days)),
+    draftKey,
+    enabled: mode === "wizard",
+  });
+
+  // Merge saved days with defaults, then any unsaved edits
+  const availability: DayAvailability[] = DAYS.map(d => {
+    if (drafts[d.id]) return drafts[d.id];
+    const existing = saved.find(a => a.day_of_week === d.id);
+    return existing
+      ? { ...existing, is_available: !!existing.is_available }
+      : { day_of_week: d.id, ...DEFAULT_AVAILABILITY, is_available: d.id !== 0 && d.id !== 6 };
+  });
+
+  const updateDay = <K extends keyof DayAvailability>(dayId: number, field: K, value: DayAvailability[K]) => {
+    const dayData = availability.find(a => a.day_of_week === dayId);
+    if (!dayData) return;
 
-  useEffect(() => {
-    if (creatorId) {
-      fetchAvailability();
-    }
-  }, [creatorId]);
-
-  const fetchAvailability = async () => {
-    const { data } = await supabase
-      .from("creator_availability")
-      .select("*")
-      .eq("creator_id", creatorId);
-
-    if (data && data.length > 0) {
-      // Merge fetched data with defaults
-      const merged = DAYS.map(d => {
-        const existing = data.find(a => a.day_of_week === d.id);
-        return existing || { day_of_week: d.id, ...DEFAULT_AVAILABILITY, is_available: d.id !== 0 && d.id !== 6 };
-      });
-      setAvailability(merged);
-    }
+    setDrafts(prev => ({ ...prev, [dayId]: { ...dayData, [field]: value } }));
   };
 
-  const updateDay = async (dayId: number, field: keyof DayAvailability, value: any) => {
-    const updated = availability.map(a =>
-      a.day_of_week === dayId ? { ...a, [field]: value } : a
-    );
-    setAvailability(updated);
-
-    const dayData = updated.find(a => a.day_of_week === dayId);
-    if (!dayData) return;
-
-    // Upsert to database
-    const { error } = await supabase
-      .from("creator_availability")
-      .upsert({
-        creator_id: creatorId,
-        day_of_week: dayId,
-        start_time: dayData.start_time,
-        end_time: dayData.end_time,
-        is_available: dayData.is_available,
-      }, { onConflict: 'creator_id,day_of_week' });
-
-    if (error) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Could not save availability.",
-      });
-    }
+  const handleSave = () => {
+    saveWeek.mutate(Object.values(drafts), {
+      onSuccess: () => {
+        setDrafts({});
+        toast({
+          title: "Availability updated",
+          description: "Influencers will see your new hours when booking.",
+        });
+      },
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not save availability.",
+        });
+      },
+    });
   };
 
   const formatTime = (time: string) => {
@@ -181,6 +184,24 @@ const Step5Availability = ({ creatorId }: Step5AvailabilityProps) => {
           You're available {availability.filter(a => a.is_available).length} days per week
         </p>
       </div>
+
+      {mode === "wizard" && <AutosaveIndicator status={autosave.status} error={autosave.error} />}
+
+      {mode === "standalone" && (
+        <div className="flex justify-end gap-2 border-t pt-4">
+          <Button variant="outline" onClick={() => setDrafts({})} disabled={!isDirty || saveWeek.isPending}>
+            Discard
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!isDirty || saveWeek.isPending}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            {saveWeek.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save Availability
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,118 +1,106 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useCreatorBanking, useSaveCreatorBanking } from "@/hooks/use-creator-banking";
+import {
+  formatMaskedAccountNumber,
+  validateBankingForm,
+  type BankingForm,
+  type BankingFormErrors,
+} from "@/lib/banking";
+import { lookupIfscBank } from "@/lib/ifsc-banks";
 import { Loader2, CreditCard, Building, User, Hash, Smartphone, Shield } from "lucide-react";
+import type { EditorMode } from "./editor-mode";
 
 interface Step6BankingProps {
   creatorId: string;
-  onNext: () => void;
-  onComplete: () => void;
-  isSubmitting: boolean;
+  onNext?: () => void;
+  mode?: EditorMode;
+  /** Finishes onboarding, wizard only */
+  onComplete?: () => void;
+  isSubmitting?: boolean;
 }
 
-interface BankingDetails {
-  account_holder_name: string;
-  bank_name: string;
-  account_number: string;
-  ifsc_code: string;
-  upi_id: string;
-}
-
-const Step6Banking = ({ creatorId, onComplete, isSubmitting }: Step6BankingProps) => {
+const Step6Banking = ({ creatorId, mode = "wizard", onComplete, isSubmitting }: Step6BankingProps) => {
   const { toast } = useToast();
-  const [formData, setFormData] = useState<BankingDetails>({
+  const [formData, setFormData] = useState<BankingForm>({
     account_holder_name: "",
     bank_name: "",
     account_number: "",
+    confirm_account_number: "",
     ifsc_code: "",
     upi_id: "",
   });
-  const [isSaving, setIsSaving] = useState(false);
-
+  const [errors, setErrors] = useState<BankingFormErrors>({});
+  const { data: stored } = useCreatorBanking(creatorId);
+  const saveBanking = useSaveCreatorBanking(creatorId);
+  const isSaving = saveBanking.isPending;
+  // The bank name last filled in for the creator, which a new IFSC may replace
+  const filledBankName = useRef<string | null>(null);
+
+  // Account numbers and UPI IDs only come back masked, so those fields start empty
   useEffect(() => {
-    if (creatorId) {
-      fetchBanking();
-    }
-  }, [creatorId]);
-
-  const fetchBanking = async () => {
-    const { data } = await supabase
-      .from("creator_banking")
-      .select("*")
-      .eq("creator_id", creatorId)
-      .maybeSingle();
-
-    if (data) {
+    if (stored) {
+      filledBankName.current = stored.bank_name;
       setFormData({
-        account_holder_name: data.account_holder_name || "",
-        bank_name: data.bank_name || "",
-        account_number: data.account_number || "",
-        ifsc_code: data.ifsc_code || "",
-        upi_id: data.upi_id || "",
+        account_holder_name: stored.account_holder_name || "",
+        bank_name: stored.bank_name || "",
+        account_number: "",
+        confirm_account_number: "",
+        ifsc_code: stored.ifsc_code || "",
+        upi_id: "",
       });
     }
-  };
+  }, [stored]);
 
-  const handleChange = (field: keyof BankingDetails, value: string) => {
+  const handleChange = (field: keyof BankingForm, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
   };
 
-  const handleSave = async () => {
-    setIsSaving(true);
-
-    // Check if record exists
-    const { data: existing } = await supabase
-      .from("creator_banking")
-      .select("id")
-      .eq("creator_id", creatorId)
-      .maybeSingle();
+  // Fill in the bank name from the IFSC unless the creator typed their own
+  const handleIfscChange = (value: string) => {
+    const ifsc = value.toUpperCase();
+    setFormData(prev => ({ ...prev, ifsc_code: ifsc }));
+    setErrors(prev => ({ ...prev, ifsc_code: undefined, bank_name: undefined }));
+
+    lookupIfscBank(ifsc)
+      .then(bank => {
+        if (!bank) return;
+        setFormData(prev => {
+          const isFilledIn = !prev.bank_name || prev.bank_name === filledBankName.current;
+          // Typing may have moved on while the branch list loaded
+          if (prev.ifsc_code !== ifsc || !isFilledIn) return prev;
+          filledBankName.current = bank;
+          return { ...prev, bank_name: bank };
+        });
+      })
+      // Without the branch list the creator can still type the bank name
+      .catch(() => undefined);
+  };
 
-    if (existing) {
-      // Update
-      const { error } = await supabase
-        .from("creator_banking")
-        .update(formData)
-        .eq("creator_id", creatorId);
+  const handleSave = () => {
+    const validationErrors = validateBankingForm(formData);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
 
-      if (error) {
-        toast({
-          variant: "destructive",
-          title: "Error",
-          description: "Could not save banking details.",
-        });
-      } else {
+    saveBanking.mutate(formData, {
+      onSuccess: () => {
         toast({
           title: "Saved",
-          description: "Banking details updated.",
-        });
-      }
-    } else {
-      // Insert
-      const { error } = await supabase
-        .from("creator_banking")
-        .insert({
-          creator_id: creatorId,
-          ...formData,
+          description: "Banking details saved.",
         });
-
-      if (error) {
+      },
+      onError: () => {
         toast({
           variant: "destructive",
           title: "Error",
           description: "Could not save banking details.",
         });
-      } else {
-        toast({
-          title: "Saved",
-          description: "Banking details saved.",
-        });
-      }
-    }
-
-    setIsSaving(false);
+      },
+    });
   };
 
   return (
@@ -122,7 +110,8 @@ const Step6Banking = ({ creatorId, onComplete, isSubmitting }: Step6BankingProps
         <div className="text-sm">
           <p className="font-medium text-amber-800">Your information is secure</p>
           <p className="text-amber-700">
-            Banking details are encrypted and only used for payment processing. You can skip this and add later.
+            Banking details are encrypted and only used for payment processing.
+            {mode === "wizard" && " You can skip this and add later."}
           </p>
         </div>
       </div>
@@ -138,6 +127,7 @@ const Step6Banking = ({ creatorId, onComplete, isSubmitting }: Step6BankingProps
             onChange={(e) => handleChange("account_holder_name", e.target.value)}
             placeholder="As per bank records"
           />
+          {errors.account_holder_name && <p className="text-xs text-red-500 font-medium">{errors.account_holder_name}</p>}
         </div>
         <div className="space-y-2">
           <Label className="flex items-center gap-2 text-sm">
@@ -149,6 +139,7 @@ const Step6Banking = ({ creatorId, onComplete, isSubmitting }: Step6BankingProps
             onChange={(e) => handleChange("bank_name", e.target.value)}
             placeholder="e.g., State Bank of India"
           />
+          {errors.bank_name && <p className="text-xs text-red-500 font-medium">{errors.bank_name}</p>}
         </div>
         <div className="space-y-2">
           <Label className="flex items-center gap-2 text-sm">
@@ -158,9 +149,31 @@ const Step6Banking = ({ creatorId, onComplete, isSubmitting }: Step6BankingProps
           <Input
             value={formData.account_number}
             onChange={(e) => handleChange("account_number", e.target.value)}
-            placeholder="Enter account number"
+            placeholder={
+              stored?.account_number_last4
+                ? `${formatMaskedAccountNumber(stored.account_number_last4)} (enter to replace)`
+                : "Enter account number"
+            }
             type="password"
+            inputMode="numeric"
           />
+          {errors.account_number && <p className="text-xs text-red-500 font-medium">{errors.account_number}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label className="flex items-center gap-2 text-sm">
+            <CreditCard className="h-4 w-4 text-slate-400" />
+            Confirm Account Number
+          </Label>
+          <Input
+            value={formData.confirm_account_number}
+            onChange={(e) => handleChange("confirm_account_number", e.target.value)}
+            placeholder="Re-enter account number"
+            inputMode="numeric"
+            disabled={!formData.account_number}
+          />
+          {errors.confirm_account_number && (
+            <p className="text-xs text-red-500 font-medium">{errors.confirm_account_number}</p>
+          )}
         </div>
         <div className="space-y-2">
           <Label className="flex items-center gap-2 text-sm">
@@ -169,9 +182,11 @@ const Step6Banking = ({ creatorId, onComplete, isSubmitting }: Step6BankingProps
           </Label>
           <Input
             value={formData.ifsc_code}
-            onChange={(e) => handleChange("ifsc_code", e.target.value.toUpperCase())}
+            onChange={(e) => handleIfscChange(e.target.value)}
             placeholder="e.g., SBIN0001234"
+            maxLength={11}
           />
+          {errors.ifsc_code && <p className="text-xs text-red-500 font-medium">{errors.ifsc_code}</p>}
         </div>
       </div>
 
@@ -185,29 +200,33 @@ const Step6Banking = ({ creatorId, onComplete, isSubmitting }: Step6BankingProps
           <Input
             value={formData.upi_id}
             onChange={(e) => handleChange("upi_id", e.target.value)}
-            placeholder="yourname@upi"
+            placeholder={stored?.upi_id_masked ? `${stored?.upi_id_masked} (enter to replace)` : "yourname@upi"}
           />
+          {errors.upi_id && <p className="text-xs text-red-500 font-medium">{errors.upi_id}</p>}
           <p className="text-xs text-slate-500">You can add UPI ID as an alternative to bank transfer</p>
         </div>
       </div>
 
-      <div className="flex items-center gap-4 pt-4">
+      <div className={`flex items-center gap-4 pt-4 ${mode === "standalone" ? "justify-end border-t" : ""}`}>
         <Button
           onClick={handleSave}
-          variant="outline"
+          variant={mode === "standalone" ? "default" : "outline"}
           disabled={isSaving}
+          className={mode === "standalone" ? "bg-purple-600 hover:bg-purple-700" : undefined}
         >
           {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
           Save Details
         </Button>
-        <Button
-          onClick={onComplete}
-          disabled={isSubmitting}
-          className="bg-purple-600 hover:bg-purple-700 flex-1"
-        >
-          {isSubmitting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
-          Complete Setup & Go to Dashboard
-        </Button>
+        {mode === "wizard" && (
+          <Button
+            onClick={onComplete}
+            disabled={isSubmitting}
+            className="bg-purple-600 hover:bg-purple-700 flex-1"
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Complete Setup & Go to Dashboard
+          </Button>
+        )}
       </div>
     </div>
   );
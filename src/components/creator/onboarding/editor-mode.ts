@@ -0,0 +1,8 @@
+/**
+ * The onboarding steps double as the editors behind the creator's manage pages.
+ * In the wizard, changes save as they are made; standalone, form edits (profile,
+ * package details, availability, banking) save when the creator asks, so a half-edited
+ * form is never live. Toggling a specialization, adding or removing a portfolio item
+ * and removing a package are single actions, not forms, and apply at once in both modes.
+ */
+export type EditorMode = "wizard" | "standalone";
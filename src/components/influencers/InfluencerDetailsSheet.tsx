@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useInfluencerActivity,
+  useSendPasswordReset,
+  useSetAccountSuspended,
+  type InfluencerSummary,
+} from "@/hooks/use-influencers";
+import BookingStatusBadge from "@/components/bookings/BookingStatusBadge";
+import PaymentStatusBadge from "@/components/bookings/PaymentStatusBadge";
+import { Ban, KeyRound, Loader2, RotateCcw } from "lucide-react";
+
+interface InfluencerDetailsSheetProps {
+  influencer: InfluencerSummary | null;
+  onClose: () => void;
+}
+
+const InfluencerDetailsSheet = ({ influencer, onClose }: InfluencerDetailsSheetProps) => {
+  const { toast } = useToast();
+  const { data: activity, isLoading } = useInfluencerActivity(influencer?.user_id ?? null);
+  const setAccountSuspended = useSetAccountSuspended();
+  const sendPasswordResetEmail = useSendPasswordReset();
+  const [isSuspending, setIsSuspending] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const bookings = activity?.bookings || [];
+  const notifications = activity?.notifications || [];
+
+  useEffect(() => {
+    setIsSuspending(false);
+    setReason("");
+  }, [influencer?.user_id]);
+
+  const setSuspended = (suspended: boolean) => {
+    if (!influencer) return;
+    setIsBusy(true);
+
+    setAccountSuspended.mutate({
+      userId: influencer.user_id,
+      suspended,
+      reason: suspended ? reason.trim() : null,
+    }, {
+      onSuccess: () => {
+        toast({
+          title: suspended ? "Account suspended" : "Account reinstated",
+          description: "The influencer has been notified.",
+        });
+        setIsSuspending(false);
+        setReason("");
+      },
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not update the account.",
+        });
+      },
+      onSettled: () => setIsBusy(false),
+    });
+  };
+
+  const sendPasswordReset = () => {
+    if (!influencer?.email) return;
+    const { email } = influencer;
+    setIsBusy(true);
+
+    sendPasswordResetEmail.mutate(email, {
+      onSuccess: () => {
+        toast({
+          title: "Password reset sent",
+          description: `A reset link was emailed to ${email}.`,
+        });
+      },
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not send the password reset email.",
+        });
+      },
+      onSettled: () => setIsBusy(false),
+    });
+  };
+
+  return (
+    <Sheet open={!!influencer} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>{influencer?.full_name || "Influencer"}</SheetTitle>
+          <SheetDescription>
+            {influencer?.email}
+            {influencer?.phone && ` · ${influencer.phone}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {influencer && (
+          <div className="space-y-6 py-4">
+            {/* Account */}
+            <div>
+              <h4 className="text-sm font-medium text-slate-700 mb-2">Account</h4>
+              <div className="space-y-3 rounded-lg bg-slate-50 p-3 text-sm">
+                <p>
+                  <span className="text-slate-500">Joined:</span>{" "}
+                  {new Date(influencer.created_at).toLocaleDateString()}
+                </p>
+                {influencer.suspended_at && (
+                  <p className="text-red-600">
+                    Suspended {new Date(influencer.suspended_at).toLocaleDateString()}: {influencer.suspended_reason}
+                  </p>
+                )}
+
+                {isSuspending ? (
+                  <div className="flex gap-2">
+                    <Input
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Reason, shown to the influencer"
+                      maxLength={500}
+                      className="h-8 bg-white"
+                    />
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => setSuspended(true)}
+                      disabled={!reason.trim() || isBusy}
+                    >
+                      Suspend
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setIsSuspending(false)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {influencer.suspended_at ? (
+                      <Button size="sm" variant="outline" onClick={() => setSuspended(false)} disabled={isBusy}>
+                        <RotateCcw className="mr-1 h-3.5 w-3.5" />
+                        Reinstate
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setIsSuspending(true)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Ban className="mr-1 h-3.5 w-3.5" />
+                        Suspend
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={sendPasswordReset}
+                      disabled={!influencer.email || isBusy}
+                    >
+                      <KeyRound className="mr-1 h-3.5 w-3.5" />
+                      Send password reset
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+              </div>
+            ) : (
+              <>
+                {/* Bookings */}
+                <div>
+                  <h4 className="text-sm font-medium text-slate-700 mb-2">
+                    Bookings ({bookings.length})
+                  </h4>
+                  {bookings.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">No bookings yet</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {bookings.map((booking) => (
+                        <div key={booking.id} className="rounded-lg border p-3 text-sm">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium text-slate-900">
+                              {booking.package?.package_name || "Booking"}
+                              {booking.creatorName && (
+                                <span className="font-normal text-slate-500"> with {booking.creatorName}</span>
+                              )}
+                            </p>
+                            <BookingStatusBadge status={booking.status} />
+                          </div>
+                          <div className="mt-1 flex items-center justify-between gap-2">
+                            <p className="text-slate-500">
+                              {new Date(booking.booking_date).toLocaleDateString()} at {booking.booking_time.slice(0, 5)}
+                            </p>
+                            {booking.payment && (
+                              <PaymentStatusBadge status={booking.payment.status} amount={booking.payment.amount} />
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Notifications */}
+                <div>
+                  <h4 className="text-sm font-medium text-slate-700 mb-2">Recent notifications</h4>
+                  {notifications.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">No notifications</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {notifications.map((notification) => (
+                        <div key={notification.id} className="rounded-lg bg-slate-50 p-3 text-sm">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium text-slate-900">{notification.title}</p>
+                            <span className="text-xs text-slate-400">
+                              {new Date(notification.created_at).toLocaleDateString()}
+                            </span>
+                          </div>
+                          <p className="text-slate-600">{notification.message}</p>
+                          {!notification.is_read && <p className="text-xs text-blue-600">Unread</p>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default InfluencerDetailsSheet;
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAdminInfluencers } from "@/hooks/use-influencers";
+import UserAvatar from "@/components/avatar/UserAvatar";
+import InfluencerDetailsSheet from "./InfluencerDetailsSheet";
+import { Loader2, Search, Sparkles } from "lucide-react";
+
+const InfluencerManagementPanel = () => {
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: influencers = [], isLoading } = useAdminInfluencers(search);
+
+  const selected = influencers.find(i => i.user_id === selectedId) || null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 space-y-0 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <CardTitle>All Influencers</CardTitle>
+          <CardDescription>
+            View registered influencers who can book creators
+          </CardDescription>
+        </div>
+        <div className="relative w-full sm:w-72">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or email"
+            className="pl-9"
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && influencers.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : influencers.length === 0 ? (
+          <div className="py-12 text-center text-slate-500">
+            <Sparkles className="mx-auto mb-4 h-12 w-12 opacity-40" />
+            <p className="font-medium">{search ? "No influencers match your search" : "No influencers yet"}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {influencers.map((influencer) => (
+              <div
+                key={influencer.user_id}
+                className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="flex items-center gap-3">
+                  <UserAvatar
+                    url={influencer.avatar_url}
+                    name={influencer.full_name}
+                    accent="pink"
+                    className="h-10 w-10"
+                  />
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-slate-900">{influencer.full_name || "Unnamed influencer"}</p>
+                      {influencer.suspended_at && (
+                        <Badge variant="secondary" className="bg-red-100 text-red-700">Suspended</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-slate-500">{influencer.email}</p>
+                    <p className="text-sm text-slate-500">
+                      Joined {new Date(influencer.created_at).toLocaleDateString()} ·{" "}
+                      {influencer.booking_count} booking{influencer.booking_count === 1 ? "" : "s"} ·{" "}
+                      {influencer.completed_count} completed · ₹{influencer.total_spend} spent
+                    </p>
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setSelectedId(influencer.user_id)}>
+                  View Details
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <InfluencerDetailsSheet
+        influencer={selected}
+        onClose={() => setSelectedId(null)}
+      />
+    </Card>
+  );
+};
+
+export default InfluencerManagementPanel;
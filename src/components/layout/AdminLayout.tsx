@@ -0,0 +1,37 @@
+import { useNavigate } from "react-router-dom";
+import { useAdminAuth } from "@/contexts/AdminAuthContext";
+import { useProfile } from "@/hooks/use-profile";
+import PortalLayout, { type PortalNavItem } from "./PortalLayout";
+import { LayoutDashboard, ShieldCheck } from "lucide-react";
+
+const NAV: PortalNavItem[] = [
+  { to: "/admin/dashboard", label: "Dashboard", icon: LayoutDashboard },
+];
+
+const AdminLayout = () => {
+  const { user, adminLogout } = useAdminAuth();
+  const navigate = useNavigate();
+  const { data: profile } = useProfile(user?.id);
+
+  const handleLogout = async () => {
+    await adminLogout();
+    navigate("/");
+  };
+
+  return (
+    <PortalLayout
+      accent="blue"
+      icon={ShieldCheck}
+      title="Admin Portal"
+      subtitle="Manage creators and platform analytics"
+      nav={NAV}
+      userId={user?.id}
+      userName={profile?.full_name || profile?.email}
+      avatarUrl={profile?.avatar_url}
+      signOutLabel="Logout"
+      onSignOut={handleLogout}
+    />
+  );
+};
+
+export default AdminLayout;
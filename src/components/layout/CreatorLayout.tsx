@@ -0,0 +1,37 @@
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProfile } from "@/hooks/use-profile";
+import PortalLayout, { type PortalNavItem } from "./PortalLayout";
+import { CalendarDays, LayoutDashboard, Palette } from "lucide-react";
+
+const NAV: PortalNavItem[] = [
+  { to: "/creator/dashboard", label: "Dashboard", icon: LayoutDashboard },
+  { to: "/creator/bookings", label: "Bookings", icon: CalendarDays },
+];
+
+const CreatorLayout = () => {
+  const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+  const { data: profile } = useProfile(user?.id);
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/");
+  };
+
+  return (
+    <PortalLayout
+      accent="purple"
+      icon={Palette}
+      title="Creator Portal"
+      subtitle="Welcome back!"
+      nav={NAV}
+      userId={user?.id}
+      userName={profile?.full_name || profile?.email}
+      avatarUrl={profile?.avatar_url}
+      onSignOut={handleSignOut}
+    />
+  );
+};
+
+export default CreatorLayout;
@@ -0,0 +1,37 @@
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProfile } from "@/hooks/use-profile";
+import PortalLayout, { type PortalNavItem } from "./PortalLayout";
+import { LayoutDashboard, Search, Sparkles } from "lucide-react";
+
+const NAV: PortalNavItem[] = [
+  { to: "/influencer/dashboard", label: "Dashboard", icon: LayoutDashboard },
+  { to: "/influencer/discover", label: "Discover Creators", icon: Search },
+];
+
+const InfluencerLayout = () => {
+  const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+  const { data: profile } = useProfile(user?.id);
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/");
+  };
+
+  return (
+    <PortalLayout
+      accent="pink"
+      icon={Sparkles}
+      title="Influencer Portal"
+      subtitle={`Welcome back, ${profile?.full_name || profile?.email || "Influencer"}`}
+      nav={NAV}
+      userId={user?.id}
+      userName={profile?.full_name || profile?.email}
+      avatarUrl={profile?.avatar_url}
+      onSignOut={handleSignOut}
+    />
+  );
+};
+
+export default InfluencerLayout;
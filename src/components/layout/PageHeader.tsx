@@ -0,0 +1,40 @@
+import type { ReactNode } from "react";
+import type { LucideIcon } from "lucide-react";
+import { avatarUrlForSize } from "@/lib/avatars";
+import { PORTAL_ACCENTS, type PortalAccent } from "@/lib/portal-accent";
+
+interface PageHeaderProps {
+  accent: PortalAccent;
+  icon: LucideIcon;
+  /** Shown instead of the icon when set, e.g. a profile picture */
+  imageUrl?: string | null;
+  title: string;
+  description?: ReactNode;
+  actions?: ReactNode;
+}
+
+/** Title row at the top of a portal page */
+const PageHeader = ({ accent, icon: Icon, imageUrl, title, description, actions }: PageHeaderProps) => {
+  const colors = PORTAL_ACCENTS[accent];
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <div className={`h-10 w-10 rounded-full ${colors.tile} flex items-center justify-center overflow-hidden`}>
+          {imageUrl ? (
+            <img src={avatarUrlForSize(imageUrl, "small")} alt={title} className="h-full w-full object-cover" />
+          ) : (
+            <Icon className={`h-5 w-5 ${colors.icon}`} />
+          )}
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">{title}</h2>
+          {description && <div className="text-sm text-slate-500">{description}</div>}
+        </div>
+      </div>
+      {actions && <div className="flex items-center gap-2">{actions}</div>}
+    </div>
+  );
+};
+
+export default PageHeader;
@@ -0,0 +1,88 @@
+import { Outlet } from "react-router-dom";
+import type { LucideIcon } from "lucide-react";
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { NavLink } from "@/components/NavLink";
+import NotificationBell from "@/components/notifications/NotificationBell";
+import UserAvatar from "@/components/avatar/UserAvatar";
+import { PORTAL_ACCENTS, type PortalAccent } from "@/lib/portal-accent";
+
+export interface PortalNavItem {
+  to: string;
+  label: string;
+  icon: LucideIcon;
+}
+
+interface PortalLayoutProps {
+  accent: PortalAccent;
+  icon: LucideIcon;
+  title: string;
+  subtitle?: string;
+  nav: PortalNavItem[];
+  userId: string | undefined;
+  userName?: string | null;
+  avatarUrl?: string | null;
+  signOutLabel?: string;
+  onSignOut: () => void;
+}
+
+/** Shared header for the signed-in portals; the page renders below it */
+const PortalLayout = ({
+  accent,
+  icon: Icon,
+  title,
+  subtitle,
+  nav,
+  userId,
+  userName,
+  avatarUrl,
+  signOutLabel = "Sign Out",
+  onSignOut,
+}: PortalLayoutProps) => {
+  const colors = PORTAL_ACCENTS[accent];
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="border-b bg-white shadow-sm">
+        <div className="container mx-auto flex flex-wrap items-center justify-between gap-4 px-4 py-4">
+          <div className="flex items-center gap-3">
+            <div className={`h-10 w-10 rounded-xl ${colors.tile} flex items-center justify-center`}>
+              <Icon className={`h-5 w-5 ${colors.icon}`} />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold text-slate-900">{title}</h1>
+              {subtitle && <p className="text-sm text-slate-500">{subtitle}</p>}
+            </div>
+          </div>
+
+          <nav className="order-last flex w-full gap-1 md:order-none md:w-auto">
+            {nav.map(({ to, label, icon: NavIcon }) => (
+              <NavLink
+                key={to}
+                to={to}
+                className="flex items-center rounded-md px-3 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100"
+                activeClassName={colors.active}
+              >
+                <NavIcon className="mr-2 h-4 w-4" />
+                {label}
+              </NavLink>
+            ))}
+          </nav>
+
+          <div className="flex items-center gap-2">
+            <NotificationBell userId={userId} accent={accent} />
+            <UserAvatar url={avatarUrl} name={userName} accent={accent} className="h-9 w-9 text-sm" />
+            <Button variant="ghost" onClick={onSignOut} className="text-slate-600">
+              <LogOut className="mr-2 h-4 w-4" />
+              {signOutLabel}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <Outlet />
+    </div>
+  );
+};
+
+export default PortalLayout;
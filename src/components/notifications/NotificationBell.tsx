@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNotifications } from "@/hooks/use-notifications";
+import { groupNotificationsByType } from "@/lib/notifications";
+
+type Accent = "pink" | "purple" | "blue";
+
+interface NotificationBellProps {
+  userId: string | undefined;
+  accent?: Accent;
+}
+
+// Each portal keeps its own colour
+const ACCENTS: Record<Accent, { badge: string; unread: string; text: string }> = {
+  pink: { badge: "bg-pink-600", unread: "bg-pink-50", text: "text-pink-600" },
+  purple: { badge: "bg-purple-600", unread: "bg-purple-50", text: "text-purple-600" },
+  blue: { badge: "bg-blue-600", unread: "bg-blue-50", text: "text-blue-600" },
+};
+
+const NotificationBell = ({ userId, accent = "pink" }: NotificationBellProps) => {
+  const { notifications, unreadCount, hasMore, isLoading, loadMore, markAsRead, markAllAsRead } =
+    useNotifications(userId);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const colors = ACCENTS[accent];
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    await loadMore();
+    setIsLoadingMore(false);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-slate-600" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className={`absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full ${colors.badge} text-white text-xs flex items-center justify-center`}
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="font-medium text-slate-900">Notifications</p>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={markAllAsRead} className={`h-7 px-2 ${colors.text}`}>
+              <CheckCheck className="mr-1 h-3.5 w-3.5" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className={`h-5 w-5 animate-spin ${colors.text}`} />
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="py-10 text-center text-slate-500">
+            <Bell className="mx-auto mb-2 h-8 w-8 opacity-40" />
+            <p className="text-sm">You're all caught up</p>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {groupNotificationsByType(notifications).map((group) => (
+              <div key={group.type}>
+                <p className="bg-slate-50 px-4 py-1.5 text-xs font-medium uppercase tracking-wide text-slate-500">
+                  {group.label}
+                </p>
+                {group.items.map((notification) => (
+                  <button
+                    key={notification.id}
+                    type="button"
+                    onClick={() => markAsRead(notification.id)}
+                    className={`block w-full border-b px-4 py-3 text-left transition-colors hover:bg-slate-50 ${
+                      notification.is_read ? "" : colors.unread
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm font-medium text-slate-900">{notification.title}</p>
+                      {!notification.is_read && (
+                        <span className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${colors.badge}`} />
+                      )}
+                    </div>
+                    <p className="text-sm text-slate-500 mt-0.5">{notification.message}</p>
+                    <p className="text-xs text-slate-400 mt-1">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            ))}
+            {hasMore && (
+              <div className="p-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full text-slate-600"
+                  onClick={handleLoadMore}
+                  disabled={isLoadingMore}
+                >
+                  {isLoadingMore && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,98 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import PayoutStatusBadge from "./PayoutStatusBadge";
+import { useCreatorEarnings } from "@/hooks/use-payouts";
+import { PAYOUT_METHOD_LABELS } from "@/lib/payouts";
+import { Wallet } from "lucide-react";
+
+interface CreatorEarningsCardProps {
+  creatorId: string;
+}
+
+const formatPeriodDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const CreatorEarningsCard = ({ creatorId }: CreatorEarningsCardProps) => {
+  const { data: earnings } = useCreatorEarnings(creatorId);
+  const summary = earnings?.summary;
+  const payouts = earnings?.payouts || [];
+  const commissionPercent = earnings?.commissionPercent ?? null;
+  const hasBanking = earnings?.hasBanking ?? true;
+
+  const stats = [
+    { label: "In escrow", value: summary?.inEscrow, hint: "Paid bookings not completed yet" },
+    { label: "Awaiting payout", value: summary?.awaitingPayout, hint: "Completed, not in a payout yet" },
+    { label: "Payout in progress", value: summary?.pending, hint: "Scheduled or being transferred" },
+    { label: "Paid out", value: summary?.paidOut, hint: "Transferred to you" },
+  ];
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5 text-purple-600" />
+          Earnings
+        </CardTitle>
+        <CardDescription>
+          {commissionPercent !== null
+            ? `Payouts are sent after bookings are completed, minus a ${commissionPercent}% platform fee`
+            : "Payouts are sent after bookings are completed"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!hasBanking && (
+          <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-700">
+            Add your bank account or UPI ID in your profile settings so we can send your payouts.
+          </p>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-lg bg-slate-50 p-4">
+              <p className="text-sm font-medium text-slate-600">{stat.label}</p>
+              <p className="text-2xl font-bold text-slate-900">₹{stat.value ?? 0}</p>
+              <p className="text-xs text-slate-400">{stat.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <h4 className="mb-3 text-sm font-medium text-slate-900">Payout history</h4>
+          {payouts.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500">No payouts yet</p>
+          ) : (
+            <div className="space-y-3">
+              {payouts.map((payout) => (
+                <div
+                  key={payout.id}
+                  className="flex flex-col gap-2 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div>
+                    <p className="font-medium text-slate-900">
+                      ₹{payout.net_amount}
+                      <span className="text-sm font-normal text-slate-500">
+                        {" "}· ₹{payout.gross_amount} less ₹{payout.commission_amount} fee
+                      </span>
+                    </p>
+                    <p className="text-sm text-slate-500">
+                      {payout.batch
+                        ? `Bookings ${formatPeriodDate(payout.batch.period_start)} – ${formatPeriodDate(payout.batch.period_end)}`
+                        : "Payout"}
+                      {payout.payout_method && ` · ${PAYOUT_METHOD_LABELS[payout.payout_method] || payout.payout_method}`}
+                      {payout.paid_at && ` · Paid ${new Date(payout.paid_at).toLocaleDateString()}`}
+                    </p>
+                    {payout.failure_reason && (
+                      <p className="text-sm text-red-600">{payout.failure_reason}</p>
+                    )}
+                  </div>
+                  <PayoutStatusBadge status={payout.status} className="self-start sm:self-center" />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CreatorEarningsCard;
@@ -0,0 +1,308 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useApprovePayoutBatch,
+  useCommissionPercent,
+  useCreatePayoutBatch,
+  usePayoutBatches,
+  useSetPayoutResult,
+  useUpdateCommission,
+} from "@/hooks/use-payouts";
+import PayoutStatusBadge from "./PayoutStatusBadge";
+import { PAYOUT_METHOD_LABELS } from "@/lib/payouts";
+import { Check, Loader2, Wallet, X } from "lucide-react";
+
+const PayoutBatchesPanel = () => {
+  const { toast } = useToast();
+  const { data: batches = [] } = usePayoutBatches();
+  const { data: savedCommission } = useCommissionPercent();
+  const updateCommission = useUpdateCommission();
+  const createPayoutBatch = useCreatePayoutBatch();
+  const approvePayoutBatch = useApprovePayoutBatch();
+  const setPayoutResult = useSetPayoutResult();
+  const [commission, setCommission] = useState("");
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [failingId, setFailingId] = useState<string | null>(null);
+  const [failureReason, setFailureReason] = useState("");
+
+  useEffect(() => {
+    if (savedCommission !== undefined) {
+      setCommission(String(savedCommission));
+    }
+  }, [savedCommission]);
+
+  const saveCommission = () => {
+    const value = Number(commission);
+    if (commission === "" || Number.isNaN(value) || value < 0 || value >= 100) {
+      toast({
+        variant: "destructive",
+        title: "Invalid commission",
+        description: "Enter a percentage between 0 and 99.99.",
+      });
+      return;
+    }
+
+    setBusyId("commission");
+    updateCommission.mutate(value, {
+      onSuccess: () => {
+        toast({
+          title: "Commission updated",
+          description: "New payout batches will use this rate.",
+        });
+      },
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not update the commission.",
+        });
+      },
+      onSettled: () => setBusyId(null),
+    });
+  };
+
+  const createBatch = () => {
+    setBusyId("create");
+    createPayoutBatch.mutate({ periodStart, periodEnd }, {
+      onSuccess: () => {
+        toast({
+          title: "Payout batch scheduled",
+          description: "Review it below and approve it to start the transfers.",
+        });
+        setPeriodStart("");
+        setPeriodEnd("");
+      },
+      onError: (error) => {
+        toast({
+          variant: "destructive",
+          title: "Could not create batch",
+          description: error.message,
+        });
+      },
+      onSettled: () => setBusyId(null),
+    });
+  };
+
+  const approveBatch = (batchId: string) => {
+    setBusyId(batchId);
+    approvePayoutBatch.mutate(batchId, {
+      onSuccess: () => {
+        toast({
+          title: "Batch approved",
+          description: "Mark each payout as paid once the transfer goes through.",
+        });
+      },
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not approve the batch.",
+        });
+      },
+      onSettled: () => setBusyId(null),
+    });
+  };
+
+  const settlePayout = (payoutId: string, status: "paid" | "failed") => {
+    setBusyId(payoutId);
+    setPayoutResult.mutate(
+      {
+        payoutId,
+        status,
+        failureReason: status === "failed" ? failureReason.trim() || null : null,
+      },
+      {
+        onSuccess: () => {
+          setFailingId(null);
+          setFailureReason("");
+        },
+        onError: () => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Could not update the payout.",
+          });
+        },
+        onSettled: () => setBusyId(null),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Payouts</CardTitle>
+          <CardDescription>
+            Pay creators for completed bookings, minus the platform commission
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="commission">Platform commission (%)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="commission"
+                type="number"
+                min={0}
+                max={99.99}
+                step={0.5}
+                value={commission}
+                onChange={(e) => setCommission(e.target.value)}
+                className="max-w-32"
+              />
+              <Button variant="outline" onClick={saveCommission} disabled={busyId === "commission"}>
+                Save
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>New batch for bookings between</Label>
+            <div className="flex flex-wrap gap-2">
+              <Input
+                type="date"
+                value={periodStart}
+                onChange={(e) => setPeriodStart(e.target.value)}
+                className="w-auto"
+                aria-label="Period start"
+              />
+              <Input
+                type="date"
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+                className="w-auto"
+                aria-label="Period end"
+              />
+              <Button
+                onClick={createBatch}
+                disabled={!periodStart || !periodEnd || busyId === "create"}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {busyId === "create" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create batch
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {batches.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-slate-500">
+            <Wallet className="mx-auto mb-4 h-12 w-12 opacity-40" />
+            <p className="font-medium">No payout batches yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        batches.map((batch) => {
+          const total = batch.payouts.reduce((sum, p) => sum + Number(p.net_amount), 0);
+          return (
+            <Card key={batch.id}>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    {new Date(batch.period_start).toLocaleDateString()} – {new Date(batch.period_end).toLocaleDateString()}
+                    <PayoutStatusBadge status={batch.status} />
+                  </CardTitle>
+                  <CardDescription>
+                    {batch.payouts.length} creator{batch.payouts.length === 1 ? "" : "s"} · ₹{total} to pay ·{" "}
+                    {batch.commission_percent}% commission
+                  </CardDescription>
+                </div>
+                {batch.status === "scheduled" && (
+                  <Button
+                    size="sm"
+                    onClick={() => approveBatch(batch.id)}
+                    disabled={busyId === batch.id}
+                    className="bg-blue-600 hover:bg-blue-700"
+                  >
+                    Approve
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {batch.payouts.map((payout) => (
+                  <div key={payout.id} className="rounded-lg border p-3">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                      <div>
+                        <p className="font-medium text-slate-900">{payout.creator_name || "Creator"}</p>
+                        <p className="text-sm text-slate-500">
+                          ₹{payout.net_amount} (₹{payout.gross_amount} less ₹{payout.commission_amount}) ·{" "}
+                          {payout.payout_method
+                            ? PAYOUT_METHOD_LABELS[payout.payout_method] || payout.payout_method
+                            : <span className="text-amber-600">No banking details</span>}
+                        </p>
+                        {payout.failure_reason && (
+                          <p className="text-sm text-red-600">{payout.failure_reason}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {payout.status === "processing" && failingId !== payout.id && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => settlePayout(payout.id, "paid")}
+                              disabled={busyId === payout.id}
+                              className="text-green-600 hover:text-green-700"
+                            >
+                              <Check className="mr-1 h-3.5 w-3.5" />
+                              Mark paid
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setFailingId(payout.id);
+                                setFailureReason("");
+                              }}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <X className="mr-1 h-3.5 w-3.5" />
+                              Mark failed
+                            </Button>
+                          </>
+                        )}
+                        <PayoutStatusBadge status={payout.status} />
+                      </div>
+                    </div>
+                    {failingId === payout.id && (
+                      <div className="mt-3 flex gap-2">
+                        <Input
+                          value={failureReason}
+                          onChange={(e) => setFailureReason(e.target.value)}
+                          placeholder="Reason, shown to the creator"
+                          maxLength={500}
+                        />
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => settlePayout(payout.id, "failed")}
+                          disabled={busyId === payout.id}
+                        >
+                          Confirm
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setFailingId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default PayoutBatchesPanel;
@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import { PAYOUT_STATUS_LABELS, type PayoutStatus } from "@/lib/payouts";
+
+interface PayoutStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+const CLASSES: Record<PayoutStatus, string> = {
+  scheduled: "bg-slate-100 text-slate-700",
+  processing: "bg-blue-100 text-blue-700",
+  paid: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const PayoutStatusBadge = ({ status, className }: PayoutStatusBadgeProps) => (
+  <Badge variant="secondary" className={`${CLASSES[status as PayoutStatus] || ""} ${className || ""}`}>
+    {PAYOUT_STATUS_LABELS[status as PayoutStatus] || status}
+  </Badge>
+);
+
+export default PayoutStatusBadge;
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useCreatorReviews, useReplyToReview } from "@/hooks/use-reviews";
+import StarRating from "./StarRating";
+import { Loader2, MessageSquare, Star } from "lucide-react";
+
+interface CreatorReviewsCardProps {
+  creatorId: string;
+}
+
+const CreatorReviewsCard = ({ creatorId }: CreatorReviewsCardProps) => {
+  const { toast } = useToast();
+  const { data: reviews = [] } = useCreatorReviews(creatorId);
+  const replyToReview = useReplyToReview(creatorId);
+  const [replyingId, setReplyingId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+
+  const submitReply = (reviewId: string) => {
+    if (!replyText.trim()) return;
+
+    replyToReview.mutate(
+      { reviewId, reply: replyText },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Reply posted",
+            description: "Your reply is now visible on your public profile.",
+          });
+          setReplyingId(null);
+          setReplyText("");
+        },
+        onError: () => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Could not post your reply.",
+          });
+        },
+      }
+    );
+  };
+
+  const visible = reviews.filter(r => !r.is_hidden);
+  const average = visible.length > 0
+    ? visible.reduce((sum, r) => sum + r.rating, 0) / visible.length
+    : 0;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Star className="h-5 w-5 text-purple-600" />
+          Reviews
+        </CardTitle>
+        <CardDescription>
+          {visible.length > 0
+            ? `${average.toFixed(1)} average from ${visible.length} review${visible.length === 1 ? "" : "s"}`
+            : "Reviews from influencers appear here after completed bookings"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {reviews.length === 0 ? (
+          <div className="py-10 text-center text-slate-500">
+            <Star className="mx-auto mb-4 h-12 w-12 opacity-40" />
+            <p className="font-medium">No reviews yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {reviews.map((review) => (
+              <div key={review.id} className="rounded-lg border p-4">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <StarRating value={review.rating} size="sm" />
+                    <span className="text-sm text-slate-600">
+                      {review.reviewer?.full_name || "Influencer"}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {review.is_hidden && <Badge variant="secondary">Hidden by admin</Badge>}
+                    <span className="text-xs text-slate-400">
+                      {new Date(review.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+                {review.comment && <p className="mt-2 text-sm text-slate-600">{review.comment}</p>}
+
+                {review.creator_reply ? (
+                  <div className="mt-3 rounded-md bg-purple-50 p-3 text-sm">
+                    <p className="font-medium text-purple-700">Your reply</p>
+                    <p className="text-slate-600">{review.creator_reply}</p>
+                  </div>
+                ) : replyingId === review.id ? (
+                  <div className="mt-3 space-y-2">
+                    <Textarea
+                      value={replyText}
+                      onChange={(e) => setReplyText(e.target.value)}
+                      placeholder="Write a public reply. You can only reply once."
+                      maxLength={2000}
+                      rows={3}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => submitReply(review.id)}
+                        disabled={!replyText.trim() || replyToReview.isPending}
+                        className="bg-purple-600 hover:bg-purple-700"
+                      >
+                        {replyToReview.isPending && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                        Post reply
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setReplyingId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="mt-2 text-purple-600"
+                    onClick={() => {
+                      setReplyingId(review.id);
+                      setReplyText("");
+                    }}
+                  >
+                    <MessageSquare className="mr-1 h-3.5 w-3.5" />
+                    Reply
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CreatorReviewsCard;
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useSubmitReview } from "@/hooks/use-reviews";
+import StarRating from "./StarRating";
+import { Loader2 } from "lucide-react";
+
+interface ReviewDialogProps {
+  booking: { id: string; creator_id: string | null; creatorName: string } | null;
+  userId: string | undefined;
+  onClose: () => void;
+}
+
+const RATING_LABELS = ["", "Poor", "Fair", "Good", "Very good", "Excellent"];
+
+const ReviewDialog = ({ booking, userId, onClose }: ReviewDialogProps) => {
+  const { toast } = useToast();
+  const submitReview = useSubmitReview();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const isSubmitting = submitReview.isPending;
+
+  useEffect(() => {
+    setRating(0);
+    setComment("");
+  }, [booking?.id]);
+
+  const handleSubmit = () => {
+    if (!booking?.creator_id || !userId || rating === 0) return;
+
+    submitReview.mutate(
+      {
+        booking_id: booking.id,
+        creator_id: booking.creator_id,
+        customer_id: userId,
+        rating,
+        comment: comment.trim() || null,
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Thanks for your review!",
+            description: "It will appear on the creator's profile.",
+          });
+          onClose();
+        },
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: (error as { code?: string }).code === "23505"
+              ? "You have already reviewed this booking."
+              : "Could not submit your review.",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review {booking?.creatorName}</DialogTitle>
+          <DialogDescription>How did your session go? Your review is public.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-col items-center gap-1">
+            <StarRating value={rating} onChange={setRating} size="lg" />
+            <p className="h-5 text-sm text-slate-500">{RATING_LABELS[rating]}</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Your review (optional)</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="What was it like working with this creator?"
+              maxLength={2000}
+              rows={4}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={rating === 0 || isSubmitting}
+            className="bg-pink-600 hover:bg-pink-700"
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit Review
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
@@ -0,0 +1,49 @@
+import { Star } from "lucide-react";
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: "sm" | "md" | "lg";
+  className?: string;
+}
+
+const SIZES = {
+  sm: "h-3.5 w-3.5",
+  md: "h-4 w-4",
+  lg: "h-7 w-7",
+};
+
+// Read-only when no onChange is given; fractional values round to the nearest star
+const StarRating = ({ value, onChange, size = "md", className }: StarRatingProps) => {
+  const rounded = Math.round(value);
+
+  return (
+    <div className={`flex items-center gap-0.5 ${className || ""}`} aria-label={`${value} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={`${SIZES[size]} ${
+              star <= rounded ? "fill-amber-400 text-amber-400" : "fill-transparent text-slate-300"
+            }`}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            className="rounded p-0.5 transition-transform hover:scale-110"
+            aria-label={`${star} star${star > 1 ? "s" : ""}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
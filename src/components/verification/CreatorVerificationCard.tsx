@@ -0,0 +1,126 @@
+import { useRef } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useCreatorProfile } from "@/hooks/use-creator-profile";
+import { useSubmitVerification } from "@/hooks/use-verification";
+import { MAX_ID_DOCUMENT_BYTES, canSubmitDocument } from "@/lib/verification";
+import { Ban, Clock, Loader2, ShieldAlert, ShieldCheck, Upload } from "lucide-react";
+
+interface CreatorVerificationCardProps {
+  creatorId: string;
+}
+
+const CreatorVerificationCard = ({ creatorId }: CreatorVerificationCardProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { data: verification } = useCreatorProfile(user?.id);
+  const submitVerification = useSubmitVerification(creatorId, user?.id);
+  const isUploading = submitVerification.isPending;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+    if (!file) return;
+
+    if (file.size > MAX_ID_DOCUMENT_BYTES) {
+      toast({
+        variant: "destructive",
+        title: "File too large",
+        description: "ID documents can be up to 10 MB.",
+      });
+      return;
+    }
+
+    submitVerification.mutate(file, {
+      onSuccess: () => {
+        toast({
+          title: "Document submitted",
+          description: "We'll let you know once your profile has been reviewed.",
+        });
+      },
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not upload your document.",
+        });
+      },
+    });
+  };
+
+  if (!verification) return null;
+
+  const status = verification.verification_status;
+  const content = {
+    pending_review: verification.id_document_path
+      ? {
+          icon: Clock,
+          title: "Your profile is under review",
+          message: `We received your ID document${
+            verification.verification_submitted_at
+              ? ` on ${new Date(verification.verification_submitted_at).toLocaleDateString()}`
+              : ""
+          }. You'll appear in discovery once it's approved.`,
+        }
+      : {
+          icon: ShieldCheck,
+          title: "Verify your identity to go live",
+          message: "Upload a government ID (Aadhaar, PAN, passport or driving licence). Only our review team can see it.",
+        },
+    rejected: {
+      icon: ShieldAlert,
+      title: "We couldn't verify your ID",
+      message: `${verification.verification_reason || "Your document was rejected."} Please upload a new document.`,
+    },
+    suspended: {
+      icon: Ban,
+      title: "Your profile is suspended",
+      message: `${verification.verification_reason || "Your profile is hidden from discovery."} Contact support if you think this is a mistake.`,
+    },
+  }[status];
+
+  if (!content) return null;
+  const Icon = content.icon;
+
+  return (
+    <Card className="mb-8 border-amber-200 bg-amber-50">
+      <CardContent className="py-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+          <div className="h-12 w-12 shrink-0 rounded-full bg-amber-100 flex items-center justify-center">
+            <Icon className="h-6 w-6 text-amber-700" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-amber-900">{content.title}</h2>
+            <p className="text-sm text-amber-800">{content.message}</p>
+          </div>
+          {canSubmitDocument(status) && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                className="hidden"
+                accept="image/*,application/pdf"
+                onChange={handleFileSelect}
+              />
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isUploading}
+                className="bg-purple-600 hover:bg-purple-700 sm:ml-auto"
+              >
+                {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                {verification.id_document_path ? "Upload new document" : "Upload ID document"}
+              </Button>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CreatorVerificationCard;
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminCreators } from "@/hooks/use-admin-creators";
+import { useReviewCreatorVerification, useVerificationDocumentUrl } from "@/hooks/use-verification";
+import VerificationStatusBadge from "./VerificationStatusBadge";
+import {
+  REVIEW_ACTIONS,
+  VERIFICATION_BUCKET,
+  VERIFICATION_STATUS_LABELS,
+  requiresReason,
+  type VerificationStatus,
+} from "@/lib/verification";
+import { FileText, Loader2, ShieldCheck } from "lucide-react";
+
+const ACTION_LABELS: Record<VerificationStatus, string> = {
+  pending_review: "Reopen",
+  approved: "Approve",
+  rejected: "Reject",
+  suspended: "Suspend",
+};
+
+const VerificationQueue = () => {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<VerificationStatus>("pending_review");
+  // Creators still onboarding have nothing to review yet
+  const { creators: visible, hasMore, isLoading, isLoadingMore, loadMore } = useAdminCreators({
+    verificationStatus: filter,
+    onboardingCompleted: true,
+    sort: "submitted",
+  });
+  const reviewVerification = useReviewCreatorVerification();
+  const documentUrl = useVerificationDocumentUrl();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ creatorId: string; status: VerificationStatus } | null>(null);
+  const [reason, setReason] = useState("");
+
+  const openDocument = (path: string) => {
+    documentUrl.mutate(path, {
+      onSuccess: (url) => window.open(url, "_blank", "noopener,noreferrer"),
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not open the document.",
+        });
+      },
+    });
+  };
+
+  const review = (creatorId: string, status: VerificationStatus) => {
+    if (requiresReason(status) && pendingAction?.creatorId !== creatorId) {
+      setPendingAction({ creatorId, status });
+      setReason("");
+      return;
+    }
+
+    setBusyId(creatorId);
+    reviewVerification.mutate(
+      {
+        creatorId,
+        status,
+        reason: requiresReason(status) ? reason.trim() : null,
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: `Creator ${VERIFICATION_STATUS_LABELS[status].toLowerCase()}`,
+            description: "The creator has been notified.",
+          });
+          setPendingAction(null);
+          setReason("");
+        },
+        onError: () => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Could not update the creator's verification.",
+          });
+        },
+        onSettled: () => setBusyId(null),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Creator Verification</CardTitle>
+          <CardDescription>
+            Check ID documents before creators appear in discovery
+          </CardDescription>
+        </div>
+        <Select value={filter} onValueChange={(value) => setFilter(value as VerificationStatus)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(VERIFICATION_STATUS_LABELS) as VerificationStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {VERIFICATION_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading && visible.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="py-12 text-center text-slate-500">
+            <ShieldCheck className="mx-auto mb-4 h-12 w-12 opacity-40" />
+            <p className="font-medium">No creators to show</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {visible.map((creator) => (
+              <div key={creator.id} className="rounded-lg border p-4">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-slate-900">
+                        {creator.profile?.full_name || creator.profile?.email || "Creator"}
+                      </p>
+                      <VerificationStatusBadge status={creator.verification_status} />
+                    </div>
+                    <p className="text-sm text-slate-500">
+                      {creator.verification_submitted_at
+                        ? `Submitted ${new Date(creator.verification_submitted_at).toLocaleDateString()}`
+                        : "No document uploaded yet"}
+                    </p>
+                    {creator.verification_reason && (
+                      <p className="text-sm text-slate-600">Reason: {creator.verification_reason}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {creator.id_document_path && (
+                      <Button variant="outline" size="sm" onClick={() => openDocument(creator.id_document_path!)}>
+                        <FileText className="mr-1 h-3.5 w-3.5" />
+                        View ID
+                      </Button>
+                    )}
+                    {REVIEW_ACTIONS[creator.verification_status as VerificationStatus]?.map((status) => (
+                      <Button
+                        key={status}
+                        size="sm"
+                        variant={requiresReason(status) ? "outline" : "default"}
+                        onClick={() => review(creator.id, status)}
+                        disabled={
+                          busyId === creator.id ||
+                          (status === "approved" && creator.verification_status === "pending_review" && !creator.id_document_path)
+                        }
+                        className={requiresReason(status) ? "text-red-600 hover:text-red-700" : "bg-blue-600 hover:bg-blue-700"}
+                      >
+                        {ACTION_LABELS[status]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {pendingAction?.creatorId === creator.id && (
+                  <div className="mt-3 flex gap-2">
+                    <Input
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Reason, shown to the creator"
+                      maxLength={500}
+                    />
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => review(creator.id, pendingAction.status)}
+                      disabled={!reason.trim() || busyId === creator.id}
+                    >
+                      {ACTION_LABELS[pendingAction.status]}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setPendingAction(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+            {hasMore && (
+              <div className="flex justify-center">
+                <Button variant="outline" size="sm" onClick={loadMore} disabled={isLoadingMore}>
+                  {isLoadingMore && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VerificationQueue;
@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import { VERIFICATION_STATUS_LABELS, type VerificationStatus } from "@/lib/verification";
+
+interface VerificationStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+const CLASSES: Record<VerificationStatus, string> = {
+  pending_review: "bg-amber-100 text-amber-700",
+  approved: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+  suspended: "bg-slate-200 text-slate-700",
+};
+
+const VerificationStatusBadge = ({ status, className }: VerificationStatusBadgeProps) => (
+  <Badge variant="secondary" className={`${CLASSES[status as VerificationStatus] || ""} ${className || ""}`}>
+    {VERIFICATION_STATUS_LABELS[status as VerificationStatus] || status}
+  </Badge>
+);
+
+export default VerificationStatusBadge;
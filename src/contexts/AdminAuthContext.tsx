@@ -1,14 +1,15 @@
 import { createContext, useContext, useState, ReactNode, useEffect } from "react";
-
-// SECURITY WARNING: Hardcoded credentials are NOT secure for production!
-// This is only for demo purposes. Replace with database authentication.
-const ADMIN_EMAIL = "admin@example.com";
-const ADMIN_PASSWORD = "admin123";
+import { User, Session } from "@supabase/supabase-js";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
 
 interface AdminAuthContextType {
+  user: User | null;
+  session: Session | null;
   isAdminLoggedIn: boolean;
-  adminLogin: (email: string, password: string) => { success: boolean; error?: string };
-  adminLogout: () => void;
+  isLoading: boolean;
+  adminLogin: (email: string, password: string) => Promise<{ error: Error | null }>;
+  adminLogout: () => Promise<void>;
 }
 
 const AdminAuthContext = createContext<AdminAuthContextType | undefined>(undefined);
@@ -25,35 +26,95 @@ interface AdminAuthProviderProps {
   children: ReactNode;
 }
 
+// Admin access is granted by an 'admin' row in user_roles, checked server-side via has_role
+const checkAdminRole = async (userId: string) => {
+  const { data, error } = await supabase.rpc("has_role", {
+    _user_id: userId,
+    _role: "admin",
+  });
+
+  if (error) {
+    console.error("Error checking admin role:", error);
+    return false;
+  }
+
+  return data === true;
+};
+
 export const AdminAuthProvider = ({ children }: AdminAuthProviderProps) => {
-  const [isAdminLoggedIn, setIsAdminLoggedIn] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const queryClient = useQueryClient();
 
-  // Check session storage on mount (persists during browser session only)
   useEffect(() => {
-    const adminSession = sessionStorage.getItem("adminSession");
-    if (adminSession === "true") {
-      setIsAdminLoggedIn(true);
-    }
+    const applySession = (session: Session | null) => {
+      setSession(session);
+      setUser(session?.user ?? null);
+
+      if (session?.user) {
+        checkAdminRole(session.user.id).then((result) => {
+          setIsAdmin(result);
+          setIsLoading(false);
+        });
+      } else {
+        setIsAdmin(false);
+        setIsLoading(false);
+      }
+    };
+
+    // Set up auth state listener FIRST
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      (event, session) => {
+        // Defer role check to avoid deadlock inside the auth callback
+        setTimeout(() => applySession(session), 0);
+      }
+    );
+
+    // THEN check for existing session
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      applySession(session);
+    });
+
+    return () => subscription.unsubscribe();
   }, []);
 
-  const adminLogin = (email: string, password: string) => {
-    if (email === ADMIN_EMAIL && password === ADMIN_PASSWORD) {
-      setIsAdminLoggedIn(true);
-      sessionStorage.setItem("adminSession", "true");
-      return { success: true };
+  const adminLogin = async (email: string, password: string) => {
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email,
+      password,
+    });
+
+    if (error) {
+      return { error };
     }
-    return { success: false, error: "Invalid credentials" };
+
+    const hasAdminRole = await checkAdminRole(data.user.id);
+    if (!hasAdminRole) {
+      await supabase.auth.signOut();
+      return { error: new Error("This account does not have admin access.") };
+    }
+
+    setSession(data.session);
+    setUser(data.user);
+    setIsAdmin(true);
+    return { error: null };
   };
 
-  const adminLogout = () => {
-    setIsAdminLoggedIn(false);
-    sessionStorage.removeItem("adminSession");
+  const adminLogout = async () => {
+    await supabase.auth.signOut();
+    queryClient.clear();
+    setIsAdmin(false);
   };
 
   return (
     <AdminAuthContext.Provider
       value={{
-        isAdminLoggedIn,
+        user,
+        session,
+        isAdminLoggedIn: !!user && isAdmin,
+        isLoading,
         adminLogin,
         adminLogout,
       }}
@@ -1,16 +1,21 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { AppRole, SignupRole } from "@/lib/auth-routes";
 
-type AppRole = "customer" | "team" | "admin";
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   userRole: AppRole | null;
+  /** Set when the role could not be loaded, as opposed to the user having none */
+  roleError: Error | null;
   isLoading: boolean;
-  signUp: (email: string, password: string, role: AppRole, fullName?: string) => Promise<{ error: Error | null }>;
+  signUp: (email: string, password: string, role: SignupRole, fullName?: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
+  claimRole: (role: SignupRole) => Promise<{ error: Error | null }>;
+  updatePassword: (password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
 }
 
@@ -32,91 +37,93 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [userRole, setUserRole] = useState<AppRole | null>(null);
+  const [roleError, setRoleError] = useState<Error | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const queryClient = useQueryClient();
 
   const fetchUserRole = async (userId: string) => {
     const { data, error } = await supabase
       .from("user_roles")
       .select("role")
       .eq("user_id", userId)
-      .single();
+      .maybeSingle();
 
-    if (error) {
-      console.error("Error fetching user role:", error);
-      return null;
-    }
-
-    return data?.role as AppRole | null;
+    if (error) throw error;
+    return (data?.role ?? null) as AppRole | null;
   };
 
   useEffect(() => {
+    // The user whose role is loaded (or loading); undefined until the session is known
+    let roleUserId: string | null | undefined;
+
+    // isLoading stays true until the role is known, so guards never see a user without one
+    const applySession = (session: Session | null) => {
+      setSession(session);
+      setUser(session?.user ?? null);
+
+      const userId = session?.user?.id ?? null;
+      // Token refreshes report the same user again, there is no need to refetch the role
+      if (userId === roleUserId) return;
+      roleUserId = userId;
+
+      if (userId) {
+        setIsLoading(true);
+        fetchUserRole(userId).then(
+          (role) => {
+            // A different user may have signed in while the role was loading
+            if (roleUserId !== userId) return;
+            setUserRole(role);
+            setRoleError(null);
+            setIsLoading(false);
+          },
+          (error) => {
+            if (roleUserId !== userId) return;
+            console.error("Error fetching user role:", error);
+            setUserRole(null);
+            setRoleError(error);
+            setIsLoading(false);
+          },
+        );
+      } else {
+        setUserRole(null);
+        setRoleError(null);
+        setIsLoading(false);
+      }
+    };
+
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
-        setSession(session);
-        setUser(session?.user ?? null);
-        
-        // Defer role fetching to avoid deadlock
-        if (session?.user) {
-          setTimeout(() => {
-            fetchUserRole(session.user.id).then(setUserRole);
-          }, 0);
-        } else {
-          setUserRole(null);
-        }
-        
-        setIsLoading(false);
+        // Defer role fetching to avoid deadlock inside the auth callback
+        setTimeout(() => applySession(session), 0);
       }
     );
 
     // THEN check for existing session
     supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      
-      if (session?.user) {
-        fetchUserRole(session.user.id).then(setUserRole);
-      }
-      
-      setIsLoading(false);
+      applySession(session);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  const signUp = async (email: string, password: string, role: AppRole, fullName?: string) => {
+  const signUp = async (email: string, password: string, role: SignupRole, fullName?: string) => {
     const redirectUrl = `${window.location.origin}/`;
     
-    const { data, error } = await supabase.auth.signUp({
+    // handle_new_user assigns the role from this metadata when the user is created
+    const { error } = await supabase.auth.signUp({
       email,
       password,
       options: {
         emailRedirectTo: redirectUrl,
         data: {
           full_name: fullName,
+          role,
         },
       },
     });
 
-    if (error) {
-      return { error };
-    }
-
-    // Insert role for the new user
-    if (data.user) {
-      const { error: roleError } = await supabase
-        .from("user_roles")
-        .insert({ user_id: data.user.id, role });
-
-      if (roleError) {
-        console.error("Error inserting user role:", roleError);
-        return { error: roleError };
-      }
-      
-      setUserRole(role);
-    }
-
-    return { error: null };
+    return { error };
   };
 
   const signIn = async (email: string, password: string) => {
@@ -128,8 +135,29 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     return { error };
   };
 
+  // For accounts created before roles were assigned at signup
+  const claimRole = async (role: SignupRole) => {
+    const { data, error } = await supabase.rpc("claim_signup_role", { _role: role });
+
+    if (error) {
+      console.error("Error claiming role:", error);
+      return { error };
+    }
+
+    setUserRole(data);
+    return { error: null };
+  };
+
+  // Used from a password reset link, which signs the user in with a recovery session
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+    return { error };
+  };
+
   const signOut = async () => {
     await supabase.auth.signOut();
+    // Cached queries belong to the signed-out user
+    queryClient.clear();
     setUserRole(null);
   };
 
@@ -139,9 +167,12 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         user,
         session,
         userRole,
+        roleError,
         isLoading,
         signUp,
         signIn,
+        claimRole,
+        updatePassword,
         signOut,
       }}
     >
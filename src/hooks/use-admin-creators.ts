@@ -0,0 +1,59 @@
+import { useCallback } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { queryKeys } from "@/lib/query-keys";
+import { getTotalCount, toAdminCreator, type AdminCreatorFilters } from "@/lib/admin-creators";
+
+const PAGE_SIZE = 20;
+
+export function useAdminCreators({
+  search = "",
+  verificationStatus = null,
+  onboardingCompleted = null,
+  sort = "newest",
+}: AdminCreatorFilters) {
+  const debouncedSearch = useDebouncedValue(search.trim());
+  const filters = { search: debouncedSearch, verificationStatus, onboardingCompleted, sort };
+
+  const query = useInfiniteQuery({
+    queryKey: queryKeys.adminCreators(filters),
+    initialPageParam: 0,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc("admin_creator_summaries", {
+        _search: debouncedSearch || null,
+        _verification_status: verificationStatus,
+        _onboarding_completed: onboardingCompleted,
+        _sort: sort,
+        _limit: PAGE_SIZE,
+        _offset: pageParam,
+      });
+
+      if (error) throw error;
+      return { creators: data.map(toAdminCreator), totalCount: getTotalCount(data), offset: pageParam };
+    },
+    getNextPageParam: (lastPage) => {
+      const next = lastPage.offset + lastPage.creators.length;
+      return lastPage.creators.length > 0 && next < lastPage.totalCount ? next : undefined;
+    },
+    // Keep showing the current list while a new filter loads
+    placeholderData: (previous) => previous,
+  });
+
+  const pages = query.data?.pages || [];
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = query;
+
+  // fetchNextPage cancels a page already in flight, so ignore repeat calls from the scroll sentinel
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return {
+    creators: pages.flatMap(page => page.creators),
+    totalCount: pages[0]?.totalCount ?? 0,
+    hasMore: !!hasNextPage,
+    isLoading: query.isLoading,
+    isLoadingMore: isFetchingNextPage,
+    loadMore,
+  };
+}
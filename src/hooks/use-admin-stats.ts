@@ -0,0 +1,51 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+
+export interface AdminStats {
+  totalBookings: number;
+  pendingBookings: number;
+  completedBookings: number;
+  totalInfluencers: number;
+  totalCreators: number;
+  pendingVerifications: number;
+}
+
+export function useAdminStats() {
+  return useQuery({
+    queryKey: queryKeys.adminStats(),
+    queryFn: async (): Promise<AdminStats> => {
+      const [bookingsRes, influencersRes, creatorsRes, pendingRes] = await Promise.all([
+        supabase
+          .from("bookings")
+          .select("status"),
+        supabase
+          .from("user_roles")
+          .select("id", { count: "exact", head: true })
+          .eq("role", "customer"),
+        supabase
+          .from("user_roles")
+          .select("id", { count: "exact", head: true })
+          .eq("role", "team"),
+        supabase
+          .from("creator_profiles")
+          .select("id", { count: "exact", head: true })
+          .eq("onboarding_completed", true)
+          .eq("verification_status", "pending_review")
+          .not("id_document_path", "is", null),
+      ]);
+
+      if (bookingsRes.error) throw bookingsRes.error;
+      const bookings = bookingsRes.data;
+
+      return {
+        totalBookings: bookings.length,
+        pendingBookings: bookings.filter(b => b.status === "pending").length,
+        completedBookings: bookings.filter(b => b.status === "completed").length,
+        totalInfluencers: influencersRes.count || 0,
+        totalCreators: creatorsRes.count || 0,
+        pendingVerifications: pendingRes.count || 0,
+      };
+    },
+  });
+}
@@ -0,0 +1,146 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { clearDraft, readDraft, writeDraft } from "@/lib/drafts";
+
+export type AutosaveStatus = "idle" | "pending" | "saving" | "saved" | "error";
+
+/** Saves anything still pending; resolves to what is stopping the form from being left, if anything */
+export type AutosaveFlush = (options: { validate: boolean }) => Promise<string | null>;
+
+interface AutosaveOptions<T> {
+  value: T;
+  save: (value: T) => Promise<unknown>;
+  /** Where unsaved edits are kept in localStorage; null keeps no draft */
+  draftKey: string | null;
+  /** False until the form has been seeded, so loaded data is not saved straight back */
+  enabled?: boolean;
+  /** What still needs fixing before the form can be left, checked on flush only */
+  validate?: (value: T) => string | null;
+  delayMs?: number;
+}
+
+const OFFLINE_MESSAGE = "You're offline. Your changes are kept on this device and will save when you reconnect.";
+const FAILED_MESSAGE = "Could not save your changes.";
+
+// Forms that autosave register their flush here, so a wizard can save every step
+// before it navigates
+const AutosaveContext = createContext<Set<AutosaveFlush> | null>(null);
+
+export const AutosaveScope = AutosaveContext.Provider;
+
+export function useAutosaveScope() {
+  const flushes = useRef(new Set<AutosaveFlush>()).current;
+
+  const flushAll = useCallback(async (options: { validate: boolean }) => {
+    const problems = await Promise.all([...flushes].map(flush => flush(options)));
+    return problems.find(Boolean) ?? null;
+  }, [flushes]);
+
+  return { flushes, flushAll };
+}
+
+// Debounced saving for a form whose whole state is `value`. Saves never overlap: an edit
+// made while saving is picked up by the next save. Until a save succeeds the edits are
+// kept as a draft, and a failed save is retried when the browser comes back online.
+export function useAutosave<T>({
+  value,
+  save,
+  draftKey,
+  enabled = true,
+  validate,
+  delayMs = 800,
+}: AutosaveOptions<T>) {
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const scope = useContext(AutosaveContext);
+
+  const latest = useRef(value);
+  latest.current = value;
+  const saveRef = useRef(save);
+  saveRef.current = save;
+  const validateRef = useRef(validate);
+  validateRef.current = validate;
+
+  const isDirty = useRef(false);
+  const isSeeded = useRef(false);
+  const inFlight = useRef<Promise<boolean> | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  const run = useCallback(async (): Promise<boolean> => {
+    clearTimeout(timer.current);
+    while (inFlight.current) await inFlight.current;
+    if (!isDirty.current) return true;
+
+    const snapshot = latest.current;
+    isDirty.current = false;
+    setStatus("saving");
+
+    const attempt = saveRef.current(snapshot).then(
+      () => {
+        // Only the newest edits may clear the draft
+        if (!isDirty.current) {
+          if (draftKey) clearDraft(localStorage, draftKey);
+          setStatus("saved");
+          setError(null);
+        }
+        return true;
+      },
+      () => {
+        isDirty.current = true;
+        setStatus("error");
+        setError(navigator.onLine ? FAILED_MESSAGE : OFFLINE_MESSAGE);
+        return false;
+      },
+    );
+
+    inFlight.current = attempt;
+    const saved = await attempt;
+    inFlight.current = null;
+    return saved;
+  }, [draftKey]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // The first value is what the form was seeded with. It only needs saving when it
+    // came from a draft left by an earlier visit.
+    if (!isSeeded.current) {
+      isSeeded.current = true;
+      if (!draftKey || readDraft(localStorage, draftKey) === null) return;
+    }
+
+    isDirty.current = true;
+    if (draftKey) writeDraft(localStorage, draftKey, value);
+    setStatus("pending");
+    clearTimeout(timer.current);
+    timer.current = setTimeout(run, delayMs);
+  }, [value, enabled, draftKey, delayMs, run]);
+
+  useEffect(() => {
+    const retry = () => {
+      if (isDirty.current) run();
+    };
+    window.addEventListener("online", retry);
+    return () => window.removeEventListener("online", retry);
+  }, [run]);
+
+  // Leaving the form saves what is pending rather than dropping it
+  useEffect(() => () => {
+    if (isDirty.current) run();
+  }, [run]);
+
+  const flush = useCallback<AutosaveFlush>(async ({ validate: shouldValidate }) => {
+    if (!enabled) return null;
+    if (!(await run())) return navigator.onLine ? FAILED_MESSAGE : OFFLINE_MESSAGE;
+    return shouldValidate ? validateRef.current?.(latest.current) ?? null : null;
+  }, [enabled, run]);
+
+  useEffect(() => {
+    if (!scope) return;
+    scope.add(flush);
+    return () => {
+      scope.delete(flush);
+    };
+  }, [scope, flush]);
+
+  return { status, error, flush };
+}
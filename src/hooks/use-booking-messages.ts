@@ -0,0 +1,114 @@
+import { useEffect, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import {
+  ATTACHMENTS_BUCKET,
+  buildAttachmentPath,
+  upsertMessage,
+  type BookingMessage,
+} from "@/lib/messages";
+
+const markRead = async (bookingId: string) => {
+  await supabase.rpc("mark_booking_messages_read", { _booking_id: bookingId });
+};
+
+export function useBookingMessages(bookingId: string | null, userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const messagesKey = useMemo(() => queryKeys.bookingMessages(bookingId), [bookingId]);
+
+  const thread = useQuery({
+    queryKey: messagesKey,
+    enabled: !!bookingId,
+    queryFn: async (): Promise<BookingMessage[]> => {
+      const { data, error } = await supabase
+        .from("messages")
+        .select("*")
+        .eq("booking_id", bookingId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      // Loading the thread means it is open, so everything in it has been read
+      markRead(bookingId);
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!bookingId) return;
+
+    const channel = supabase
+      .channel(`messages:${bookingId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "messages", filter: `booking_id=eq.${bookingId}` },
+        (payload) => {
+          if (payload.eventType === "DELETE") return;
+          const message = payload.new as BookingMessage;
+          queryClient.setQueryData<BookingMessage[]>(messagesKey, messages => upsertMessage(messages ?? [], message));
+          // The thread is open, so anything arriving from the other side is read straight away
+          if (payload.eventType === "INSERT" && message.sender_id !== userId) {
+            markRead(bookingId);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [bookingId, userId, queryClient, messagesKey]);
+
+  const sendMessage = useMutation({
+    mutationFn: async ({ body, file }: { body: string; file?: File | null }) => {
+      if (!bookingId || !userId) throw new Error("Not signed in");
+
+      let attachment: Pick<BookingMessage, "attachment_path" | "attachment_name" | "attachment_type"> = {
+        attachment_path: null,
+        attachment_name: null,
+        attachment_type: null,
+      };
+
+      if (file) {
+        const path = buildAttachmentPath(bookingId, file.name);
+        const { error: uploadError } = await supabase.storage.from(ATTACHMENTS_BUCKET).upload(path, file);
+        if (uploadError) throw uploadError;
+        attachment = { attachment_path: path, attachment_name: file.name, attachment_type: file.type || null };
+      }
+
+      const { data, error } = await supabase
+        .from("messages")
+        .insert({ booking_id: bookingId, sender_id: userId, body: body.trim() || null, ...attachment })
+        .select()
+        .single();
+
+      if (error) {
+        if (attachment.attachment_path) {
+          await supabase.storage.from(ATTACHMENTS_BUCKET).remove([attachment.attachment_path]);
+        }
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData<BookingMessage[]>(messagesKey, messages => upsertMessage(messages ?? [], message));
+    },
+  });
+
+  // Attachments are private, so links are short-lived signed URLs
+  const attachmentUrl = useMutation({
+    mutationFn: async (path: string) => {
+      const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).createSignedUrl(path, 60 * 5);
+      if (error) throw error;
+      return data.signedUrl;
+    },
+  });
+
+  return {
+    messages: thread.data || [],
+    isLoading: thread.isLoading,
+    isError: thread.isError,
+    sendMessage,
+    attachmentUrl,
+  };
+}
@@ -0,0 +1,254 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import { withBookingStatus, type BookingStatus } from "@/lib/booking-status";
+
+export interface InfluencerBooking {
+  id: string;
+  creator_id: string | null;
+  booking_date: string;
+  booking_time: string;
+  status: string;
+  notes: string | null;
+  proposed_date: string | null;
+  proposed_time: string | null;
+  services: {
+    name: string;
+    duration_minutes: number;
+    price: number;
+  } | null;
+  creator: {
+    id: string | null;
+    full_name: string | null;
+  } | null;
+  package: {
+    package_name: string;
+    hours_range: string;
+    price: number;
+  } | null;
+  review: {
+    id: string;
+    rating: number;
+  } | null;
+  payment: {
+    status: string;
+    amount: number;
+  } | null;
+}
+
+export interface CreatorBooking {
+  id: string;
+  customer_id: string;
+  booking_date: string;
+  booking_time: string;
+  status: string;
+  notes: string | null;
+  proposed_date: string | null;
+  proposed_time: string | null;
+  package: {
+    package_name: string;
+    hours_range: string;
+    price: number;
+  } | null;
+  payment: {
+    status: string;
+    amount: number;
+  } | null;
+  customer?: {
+    full_name: string | null;
+    email: string | null;
+  };
+}
+
+export function useInfluencerBookings(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.influencerBookings(userId),
+    enabled: !!userId,
+    queryFn: async (): Promise<InfluencerBooking[]> => {
+      const { data, error } = await supabase
+        .from("bookings")
+        .select(`
+          id,
+          creator_id,
+          booking_date,
+          booking_time,
+          status,
+          notes,
+          proposed_date,
+          proposed_time,
+          services (
+            name,
+            duration_minutes,
+            price
+          ),
+          creator:public_creator_profiles (
+            id,
+            full_name
+          ),
+          package:creator_pricing (
+            package_name,
+            hours_range,
+            price
+          ),
+          review:reviews (
+            id,
+            rating
+          ),
+          payment:payments (
+            status,
+            amount
+          )
+        `)
+        .eq("customer_id", userId)
+        .order("booking_date", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useCreatorBookings(creatorId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.creatorBookings(creatorId),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<CreatorBooking[]> => {
+      const { data, error } = await supabase
+        .from("bookings")
+        .select(`
+          id,
+          customer_id,
+          booking_date,
+          booking_time,
+          status,
+          notes,
+          proposed_date,
+          proposed_time,
+          package:creator_pricing (
+            package_name,
+            hours_range,
+            price
+          ),
+          payment:payments (
+            status,
+            amount
+          )
+        `)
+        .eq("creator_id", creatorId)
+        .order("booking_date", { ascending: true })
+        .order("booking_time", { ascending: true });
+
+      if (error) throw error;
+
+      // Attach influencer names
+      const customerIds = [...new Set(data.map(b => b.customer_id))];
+      const { data: profilesData } = customerIds.length > 0
+        ? await supabase
+            .from("profiles")
+            .select("user_id, full_name, email")
+            .in("user_id", customerIds)
+        : { data: [] };
+
+      return data.map(booking => ({
+        ...booking,
+        customer: profilesData?.find(p => p.user_id === booking.customer_id),
+      }));
+    },
+  });
+}
+
+export interface NewBooking {
+  creatorId: string;
+  packageId: string;
+  bookingDate: string;
+  bookingTime: string;
+  notes: string | null;
+}
+
+// The create-booking function holds the package price on the influencer's card and
+// creates the booking with its payment, or voids the hold if that fails
+export function useCreateBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (booking: NewBooking): Promise<{ bookingId: string; amount: number }> => {
+      const { data, error } = await supabase.functions.invoke("create-booking", { body: booking });
+      if (error) {
+        // The function explains what went wrong in the response body
+        const details = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+        throw new Error(details?.error || error.message);
+      }
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookings() }),
+  });
+}
+
+// Payments follow the booking (captured on confirmation, released on completion, refunded
+// or voided on cancellation), so a creator's earnings are refreshed with their bookings
+const invalidateBookings = (queryClient: ReturnType<typeof useQueryClient>, creatorId?: string) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.bookings() }),
+    creatorId && queryClient.invalidateQueries({ queryKey: queryKeys.creatorEarnings(creatorId) }),
+  ]);
+
+// Pass the creator's id when the creator is the one making the change
+export function useTransitionBooking(creatorId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // The server re-checks the transition against the current status, so a concurrent change is rejected
+    mutationFn: async ({ bookingId, status }: { bookingId: string; status: BookingStatus }) => {
+      const { error } = await supabase.rpc("transition_booking", {
+        _booking_id: bookingId,
+        _status: status,
+      });
+      if (error) throw error;
+    },
+    onMutate: async ({ bookingId, status }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.bookings() });
+      const previous = queryClient.getQueriesData<{ id: string; status: string }[]>({ queryKey: queryKeys.bookings() });
+      queryClient.setQueriesData<{ id: string; status: string }[]>(
+        { queryKey: queryKeys.bookings() },
+        old => withBookingStatus(old, bookingId, status),
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      context?.previous.forEach(([key, data]) => queryClient.setQueryData(key, data));
+    },
+    onSettled: () => invalidateBookings(queryClient, creatorId),
+  });
+}
+
+export function useProposeBookingTime() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookingId, date, time }: { bookingId: string; date: string; time: string }) => {
+      const { error } = await supabase.rpc("propose_booking_time", {
+        _booking_id: bookingId,
+        _date: date,
+        _time: time,
+      });
+      if (error) throw error;
+    },
+    onSettled: () => invalidateBookings(queryClient),
+  });
+}
+
+export function useRespondToProposal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bookingId, accept }: { bookingId: string; accept: boolean }) => {
+      const { error } = await supabase.rpc("respond_to_booking_proposal", {
+        _booking_id: bookingId,
+        _accept: accept,
+      });
+      if (error) throw error;
+    },
+    onSettled: () => invalidateBookings(queryClient),
+  });
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+
+export interface CreatorAvailabilityDay {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  is_available: boolean | null;
+}
+
+export function useCreatorAvailability(creatorId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.creatorAvailability(creatorId || ""),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<CreatorAvailabilityDay[]> => {
+      const { data, error } = await supabase
+        .from("creator_availability")
+        .select("day_of_week, start_time, end_time, is_available")
+        .eq("creator_id", creatorId);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Saves the edited days in one request
+export function useSaveAvailability(creatorId: string) {
+  const queryClient = useQueryClient();
+  const key = queryKeys.creatorAvailability(creatorId);
+
+  return useMutation({
+    mutationFn: async (days: CreatorAvailabilityDay[]) => {
+      const { error } = await supabase
+        .from("creator_availability")
+        .upsert(days.map(day => ({ creator_id: creatorId, ...day })), { onConflict: "creator_id,day_of_week" });
+
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: key }),
+  });
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import { toSaveBankingArgs, type BankingForm } from "@/lib/banking";
+
+export interface MaskedBanking {
+  account_holder_name: string | null;
+  bank_name: string | null;
+  ifsc_code: string | null;
+  account_number_last4: string | null;
+  upi_id_masked: string | null;
+}
+
+// Account numbers and UPI IDs only come back masked
+export function useCreatorBanking(creatorId: string) {
+  return useQuery({
+    queryKey: queryKeys.creatorBanking(creatorId),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<MaskedBanking | null> => {
+      const { data, error } = await supabase
+        .from("creator_banking")
+        .select("account_holder_name, bank_name, ifsc_code, account_number_last4, upi_id_masked")
+        .eq("creator_id", creatorId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useSaveCreatorBanking(creatorId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (form: BankingForm) => {
+      const { error } = await supabase.rpc("save_creator_banking", toSaveBankingArgs(creatorId, form));
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.creatorBanking(creatorId) });
+      // The earnings card warns when no payout method is on file
+      queryClient.invalidateQueries({ queryKey: queryKeys.creatorEarnings(creatorId) });
+    },
+  });
+}
+
+// Every reveal is written to the banking access log together with the reason
+export function useRevealCreatorBanking(creatorId: string) {
+  return useMutation({
+    mutationFn: async (reason: string) => {
+      const { data, error } = await supabase.rpc("reveal_creator_banking", {
+        _creator_id: creatorId,
+        _reason: reason,
+      });
+      if (error) throw error;
+      return data?.[0] ?? { account_number: null, upi_id: null };
+    },
+  });
+}
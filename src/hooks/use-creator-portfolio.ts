@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+
+const PORTFOLIO_BUCKET = "creator-portfolio";
+
+export interface CreatorPortfolioItem {
+  id: string;
+  file_url: string;
+  file_type: string;
+  title: string | null;
+  description: string | null;
+}
+
+export function useCreatorPortfolio(creatorId: string) {
+  return useQuery({
+    queryKey: queryKeys.creatorPortfolio(creatorId),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<CreatorPortfolioItem[]> => {
+      const { data, error } = await supabase
+        .from("creator_portfolio")
+        .select("id, file_url, file_type, title, description")
+        .eq("creator_id", creatorId)
+        .order("display_order");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Uploads one file at a time and reports the ones that failed, so a bad file does not
+// stop the rest of the batch
+export function useUploadPortfolioItems(creatorId: string, userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (files: File[]) => {
+      const existing = queryClient.getQueryData<CreatorPortfolioItem[]>(queryKeys.creatorPortfolio(creatorId)) || [];
+      const failed: string[] = [];
+
+      for (const [i, file] of files.entries()) {
+        const fileType = file.type.startsWith("video/") ? "video" : "image";
+        const fileExt = file.name.split(".").pop();
+        const fileName = `${userId}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+        const { error: uploadError } = await supabase.storage.from(PORTFOLIO_BUCKET).upload(fileName, file);
+        if (uploadError) {
+          failed.push(file.name);
+          continue;
+        }
+
+        const { data: urlData } = supabase.storage.from(PORTFOLIO_BUCKET).getPublicUrl(fileName);
+
+        const { error } = await supabase.from("creator_portfolio").insert({
+          creator_id: creatorId,
+          file_url: urlData.publicUrl,
+          file_type: fileType,
+          display_order: existing.length + i,
+        });
+        if (error) failed.push(file.name);
+      }
+
+      return { failed };
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.creatorPortfolio(creatorId) }),
+  });
+}
+
+export function useRemovePortfolioItem(creatorId: string) {
+  const queryClient = useQueryClient();
+  const key = queryKeys.creatorPortfolio(creatorId);
+
+  return useMutation({
+    mutationFn: async (item: CreatorPortfolioItem) => {
+      const path = item.file_url.split(`/${PORTFOLIO_BUCKET}/`)[1];
+      if (path) {
+        await supabase.storage.from(PORTFOLIO_BUCKET).remove([path]);
+      }
+
+      const { error } = await supabase.from("creator_portfolio").delete().eq("id", item.id);
+      if (error) throw error;
+    },
+    onMutate: async (item) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<CreatorPortfolioItem[]>(key);
+      queryClient.setQueryData<CreatorPortfolioItem[]>(key, (old = []) => old.filter(i => i.id !== item.id));
+      return { previous };
+    },
+    onError: (_error, _item, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: key }),
+  });
+}
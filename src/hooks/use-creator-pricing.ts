@@ -0,0 +1,87 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+
+export interface CreatorPackage {
+  id: string;
+  package_name: string;
+  hours_range: string;
+  price: number;
+  description: string | null;
+  includes: string[] | null;
+  is_active: boolean | null;
+}
+
+export type CreatorPackageInput = Omit<CreatorPackage, "id" | "is_active"> & { id?: string };
+
+// Creators see all their packages, everyone else only sees active ones
+export function useCreatorPricing(creatorId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.creatorPricing(creatorId || ""),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<CreatorPackage[]> => {
+      const { data, error } = await supabase
+        .from("creator_pricing")
+        .select("id, package_name, hours_range, price, description, includes, is_active")
+        .eq("creator_id", creatorId)
+        .order("price");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useSaveCreatorPackage(creatorId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...pkg }: CreatorPackageInput) => {
+      if (id) {
+        const { data, error } = await supabase
+          .from("creator_pricing")
+          .update(pkg)
+          .eq("id", id)
+          .select("id, package_name, hours_range, price, description, includes, is_active")
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) return data;
+        // The package was removed elsewhere (another tab or device) while still being
+        // edited here, so the edits are saved as a new package instead of being lost
+      }
+
+      const { data, error } = await supabase
+        .from("creator_pricing")
+        .insert({ ...pkg, creator_id: creatorId })
+        .select("id, package_name, hours_range, price, description, includes, is_active")
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.creatorPricing(creatorId) }),
+  });
+}
+
+export function useDeleteCreatorPackage(creatorId: string) {
+  const queryClient = useQueryClient();
+  const key = queryKeys.creatorPricing(creatorId);
+
+  return useMutation({
+    mutationFn: async (packageId: string) => {
+      const { error } = await supabase.from("creator_pricing").delete().eq("id", packageId);
+      if (error) throw error;
+    },
+    onMutate: async (packageId) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<CreatorPackage[]>(key);
+      queryClient.setQueryData<CreatorPackage[]>(key, (old = []) => old.filter(p => p.id !== packageId));
+      return { previous };
+    },
+    onError: (_error, _packageId, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: key }),
+  });
+}
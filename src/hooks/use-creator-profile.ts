@@ -0,0 +1,96 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { queryKeys } from "@/lib/query-keys";
+
+export type CreatorProfile = Tables<"creator_profiles">;
+
+const UPDATE_KEY = ["update-creator-profile"];
+
+export function useCreatorProfile(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.creatorProfile(userId),
+    enabled: !!userId,
+    queryFn: async (): Promise<CreatorProfile | null> => {
+      const { data, error } = await supabase
+        .from("creator_profiles")
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useCreateCreatorProfile(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .from("creator_profiles")
+        .insert({ user_id: userId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData(queryKeys.creatorProfile(userId), profile);
+    },
+  });
+}
+
+// Onboarding saves on every keystroke, so the cache is updated optimistically and only
+// refetched once the last pending save has settled
+export function useUpdateCreatorProfile(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = queryKeys.creatorProfile(userId);
+
+  return useMutation({
+    mutationKey: UPDATE_KEY,
+    mutationFn: async (updates: TablesUpdate<"creator_profiles">) => {
+      const profile = queryClient.getQueryData<CreatorProfile | null>(key);
+      if (!profile) throw new Error("Creator profile not loaded");
+
+      const { error } = await supabase.from("creator_profiles").update(updates).eq("id", profile.id);
+      if (error) throw error;
+    },
+    onMutate: async (updates) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<CreatorProfile | null>(key);
+      queryClient.setQueryData<CreatorProfile | null>(key, old => (old ? { ...old, ...updates } : old));
+      return { previous };
+    },
+    onError: (_error, _updates, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => {
+      if (queryClient.isMutating({ mutationKey: UPDATE_KEY }) === 1) {
+        queryClient.invalidateQueries({ queryKey: key });
+      }
+    },
+  });
+}
+
+// The server re-checks every onboarding requirement and rejects the call if any is unmet
+export function useCompleteOnboarding(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = queryKeys.creatorProfile(userId);
+
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("complete_creator_onboarding");
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<CreatorProfile | null>(key, old =>
+        old ? { ...old, onboarding_completed: true, onboarding_step: 6 } : old
+      );
+      queryClient.invalidateQueries({ queryKey: key });
+    },
+  });
+}
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import type { SkillLevel, SpecializationCategory } from "@/lib/creator-options";
+
+export interface CreatorSpecialization {
+  category: SpecializationCategory;
+  skill_level: SkillLevel;
+}
+
+export function useCreatorSpecializations(creatorId: string) {
+  return useQuery({
+    queryKey: queryKeys.creatorSpecializations(creatorId),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<CreatorSpecialization[]> => {
+      const { data, error } = await supabase
+        .from("creator_specializations")
+        .select("category, skill_level")
+        .eq("creator_id", creatorId);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+type SpecializationChange =
+  | { action: "add"; category: SpecializationCategory }
+  | { action: "remove"; category: SpecializationCategory }
+  | { action: "level"; category: SpecializationCategory; skillLevel: SkillLevel };
+
+export function useUpdateCreatorSpecialization(creatorId: string) {
+  const queryClient = useQueryClient();
+  const key = queryKeys.creatorSpecializations(creatorId);
+
+  return useMutation({
+    mutationFn: async (change: SpecializationChange) => {
+      const { error } = change.action === "add"
+        ? await supabase
+            .from("creator_specializations")
+            .insert({ creator_id: creatorId, category: change.category, skill_level: "beginner" })
+        : change.action === "remove"
+        ? await supabase
+            .from("creator_specializations")
+            .delete()
+            .eq("creator_id", creatorId)
+            .eq("category", change.category)
+        : await supabase
+            .from("creator_specializations")
+            .update({ skill_level: change.skillLevel })
+            .eq("creator_id", creatorId)
+            .eq("category", change.category);
+
+      if (error) throw error;
+    },
+    onMutate: async (change) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<CreatorSpecialization[]>(key);
+      queryClient.setQueryData<CreatorSpecialization[]>(key, (old = []) => {
+        if (change.action === "add") return [...old, { category: change.category, skill_level: "beginner" }];
+        if (change.action === "remove") return old.filter(s => s.category !== change.category);
+        return old.map(s => (s.category === change.category ? { ...s, skill_level: change.skillLevel } : s));
+      });
+      return { previous };
+    },
+    onError: (_error, _change, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: key }),
+  });
+}
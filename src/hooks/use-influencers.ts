@@ -0,0 +1,156 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+
+export interface InfluencerSummary {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+  avatar_url: string | null;
+  phone: string | null;
+  created_at: string;
+  suspended_at: string | null;
+  suspended_reason: string | null;
+  booking_count: number;
+  completed_count: number;
+  total_spend: number;
+}
+
+export interface InfluencerActivityBooking {
+  id: string;
+  booking_date: string;
+  booking_time: string;
+  status: string;
+  creator_id: string | null;
+  package: {
+    package_name: string;
+  } | null;
+  payment: {
+    status: string;
+    amount: number;
+  } | null;
+  creatorName?: string | null;
+}
+
+export interface InfluencerNotification {
+  id: string;
+  title: string;
+  message: string;
+  type: string;
+  is_read: boolean;
+  created_at: string;
+}
+
+export interface InfluencerActivity {
+  bookings: InfluencerActivityBooking[];
+  notifications: InfluencerNotification[];
+}
+
+export function useAdminInfluencers(search: string) {
+  // Wait for typing to pause before searching
+  const term = useDebouncedValue(search.trim());
+
+  return useQuery({
+    queryKey: queryKeys.adminInfluencers(term),
+    placeholderData: (previous) => previous,
+    queryFn: async (): Promise<InfluencerSummary[]> => {
+      const { data, error } = await supabase.rpc("admin_influencer_summaries", {
+        _search: term || null,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useInfluencerActivity(userId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.adminInfluencer(userId),
+    enabled: !!userId,
+    queryFn: async (): Promise<InfluencerActivity> => {
+      const [bookingsRes, notificationsRes] = await Promise.all([
+        supabase
+          .from("bookings")
+          .select(`
+            id,
+            booking_date,
+            booking_time,
+            status,
+            creator_id,
+            package:creator_pricing (
+              package_name
+            ),
+            payment:payments (
+              status,
+              amount
+            ),
+            creator:creator_profiles (
+              user_id
+            )
+          `)
+          .eq("customer_id", userId)
+          .order("booking_date", { ascending: false }),
+        supabase
+          .from("notifications")
+          .select("id, title, message, type, is_read, created_at")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false })
+          .limit(20),
+      ]);
+
+      if (bookingsRes.error) throw bookingsRes.error;
+      if (notificationsRes.error) throw notificationsRes.error;
+
+      // Attach creator names
+      const creatorUserIds = [...new Set(bookingsRes.data.map(b => b.creator?.user_id).filter(Boolean))];
+      const { data: profilesData } = creatorUserIds.length > 0
+        ? await supabase
+            .from("profiles")
+            .select("user_id, full_name")
+            .in("user_id", creatorUserIds)
+        : { data: [] };
+
+      return {
+        bookings: bookingsRes.data.map(({ creator, ...booking }) => ({
+          ...booking,
+          creatorName: profilesData?.find(p => p.user_id === creator?.user_id)?.full_name,
+        })),
+        notifications: notificationsRes.data,
+      };
+    },
+  });
+}
+
+export function useSetAccountSuspended() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, suspended, reason }: {
+      userId: string;
+      suspended: boolean;
+      reason: string | null;
+    }) => {
+      const { error } = await supabase.rpc("set_account_suspended", {
+        _user_id: userId,
+        _suspended: suspended,
+        _reason: reason,
+      });
+      if (error) throw error;
+    },
+    // The list, the open details sheet and the suspension notification all change
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.admin() }),
+  });
+}
+
+export function useSendPasswordReset() {
+  return useMutation({
+    mutationFn: async (email: string) => {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: `${window.location.origin}/reset-password`,
+      });
+      if (error) throw error;
+    },
+  });
+}
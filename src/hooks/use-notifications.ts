@@ -0,0 +1,157 @@
+import { useEffect, useMemo } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import {
+  olderThanFilter,
+  upsertNotification,
+  type AppNotification,
+  type NotificationCursor,
+} from "@/lib/notifications";
+
+const PAGE_SIZE = 10;
+
+type NotificationPages = InfiniteData<AppNotification[], NotificationCursor | null>;
+
+const mapNotifications = (
+  data: NotificationPages | undefined,
+  update: (notifications: AppNotification[], pageIndex: number) => AppNotification[],
+) => data && { ...data, pages: data.pages.map(update) };
+
+export function useNotifications(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const listKey = useMemo(() => queryKeys.notifications(userId), [userId]);
+  const unreadKey = useMemo(() => queryKeys.unreadNotifications(userId), [userId]);
+
+  const list = useInfiniteQuery({
+    queryKey: listKey,
+    enabled: !!userId,
+    initialPageParam: null as NotificationCursor | null,
+    queryFn: async ({ pageParam }) => {
+      let query = supabase
+        .from("notifications")
+        .select("id, title, message, type, is_read, created_at")
+        .eq("user_id", userId);
+      if (pageParam) query = query.or(olderThanFilter(pageParam));
+
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (error) throw error;
+      return data;
+    },
+    getNextPageParam: (lastPage): NotificationCursor | undefined => {
+      if (lastPage.length < PAGE_SIZE) return undefined;
+      const { created_at, id } = lastPage[lastPage.length - 1];
+      return { created_at, id };
+    },
+  });
+
+  const unread = useQuery({
+    queryKey: unreadKey,
+    enabled: !!userId,
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .eq("is_read", false);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const notification = payload.new as AppNotification;
+          queryClient.setQueryData<NotificationPages>(listKey, data =>
+            mapNotifications(data, (page, i) => (i === 0 ? upsertNotification(page, notification) : page))
+          );
+          if (!notification.is_read) {
+            queryClient.setQueryData<number>(unreadKey, count => (count ?? 0) + 1);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const notification = payload.new as AppNotification;
+          queryClient.setQueryData<NotificationPages>(listKey, data =>
+            mapNotifications(data, page =>
+              page.some(n => n.id === notification.id) ? upsertNotification(page, notification) : page
+            )
+          );
+          // Read state may also change from another tab, so recount rather than adjust
+          queryClient.invalidateQueries({ queryKey: unreadKey });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient, listKey, unreadKey]);
+
+  const markRead = useMutation({
+    mutationFn: async (id: string | null) => {
+      const query = supabase.from("notifications").update({ is_read: true });
+      const { error } = id
+        ? await query.eq("id", id)
+        : await query.eq("user_id", userId).eq("is_read", false);
+      if (error) throw error;
+    },
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: listKey });
+      const previousList = queryClient.getQueryData<NotificationPages>(listKey);
+      const previousUnread = queryClient.getQueryData<number>(unreadKey);
+
+      queryClient.setQueryData<NotificationPages>(listKey, data =>
+        mapNotifications(data, page => page.map(n => (!id || n.id === id ? { ...n, is_read: true } : n)))
+      );
+      queryClient.setQueryData<number>(unreadKey, count => (id ? Math.max(0, (count ?? 0) - 1) : 0));
+      return { previousList, previousUnread };
+    },
+    onError: (_error, _id, context) => {
+      queryClient.setQueryData(listKey, context?.previousList);
+      queryClient.setQueryData(unreadKey, context?.previousUnread);
+    },
+  });
+
+  const notifications = list.data?.pages.flat() || [];
+
+  const loadMore = async () => {
+    await list.fetchNextPage();
+  };
+
+  const markAsRead = (id: string) => {
+    const target = notifications.find(n => n.id === id);
+    if (!target || target.is_read) return;
+    markRead.mutate(id);
+  };
+
+  const markAllAsRead = () => {
+    if (!userId) return;
+    markRead.mutate(null);
+  };
+
+  return {
+    notifications,
+    unreadCount: unread.data ?? 0,
+    hasMore: !!list.hasNextPage,
+    isLoading: list.isLoading || unread.isLoading,
+    loadMore,
+    markAsRead,
+    markAllAsRead,
+  };
+}
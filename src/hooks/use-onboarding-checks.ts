@@ -0,0 +1,46 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useCreatorProfile, type CreatorProfile } from "@/hooks/use-creator-profile";
+import { useCreatorSpecializations } from "@/hooks/use-creator-specializations";
+import { useCreatorPortfolio } from "@/hooks/use-creator-portfolio";
+import { useCreatorPricing, type CreatorPackage } from "@/hooks/use-creator-pricing";
+import { queryKeys } from "@/lib/query-keys";
+import { getOnboardingChecks } from "@/lib/onboarding";
+
+const checksFor = (
+  profile: CreatorProfile | null | undefined,
+  specializations: unknown[] | undefined,
+  portfolio: unknown[] | undefined,
+  packages: CreatorPackage[] | undefined,
+) =>
+  getOnboardingChecks({
+    bio: profile?.bio ?? null,
+    state: profile?.state ?? null,
+    city: profile?.city ?? null,
+    specializationCount: specializations?.length ?? 0,
+    portfolioCount: portfolio?.length ?? 0,
+    activePackageCount: (packages || []).filter(p => p.is_active).length,
+  });
+
+// Reads the same caches the steps write to, so the checks follow every save
+export function useOnboardingChecks(creatorId: string, userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const profileQuery = useCreatorProfile(userId);
+  const specializationsQuery = useCreatorSpecializations(creatorId);
+  const portfolioQuery = useCreatorPortfolio(creatorId);
+  const pricingQuery = useCreatorPricing(creatorId);
+
+  // For use straight after awaiting a save, before the component has re-rendered
+  const recheck = () =>
+    checksFor(
+      queryClient.getQueryData(queryKeys.creatorProfile(userId)),
+      queryClient.getQueryData(queryKeys.creatorSpecializations(creatorId)),
+      queryClient.getQueryData(queryKeys.creatorPortfolio(creatorId)),
+      queryClient.getQueryData(queryKeys.creatorPricing(creatorId)),
+    );
+
+  return {
+    checks: checksFor(profileQuery.data, specializationsQuery.data, portfolioQuery.data, pricingQuery.data),
+    recheck,
+    isLoading: [profileQuery, specializationsQuery, portfolioQuery, pricingQuery].some(q => q.isLoading),
+  };
+}
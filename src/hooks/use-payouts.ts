@@ -0,0 +1,228 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import { summarizeEarnings, type EarningsSummary } from "@/lib/payouts";
+
+export interface CreatorPayout {
+  id: string;
+  gross_amount: number;
+  commission_amount: number;
+  net_amount: number;
+  payout_method: string | null;
+  status: string;
+  failure_reason: string | null;
+  paid_at: string | null;
+  batch: {
+    period_start: string;
+    period_end: string;
+  } | null;
+}
+
+export interface CreatorEarnings {
+  summary: EarningsSummary;
+  payouts: CreatorPayout[];
+  commissionPercent: number;
+  hasBanking: boolean;
+}
+
+export interface AdminPayout {
+  id: string;
+  creator_id: string;
+  gross_amount: number;
+  commission_amount: number;
+  net_amount: number;
+  payout_method: string | null;
+  status: string;
+  failure_reason: string | null;
+  creator_name?: string | null;
+}
+
+export interface PayoutBatch {
+  id: string;
+  period_start: string;
+  period_end: string;
+  commission_percent: number;
+  status: string;
+  created_at: string;
+  payouts: AdminPayout[];
+}
+
+export function useCommissionPercent() {
+  return useQuery({
+    queryKey: queryKeys.platformSettings(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("platform_settings")
+        .select("commission_percent")
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.commission_percent ?? 0;
+    },
+  });
+}
+
+export function useUpdateCommission() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (commissionPercent: number) => {
+      const { error } = await supabase
+        .from("platform_settings")
+        .update({ commission_percent: commissionPercent })
+        .eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: (_data, commissionPercent) => {
+      queryClient.setQueryData(queryKeys.platformSettings(), commissionPercent);
+    },
+  });
+}
+
+export function useCreatorEarnings(creatorId: string) {
+  return useQuery({
+    queryKey: queryKeys.creatorEarnings(creatorId),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<CreatorEarnings> => {
+      const [paymentsRes, payoutsRes, settingsRes, bankingRes] = await Promise.all([
+        supabase
+          .from("payments")
+          .select("status, amount")
+          .eq("creator_id", creatorId),
+        supabase
+          .from("payouts")
+          .select(`
+            id,
+            gross_amount,
+            commission_amount,
+            net_amount,
+            payout_method,
+            status,
+            failure_reason,
+            paid_at,
+            batch:payout_batches (
+              period_start,
+              period_end
+            )
+          `)
+          .eq("creator_id", creatorId)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("platform_settings")
+          .select("commission_percent")
+          .maybeSingle(),
+        supabase
+          .from("creator_banking")
+          .select("account_number_last4, upi_id_masked")
+          .eq("creator_id", creatorId)
+          .maybeSingle(),
+      ]);
+
+      if (paymentsRes.error) throw paymentsRes.error;
+      if (payoutsRes.error) throw payoutsRes.error;
+
+      const commissionPercent = settingsRes.data?.commission_percent ?? 0;
+      return {
+        summary: summarizeEarnings(paymentsRes.data, payoutsRes.data, commissionPercent),
+        payouts: payoutsRes.data,
+        commissionPercent,
+        hasBanking: !!(bankingRes.data?.account_number_last4 || bankingRes.data?.upi_id_masked),
+      };
+    },
+  });
+}
+
+export function usePayoutBatches() {
+  return useQuery({
+    queryKey: queryKeys.payoutBatches(),
+    queryFn: async (): Promise<PayoutBatch[]> => {
+      const { data, error } = await supabase
+        .from("payout_batches")
+        .select(`
+          id,
+          period_start,
+          period_end,
+          commission_percent,
+          status,
+          created_at,
+          payouts (
+            id,
+            creator_id,
+            gross_amount,
+            commission_amount,
+            net_amount,
+            payout_method,
+            status,
+            failure_reason,
+            creator:creator_profiles ( user_id )
+          )
+        `)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      const userIds = [...new Set(data.flatMap(b => b.payouts.map(p => p.creator?.user_id)).filter(Boolean))];
+      const { data: profilesData } = userIds.length > 0
+        ? await supabase
+            .from("profiles")
+            .select("user_id, full_name")
+            .in("user_id", userIds)
+        : { data: [] };
+
+      return data.map(({ payouts, ...batch }) => ({
+        ...batch,
+        payouts: payouts.map(({ creator, ...payout }) => ({
+          ...payout,
+          creator_name: profilesData?.find(p => p.user_id === creator?.user_id)?.full_name,
+        })),
+      }));
+    },
+  });
+}
+
+export function useCreatePayoutBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ periodStart, periodEnd }: { periodStart: string; periodEnd: string }) => {
+      const { error } = await supabase.rpc("create_payout_batch", {
+        _period_start: periodStart,
+        _period_end: periodEnd,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.payoutBatches() }),
+  });
+}
+
+export function useApprovePayoutBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (batchId: string) => {
+      const { error } = await supabase.rpc("approve_payout_batch", { _batch_id: batchId });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.payoutBatches() }),
+  });
+}
+
+export function useSetPayoutResult() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ payoutId, status, failureReason }: {
+      payoutId: string;
+      status: "paid" | "failed";
+      failureReason: string | null;
+    }) => {
+      const { error } = await supabase.rpc("set_payout_result", {
+        _payout_id: payoutId,
+        _status: status,
+        _failure_reason: failureReason,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.payoutBatches() }),
+  });
+}
@@ -0,0 +1,59 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import {
+  PROFILE_VIEW_TREND_DAYS,
+  buildViewTrend,
+  getVisitorId,
+  trendStartDate,
+  type ProfileViewDay,
+} from "@/lib/profile-views";
+
+export interface CreatorProfileViews {
+  total: number;
+  trend: ProfileViewDay[];
+}
+
+export function useCreatorProfileViews(creatorId: string) {
+  return useQuery({
+    queryKey: queryKeys.creatorProfileViews(creatorId),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<CreatorProfileViews> => {
+      const [totalRes, trendRes] = await Promise.all([
+        supabase
+          .from("creator_profile_views")
+          .select("id", { count: "exact", head: true })
+          .eq("creator_id", creatorId),
+        supabase.rpc("get_creator_profile_view_trend", {
+          _creator_id: creatorId,
+          _from: trendStartDate(PROFILE_VIEW_TREND_DAYS),
+        }),
+      ]);
+
+      if (totalRes.error) throw totalRes.error;
+      if (trendRes.error) throw trendRes.error;
+
+      return {
+        total: totalRes.count ?? 0,
+        trend: buildViewTrend(trendRes.data, PROFILE_VIEW_TREND_DAYS),
+      };
+    },
+  });
+}
+
+// Fire and forget: a view that fails to record should not get in the visitor's way
+export function useRecordProfileView(creatorId: string | undefined) {
+  useEffect(() => {
+    if (!creatorId) return;
+
+    supabase
+      .rpc("record_creator_profile_view", {
+        _creator_id: creatorId,
+        _visitor_id: getVisitorId(localStorage),
+      })
+      .then(({ error }) => {
+        if (error) console.error("Could not record profile view", error);
+      });
+  }, [creatorId]);
+}
@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import { AVATAR_BUCKET, AVATAR_SIZES, buildAvatarPath, type AvatarSize } from "@/lib/avatars";
+
+export interface Profile {
+  full_name: string | null;
+  email: string | null;
+  avatar_url: string | null;
+  phone: string | null;
+  suspended_at: string | null;
+  suspended_reason: string | null;
+}
+
+export function useProfile(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.profile(userId),
+    enabled: !!userId,
+    queryFn: async (): Promise<Profile | null> => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("full_name, email, avatar_url, phone, suspended_at, suspended_reason")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useUpdateProfile(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = queryKeys.profile(userId);
+
+  return useMutation({
+    mutationFn: async (updates: Pick<Profile, "full_name" | "phone">) => {
+      const { error } = await supabase.from("profiles").update(updates).eq("user_id", userId);
+      if (error) throw error;
+    },
+    onMutate: async (updates) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<Profile | null>(key);
+      queryClient.setQueryData<Profile | null>(key, old => (old ? { ...old, ...updates } : old));
+      return { previous };
+    },
+    onError: (_error, _updates, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: key }),
+  });
+}
+
+// Takes the picture already cropped and rendered at every size. Pictures from earlier
+// uploads are removed once the profile points at the new one.
+export function useUploadAvatar(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = queryKeys.profile(userId);
+
+  return useMutation({
+    mutationFn: async (images: Record<AvatarSize, Blob>) => {
+      const bucket = supabase.storage.from(AVATAR_BUCKET);
+      const version = Date.now().toString(36);
+
+      for (const size of Object.keys(AVATAR_SIZES) as AvatarSize[]) {
+        const { error } = await bucket.upload(buildAvatarPath(userId, version, size), images[size], {
+          contentType: "image/jpeg",
+        });
+        if (error) throw error;
+      }
+
+      const avatarUrl = bucket.getPublicUrl(buildAvatarPath(userId, version, "large")).data.publicUrl;
+      const { error } = await supabase.from("profiles").update({ avatar_url: avatarUrl }).eq("user_id", userId);
+      if (error) throw error;
+
+      const { data: files } = await bucket.list(userId);
+      const stale = (files || []).filter(f => !f.name.startsWith(`${version}-`)).map(f => `${userId}/${f.name}`);
+      if (stale.length > 0) {
+        await bucket.remove(stale);
+      }
+
+      return avatarUrl;
+    },
+    onSuccess: (avatarUrl) => {
+      queryClient.setQueryData<Profile | null>(key, old => (old ? { ...old, avatar_url: avatarUrl } : old));
+      // A creator's picture is copied onto their creator profile by the database
+      const creatorProfile = queryClient.getQueryData<{ id: string } | null>(queryKeys.creatorProfile(userId));
+      queryClient.invalidateQueries({ queryKey: queryKeys.creatorProfile(userId) });
+      if (creatorProfile) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.creator(creatorProfile.id) });
+      }
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { queryKeys } from "@/lib/query-keys";
+import type { ExistingBooking } from "@/lib/scheduling";
+
+export interface PublicCreator {
+  id: string | null;
+  full_name: string | null;
+  profile_picture_url: string | null;
+  bio: string | null;
+  city: string | null;
+  state: string | null;
+  languages: string[] | null;
+  avg_rating: number | null;
+  review_count: number | null;
+}
+
+export interface CreatorSearchResult {
+  id: string;
+  full_name: string | null;
+  profile_picture_url: string | null;
+  bio: string | null;
+  state: string | null;
+  city: string | null;
+  languages: string[] | null;
+  specializations: Array<{ category: string; skill_level: string }>;
+  min_price: number | null;
+  max_price: number | null;
+  portfolio_count: number;
+  avg_rating: number | null;
+  review_count: number;
+}
+
+export type CreatorSearchParams = Database["public"]["Functions"]["search_creators"]["Args"];
+
+// The view only contains creators who completed onboarding
+export function usePublicCreator(creatorId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.publicCreator(creatorId),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<PublicCreator | null> => {
+      const { data, error } = await supabase
+        .from("public_creator_profiles")
+        .select("id, full_name, profile_picture_url, bio, city, state, languages, avg_rating, review_count")
+        .eq("id", creatorId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useCreatorSearch(params: CreatorSearchParams, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.creatorSearch(params),
+    enabled,
+    placeholderData: (previous) => previous,
+    queryFn: async (): Promise<CreatorSearchResult[]> => {
+      const { data, error } = await supabase.rpc("search_creators", params);
+
+      if (error) throw error;
+      return data as unknown as CreatorSearchResult[];
+    },
+  });
+}
+
+export function useCreatorBusySlots(creatorId: string | undefined, from: string, to: string) {
+  return useQuery({
+    queryKey: queryKeys.creatorBusySlots(creatorId, from, to),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<ExistingBooking[]> => {
+      const { data, error } = await supabase.rpc("get_creator_busy_slots", {
+        _creator_id: creatorId,
+        _from: from,
+        _to: to,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
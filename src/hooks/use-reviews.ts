@@ -0,0 +1,207 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+
+export interface CreatorReview {
+  id: string;
+  customer_id: string;
+  rating: number;
+  comment: string | null;
+  creator_reply: string | null;
+  is_hidden: boolean;
+  created_at: string;
+  reviewer?: {
+    full_name: string | null;
+  };
+}
+
+export interface AdminReview {
+  id: string;
+  creator_id: string;
+  customer_id: string;
+  rating: number;
+  comment: string | null;
+  creator_reply: string | null;
+  is_hidden: boolean;
+  created_at: string;
+  reviewer?: {
+    full_name: string | null;
+    email: string | null;
+  };
+  creator_name?: string | null;
+}
+
+export interface PublicReview {
+  id: string | null;
+  rating: number | null;
+  comment: string | null;
+  creator_reply: string | null;
+  created_at: string | null;
+  reviewer_name: string | null;
+}
+
+export function useCreatorReviews(creatorId: string) {
+  return useQuery({
+    queryKey: queryKeys.creatorReviews(creatorId),
+    enabled: !!creatorId,
+    queryFn: async (): Promise<CreatorReview[]> => {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("id, customer_id, rating, comment, creator_reply, is_hidden, created_at")
+        .eq("creator_id", creatorId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      const customerIds = [...new Set(data.map(r => r.customer_id))];
+      const { data: profilesData } = customerIds.length > 0
+        ? await supabase
+            .from("profiles")
+            .select("user_id, full_name")
+            .in("user_id", customerIds)
+        : { data: [] };
+
+      return data.map(review => ({
+        ...review,
+        reviewer: profilesData?.find(p => p.user_id === review.customer_id),
+      }));
+    },
+  });
+}
+
+// Hidden reviews are left out of the view, so this is what the public profile shows
+export function usePublicCreatorReviews(creatorId: string | undefined) {
+  return useQuery({
+    queryKey: [...queryKeys.creatorReviews(creatorId || ""), "public"],
+    enabled: !!creatorId,
+    queryFn: async (): Promise<PublicReview[]> => {
+      const { data, error } = await supabase
+        .from("public_creator_reviews")
+        .select("id, rating, comment, creator_reply, created_at, reviewer_name")
+        .eq("creator_id", creatorId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useSubmitReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (review: {
+      booking_id: string;
+      creator_id: string;
+      customer_id: string;
+      rating: number;
+      comment: string | null;
+    }) => {
+      const { error } = await supabase.from("reviews").insert(review);
+      if (error) throw error;
+    },
+    onSuccess: (_data, review) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.influencerBookings(review.customer_id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.creatorReviews(review.creator_id) });
+    },
+  });
+}
+
+export function useReplyToReview(creatorId: string) {
+  const queryClient = useQueryClient();
+  const key = queryKeys.creatorReviews(creatorId);
+
+  return useMutation({
+    mutationFn: async ({ reviewId, reply }: { reviewId: string; reply: string }) => {
+      const { error } = await supabase.rpc("reply_to_review", {
+        _review_id: reviewId,
+        _reply: reply,
+      });
+      if (error) throw error;
+    },
+    onMutate: async ({ reviewId, reply }) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<CreatorReview[]>(key);
+      queryClient.setQueryData<CreatorReview[]>(key, (old = []) =>
+        old.map(r => (r.id === reviewId ? { ...r, creator_reply: reply.trim() } : r))
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: key }),
+  });
+}
+
+export function useAdminReviews() {
+  return useQuery({
+    queryKey: queryKeys.adminReviews(),
+    queryFn: async (): Promise<AdminReview[]> => {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("id, creator_id, customer_id, rating, comment, creator_reply, is_hidden, created_at")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      const creatorIds = [...new Set(data.map(r => r.creator_id))];
+      const { data: creatorsData } = creatorIds.length > 0
+        ? await supabase
+            .from("creator_profiles")
+            .select("id, user_id")
+            .in("id", creatorIds)
+        : { data: [] };
+
+      const userIds = [...new Set([
+        ...data.map(r => r.customer_id),
+        ...(creatorsData || []).map(c => c.user_id),
+      ])];
+      const { data: profilesData } = userIds.length > 0
+        ? await supabase
+            .from("profiles")
+            .select("user_id, full_name, email")
+            .in("user_id", userIds)
+        : { data: [] };
+
+      const nameOf = (userId: string | undefined) => profilesData?.find(p => p.user_id === userId)?.full_name;
+
+      return data.map(review => ({
+        ...review,
+        reviewer: profilesData?.find(p => p.user_id === review.customer_id),
+        creator_name: nameOf(creatorsData?.find(c => c.id === review.creator_id)?.user_id),
+      }));
+    },
+  });
+}
+
+export function useSetReviewHidden() {
+  const queryClient = useQueryClient();
+  const key = queryKeys.adminReviews();
+
+  return useMutation({
+    mutationFn: async ({ review, hidden }: { review: AdminReview; hidden: boolean }) => {
+      const { error } = await supabase.rpc("set_review_hidden", {
+        _review_id: review.id,
+        _hidden: hidden,
+      });
+      if (error) throw error;
+    },
+    onMutate: async ({ review, hidden }) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<AdminReview[]>(key);
+      queryClient.setQueryData<AdminReview[]>(key, (old = []) =>
+        old.map(r => (r.id === review.id ? { ...r, is_hidden: hidden } : r))
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: (_data, _error, { review }) => {
+      queryClient.invalidateQueries({ queryKey: key });
+      queryClient.invalidateQueries({ queryKey: queryKeys.creatorReviews(review.creator_id) });
+    },
+  });
+}
@@ -0,0 +1,52 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+import { VERIFICATION_BUCKET, buildIdDocumentPath, type VerificationStatus } from "@/lib/verification";
+
+export function useSubmitVerification(creatorId: string, userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const path = buildIdDocumentPath(creatorId, file.name);
+      const { error: uploadError } = await supabase.storage.from(VERIFICATION_BUCKET).upload(path, file);
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase.rpc("submit_creator_verification", { _document_path: path });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.creatorProfile(userId) }),
+  });
+}
+
+export function useReviewCreatorVerification() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ creatorId, status, reason }: {
+      creatorId: string;
+      status: VerificationStatus;
+      reason: string | null;
+    }) => {
+      const { error } = await supabase.rpc("review_creator_verification", {
+        _creator_id: creatorId,
+        _status: status,
+        _reason: reason,
+      });
+      if (error) throw error;
+    },
+    // The creator list, the verification queue and the pending badge all read from here
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.admin() }),
+  });
+}
+
+// ID documents are private, so they open through short-lived signed URLs
+export function useVerificationDocumentUrl() {
+  return useMutation({
+    mutationFn: async (path: string) => {
+      const { data, error } = await supabase.storage.from(VERIFICATION_BUCKET).createSignedUrl(path, 60 * 5);
+      if (error) throw error;
+      return data.signedUrl;
+    },
+  });
+}
@@ -14,15 +14,97 @@ export type Database = {
   }
   public: {
     Tables: {
+      banking_access_log: {
+        Row: {
+          accessed_at: string
+          accessed_by: string
+          creator_id: string
+          id: string
+          reason: string
+        }
+        Insert: {
+          accessed_at?: string
+          accessed_by: string
+          creator_id: string
+          id?: string
+          reason: string
+        }
+        Update: {
+          accessed_at?: string
+          accessed_by?: string
+          creator_id?: string
+          id?: string
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "banking_access_log_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "creator_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "banking_access_log_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "public_creator_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_status_history: {
+        Row: {
+          booking_id: string
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          reason: string | null
+          to_status: string
+        }
+        Insert: {
+          booking_id: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status: string
+        }
+        Update: {
+          booking_id?: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_status_history_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
           booking_date: string
           booking_time: string
           created_at: string
+          creator_id: string | null
           customer_id: string
+          duration_minutes: number
           id: string
           notes: string | null
-          service_id: string
+          package_id: string | null
+          proposed_date: string | null
+          proposed_time: string | null
+          service_id: string | null
           status: string
           team_member_id: string | null
           updated_at: string
@@ -31,10 +113,15 @@ export type Database = {
           booking_date: string
           booking_time: string
           created_at?: string
+          creator_id?: string | null
           customer_id: string
+          duration_minutes?: number
           id?: string
           notes?: string | null
-          service_id: string
+          package_id?: string | null
+          proposed_date?: string | null
+          proposed_time?: string | null
+          service_id?: string | null
           status?: string
           team_member_id?: string | null
           updated_at?: string
@@ -43,15 +130,41 @@ export type Database = {
           booking_date?: string
           booking_time?: string
           created_at?: string
+          creator_id?: string | null
           customer_id?: string
+          duration_minutes?: number
           id?: string
           notes?: string | null
-          service_id?: string
+          package_id?: string | null
+          proposed_date?: string | null
+          proposed_time?: string | null
+          service_id?: string | null
           status?: string
           team_member_id?: string | null
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "bookings_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "creator_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "public_creator_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "creator_pricing"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bookings_service_id_fkey"
             columns: ["service_id"]
@@ -102,36 +215,42 @@ export type Database = {
       creator_banking: {
         Row: {
           account_holder_name: string | null
-          account_number: string | null
+          account_number_encrypted: string | null
+          account_number_last4: string | null
           bank_name: string | null
           created_at: string
           creator_id: string
           id: string
           ifsc_code: string | null
           updated_at: string
-          upi_id: string | null
+          upi_id_encrypted: string | null
+          upi_id_masked: string | null
         }
         Insert: {
           account_holder_name?: string | null
-          account_number?: string | null
+          account_number_encrypted?: string | null
+          account_number_last4?: string | null
           bank_name?: string | null
           created_at?: string
           creator_id: string
           id?: string
           ifsc_code?: string | null
           updated_at?: string
-          upi_id?: string | null
+          upi_id_encrypted?: string | null
+          upi_id_masked?: string | null
         }
         Update: {
           account_holder_name?: string | null
-          account_number?: string | null
+          account_number_encrypted?: string | null
+          account_number_last4?: string | null
           bank_name?: string | null
           created_at?: string
           creator_id?: string
           id?: string
           ifsc_code?: string | null
           updated_at?: string
-          upi_id?: string | null
+          upi_id_encrypted?: string | null
+          upi_id_masked?: string | null
         }
         Relationships: [
           {
@@ -231,12 +350,52 @@ export type Database = {
           },
         ]
       }
+      creator_profile_views: {
+        Row: {
+          created_at: string
+          creator_id: string
+          id: string
+          viewed_on: string
+          viewer_key: string
+        }
+        Insert: {
+          created_at?: string
+          creator_id: string
+          id?: string
+          viewed_on?: string
+          viewer_key: string
+        }
+        Update: {
+          created_at?: string
+          creator_id?: string
+          id?: string
+          viewed_on?: string
+          viewer_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "creator_profile_views_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "creator_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "creator_profile_views_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "public_creator_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       creator_profiles: {
         Row: {
           bio: string | null
           city: string | null
           created_at: string
           id: string
+          id_document_path: string | null
           languages: string[] | null
           location: string | null
           onboarding_completed: boolean | null
@@ -245,12 +404,18 @@ export type Database = {
           state: string | null
           updated_at: string
           user_id: string
+          verification_reason: string | null
+          verification_status: string
+          verification_submitted_at: string | null
+          verified_at: string | null
+          verified_by: string | null
         }
         Insert: {
           bio?: string | null
           city?: string | null
           created_at?: string
           id?: string
+          id_document_path?: string | null
           languages?: string[] | null
           location?: string | null
           onboarding_completed?: boolean | null
@@ -259,12 +424,18 @@ export type Database = {
           state?: string | null
           updated_at?: string
           user_id: string
+          verification_reason?: string | null
+          verification_status?: string
+          verification_submitted_at?: string | null
+          verified_at?: string | null
+          verified_by?: string | null
         }
         Update: {
           bio?: string | null
           city?: string | null
           created_at?: string
           id?: string
+          id_document_path?: string | null
           languages?: string[] | null
           location?: string | null
           onboarding_completed?: boolean | null
@@ -273,6 +444,11 @@ export type Database = {
           state?: string | null
           updated_at?: string
           user_id?: string
+          verification_reason?: string | null
+          verification_status?: string
+          verification_submitted_at?: string | null
+          verified_at?: string | null
+          verified_by?: string | null
         }
         Relationships: []
       }
@@ -308,6 +484,50 @@ export type Database = {
           },
         ]
       }
+      messages: {
+        Row: {
+          attachment_name: string | null
+          attachment_path: string | null
+          attachment_type: string | null
+          body: string | null
+          booking_id: string
+          created_at: string
+          id: string
+          read_at: string | null
+          sender_id: string
+        }
+        Insert: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_type?: string | null
+          body?: string | null
+          booking_id: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id: string
+        }
+        Update: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_type?: string | null
+          body?: string | null
+          booking_id?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           created_at: string
@@ -338,6 +558,265 @@ export type Database = {
         }
         Relationships: []
       }
+      payment_ledger: {
+        Row: {
+          amount: number
+          created_at: string
+          entry_type: string
+          id: string
+          payment_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          entry_type: string
+          id?: string
+          payment_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          entry_type?: string
+          id?: string
+          payment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_ledger_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          booking_id: string
+          created_at: string
+          creator_id: string
+          currency: string
+          customer_id: string
+          id: string
+          last_error: string | null
+          provider: string
+          provider_reference: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          created_at?: string
+          creator_id: string
+          currency?: string
+          customer_id: string
+          id?: string
+          last_error?: string | null
+          provider: string
+          provider_reference: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          created_at?: string
+          creator_id?: string
+          currency?: string
+          customer_id?: string
+          id?: string
+          last_error?: string | null
+          provider?: string
+          provider_reference?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "creator_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "public_creator_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payout_batches: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          commission_percent: number
+          created_at: string
+          created_by: string | null
+          id: string
+          period_end: string
+          period_start: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          commission_percent: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          period_end: string
+          period_start: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          commission_percent?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          period_end?: string
+          period_start?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payout_items: {
+        Row: {
+          amount: number
+          id: string
+          payment_id: string
+          payout_id: string
+        }
+        Insert: {
+          amount: number
+          id?: string
+          payment_id: string
+          payout_id: string
+        }
+        Update: {
+          amount?: number
+          id?: string
+          payment_id?: string
+          payout_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_items_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: true
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_items_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "payouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payouts: {
+        Row: {
+          batch_id: string
+          commission_amount: number
+          created_at: string
+          creator_id: string
+          failure_reason: string | null
+          gross_amount: number
+          id: string
+          net_amount: number
+          paid_at: string | null
+          payout_method: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          batch_id: string
+          commission_amount: number
+          created_at?: string
+          creator_id: string
+          failure_reason?: string | null
+          gross_amount: number
+          id?: string
+          net_amount: number
+          paid_at?: string | null
+          payout_method?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          batch_id?: string
+          commission_amount?: number
+          created_at?: string
+          creator_id?: string
+          failure_reason?: string | null
+          gross_amount?: number
+          id?: string
+          net_amount?: number
+          paid_at?: string | null
+          payout_method?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payouts_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "payout_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payouts_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "creator_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payouts_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "public_creator_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      platform_settings: {
+        Row: {
+          commission_percent: number
+          id: boolean
+          updated_at: string
+        }
+        Insert: {
+          commission_percent?: number
+          id?: boolean
+          updated_at?: string
+        }
+        Update: {
+          commission_percent?: number
+          id?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -346,6 +825,9 @@ export type Database = {
           full_name: string | null
           id: string
           phone: string | null
+          suspended_at: string | null
+          suspended_by: string | null
+          suspended_reason: string | null
           updated_at: string
           user_id: string
         }
@@ -356,6 +838,9 @@ export type Database = {
           full_name?: string | null
           id?: string
           phone?: string | null
+          suspended_at?: string | null
+          suspended_by?: string | null
+          suspended_reason?: string | null
           updated_at?: string
           user_id: string
         }
@@ -366,11 +851,84 @@ export type Database = {
           full_name?: string | null
           id?: string
           phone?: string | null
+          suspended_at?: string | null
+          suspended_by?: string | null
+          suspended_reason?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      reviews: {
+        Row: {
+          booking_id: string
+          comment: string | null
+          created_at: string
+          creator_id: string
+          creator_reply: string | null
+          customer_id: string
+          hidden_at: string | null
+          hidden_by: string | null
+          id: string
+          is_hidden: boolean
+          rating: number
+          replied_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          booking_id: string
+          comment?: string | null
+          created_at?: string
+          creator_id: string
+          creator_reply?: string | null
+          customer_id: string
+          hidden_at?: string | null
+          hidden_by?: string | null
+          id?: string
+          is_hidden?: boolean
+          rating: number
+          replied_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          booking_id?: string
+          comment?: string | null
+          created_at?: string
+          creator_id?: string
+          creator_reply?: string | null
+          customer_id?: string
+          hidden_at?: string | null
+          hidden_by?: string | null
+          id?: string
+          is_hidden?: boolean
+          rating?: number
+          replied_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "creator_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "public_creator_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       services: {
         Row: {
           created_at: string
@@ -427,9 +985,179 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      public_creator_profiles: {
+        Row: {
+          avg_rating: number | null
+          bio: string | null
+          city: string | null
+          created_at: string | null
+          full_name: string | null
+          id: string | null
+          languages: string[] | null
+          location: string | null
+          profile_picture_url: string | null
+          review_count: number | null
+          state: string | null
+        }
+        Relationships: []
+      }
+      public_creator_reviews: {
+        Row: {
+          comment: string | null
+          created_at: string | null
+          creator_id: string | null
+          creator_reply: string | null
+          id: string | null
+          rating: number | null
+          replied_at: string | null
+          reviewer_name: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "creator_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "public_creator_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      admin_creator_summaries: {
+        Args: {
+          _limit?: number
+          _offset?: number
+          _onboarding_completed?: boolean
+          _search?: string
+          _sort?: string
+          _verification_status?: string
+        }
+        Returns: {
+          availability: Json
+          avatar_url: string
+          banking: Json
+          bio: string
+          city: string
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          id_document_path: string
+          languages: string[]
+          onboarding_completed: boolean
+          portfolio_count: number
+          pricing: Json
+          specializations: Json
+          state: string
+          total_count: number
+          user_id: string
+          verification_reason: string
+          verification_status: string
+          verification_submitted_at: string
+        }[]
+      }
+      admin_influencer_summaries: {
+        Args: { _search?: string }
+        Returns: {
+          avatar_url: string
+          booking_count: number
+          completed_count: number
+          created_at: string
+          email: string
+          full_name: string
+          phone: string
+          suspended_at: string
+          suspended_reason: string
+          total_spend: number
+          user_id: string
+        }[]
+      }
+      approve_payout_batch: { Args: { _batch_id: string }; Returns: undefined }
+      banking_encryption_key: { Args: never; Returns: string }
+      booking_slot_problem: {
+        Args: {
+          _creator_id: string
+          _date: string
+          _duration_minutes: number
+          _ignore_booking_id?: string
+          _now?: string
+          _time: string
+        }
+        Returns: string
+      }
+      claim_booking_slot: {
+        Args: {
+          _creator_id: string
+          _date: string
+          _duration_minutes: number
+          _ignore_booking_id?: string
+          _time: string
+        }
+        Returns: undefined
+      }
+      claim_signup_role: {
+        Args: { _role: string }
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      complete_creator_onboarding: { Args: never; Returns: undefined }
+      create_paid_booking: {
+        Args: {
+          _amount: number
+          _booking_date: string
+          _booking_time: string
+          _creator_id: string
+          _customer_id: string
+          _notes: string
+          _package_id: string
+          _provider: string
+          _provider_reference: string
+        }
+        Returns: {
+          booking_date: string
+          booking_time: string
+          created_at: string
+          creator_id: string | null
+          customer_id: string
+          duration_minutes: number
+          id: string
+          notes: string | null
+          package_id: string | null
+          proposed_date: string | null
+          proposed_time: string | null
+          service_id: string | null
+          status: string
+          team_member_id: string | null
+          updated_at: string
+        }
+      }
+      create_payout_batch: {
+        Args: { _period_end: string; _period_start: string }
+        Returns: string
+      }
+      get_creator_busy_slots: {
+        Args: { _creator_id: string; _from: string; _to: string }
+        Returns: {
+          booking_date: string
+          booking_time: string
+          duration_minutes: number
+          status: string
+        }[]
+      }
+      get_creator_profile_view_trend: {
+        Args: { _creator_id: string; _from: string }
+        Returns: {
+          viewed_on: string
+          views: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -437,6 +1165,202 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_booking_creator: {
+        Args: {
+          _booking: Database["public"]["Tables"]["bookings"]["Row"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_booking_participant: {
+        Args: { _booking_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_public_creator: { Args: { _creator_id: string }; Returns: boolean }
+      is_suspended: { Args: { _user_id: string }; Returns: boolean }
+      is_valid_booking_transition: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      mark_booking_messages_read: {
+        Args: { _booking_id: string }
+        Returns: number
+      }
+      mask_account_number: {
+        Args: { _account_number: string }
+        Returns: string
+      }
+      mask_upi_id: { Args: { _upi_id: string }; Returns: string }
+      next_payment_status: {
+        Args: { _booking_status: string; _payment_status: string }
+        Returns: string
+      }
+      next_payment_step: {
+        Args: { _booking_id: string }
+        Returns: {
+          amount: number
+          from_status: string
+          payment_id: string
+          provider: string
+          provider_reference: string
+          to_status: string
+        }[]
+      }
+      package_duration_minutes: {
+        Args: { _hours_range: string }
+        Returns: number
+      }
+      propose_booking_time: {
+        Args: { _booking_id: string; _date: string; _time: string }
+        Returns: {
+          booking_date: string
+          booking_time: string
+          created_at: string
+          creator_id: string | null
+          customer_id: string
+          duration_minutes: number
+          id: string
+          notes: string | null
+          package_id: string | null
+          proposed_date: string | null
+          proposed_time: string | null
+          service_id: string | null
+          status: string
+          team_member_id: string | null
+          updated_at: string
+        }
+      }
+      record_creator_profile_view: {
+        Args: { _creator_id: string; _visitor_id: string }
+        Returns: undefined
+      }
+      reply_to_review: {
+        Args: { _reply: string; _review_id: string }
+        Returns: undefined
+      }
+      request_payment_settlement: {
+        Args: { _booking_id: string }
+        Returns: undefined
+      }
+      respond_to_booking_proposal: {
+        Args: { _accept: boolean; _booking_id: string }
+        Returns: {
+          booking_date: string
+          booking_time: string
+          created_at: string
+          creator_id: string | null
+          customer_id: string
+          duration_minutes: number
+          id: string
+          notes: string | null
+          package_id: string | null
+          proposed_date: string | null
+          proposed_time: string | null
+          service_id: string | null
+          status: string
+          team_member_id: string | null
+          updated_at: string
+        }
+      }
+      reveal_creator_banking: {
+        Args: { _creator_id: string; _reason: string }
+        Returns: {
+          account_number: string
+          upi_id: string
+        }[]
+      }
+      review_creator_verification: {
+        Args: { _creator_id: string; _reason?: string; _status: string }
+        Returns: undefined
+      }
+      save_creator_banking: {
+        Args: {
+          _account_holder_name: string
+          _account_number?: string
+          _bank_name: string
+          _creator_id: string
+          _ifsc_code: string
+          _upi_id?: string
+        }
+        Returns: undefined
+      }
+      search_creators: {
+        Args: {
+          _category?: Database["public"]["Enums"]["specialization_category"]
+          _city?: string
+          _languages?: string[]
+          _max_price?: number
+          _min_price?: number
+          _skill_level?: Database["public"]["Enums"]["skill_level"]
+          _sort?: string
+          _state?: string
+        }
+        Returns: {
+          avg_rating: number
+          bio: string
+          city: string
+          created_at: string
+          full_name: string
+          id: string
+          languages: string[]
+          max_price: number
+          min_price: number
+          portfolio_count: number
+          profile_picture_url: string
+          review_count: number
+          specializations: Json
+          state: string
+        }[]
+      }
+      set_account_suspended: {
+        Args: { _reason?: string; _suspended: boolean; _user_id: string }
+        Returns: undefined
+      }
+      set_payout_result: {
+        Args: { _failure_reason?: string; _payout_id: string; _status: string }
+        Returns: undefined
+      }
+      set_review_hidden: {
+        Args: { _hidden: boolean; _review_id: string }
+        Returns: undefined
+      }
+      settle_payment_step: {
+        Args: {
+          _error?: string
+          _from_status: string
+          _payment_id: string
+          _to_status: string
+        }
+        Returns: undefined
+      }
+      submit_creator_verification: {
+        Args: { _document_path: string }
+        Returns: undefined
+      }
+      transition_booking: {
+        Args: { _booking_id: string; _reason?: string; _status: string }
+        Returns: {
+          booking_date: string
+          booking_time: string
+          created_at: string
+          creator_id: string | null
+          customer_id: string
+          duration_minutes: number
+          id: string
+          notes: string | null
+          package_id: string | null
+          proposed_date: string | null
+          proposed_time: string | null
+          service_id: string | null
+          status: string
+          team_member_id: string | null
+          updated_at: string
+        }
+      }
+      unsettled_payment_bookings: {
+        Args: never
+        Returns: string[]
+      }
     }
     Enums: {
       app_role: "customer" | "team" | "admin"
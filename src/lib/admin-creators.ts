@@ -0,0 +1,95 @@
+// Admin creator list: filters, sorting and mapping of the admin_creator_summaries rows.
+
+import type { Database } from "@/integrations/supabase/types";
+
+export type AdminCreatorRow = Database["public"]["Functions"]["admin_creator_summaries"]["Returns"][number];
+
+export type CreatorSort = "newest" | "oldest" | "name" | "submitted";
+
+export const CREATOR_SORT_LABELS: Record<CreatorSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  name: "Name",
+  submitted: "Submitted first",
+};
+
+export interface AdminCreatorFilters {
+  search?: string;
+  verificationStatus?: string | null;
+  onboardingCompleted?: boolean | null;
+  sort?: CreatorSort;
+}
+
+export interface AdminCreator {
+  id: string;
+  user_id: string;
+  bio: string | null;
+  state: string | null;
+  city: string | null;
+  languages: string[];
+  onboarding_completed: boolean;
+  verification_status: string;
+  verification_reason: string | null;
+  id_document_path: string | null;
+  verification_submitted_at: string | null;
+  created_at: string;
+  profile: {
+    full_name: string | null;
+    email: string | null;
+    avatar_url: string | null;
+  };
+  specializations: Array<{
+    category: string;
+    skill_level: string;
+  }>;
+  pricing: Array<{
+    package_name: string;
+    hours_range: string;
+    price: number;
+    includes: string[];
+  }>;
+  portfolio_count: number;
+  banking: {
+    account_holder_name: string | null;
+    bank_name: string | null;
+    ifsc_code: string | null;
+    account_number_last4: string | null;
+    upi_id_masked: string | null;
+  } | null;
+  availability: Array<{
+    day_of_week: number;
+    start_time: string;
+    end_time: string;
+    is_available: boolean;
+  }>;
+}
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
+export const toAdminCreator = ({
+  full_name,
+  email,
+  avatar_url,
+  specializations,
+  pricing,
+  availability,
+  banking,
+  portfolio_count,
+  total_count: _totalCount,
+  ...creator
+}: AdminCreatorRow): AdminCreator => ({
+  ...creator,
+  languages: creator.languages || [],
+  profile: { full_name, email, avatar_url },
+  specializations: asArray(specializations),
+  pricing: asArray(pricing),
+  availability: asArray(availability),
+  banking: banking && typeof banking === "object" && !Array.isArray(banking)
+    ? (banking as AdminCreator["banking"])
+    : null,
+  // bigint counts can arrive as strings
+  portfolio_count: Number(portfolio_count) || 0,
+});
+
+// Every row carries the unpaged match count, so an empty page means nothing matched
+export const getTotalCount = (rows: AdminCreatorRow[]) => (rows.length > 0 ? Number(rows[0].total_count) || 0 : 0);
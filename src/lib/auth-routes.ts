@@ -0,0 +1,44 @@
+// Where each portal lives.
+//
+// Protected routes send signed-out visitors to their portal's sign-in page with the page
+// they asked for in router state, and the sign-in page sends them back there afterwards.
+
+import type { Location } from "react-router-dom";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+/** Roles a user can pick when signing up; admins are provisioned out-of-band */
+export type SignupRole = Exclude<AppRole, "admin">;
+
+interface Portal {
+  /** Every route of the portal starts with this */
+  prefix: string;
+  signIn: string;
+  home: string;
+}
+
+export const PORTALS: Record<AppRole, Portal> = {
+  customer: { prefix: "/influencer/", signIn: "/influencer/auth", home: "/influencer/dashboard" },
+  team: { prefix: "/creator/", signIn: "/creator/auth", home: "/creator/dashboard" },
+  admin: { prefix: "/admin/", signIn: "/admin/login", home: "/admin/dashboard" },
+};
+
+/** Router state a guard leaves for the sign-in page */
+export interface RedirectState {
+  from?: Pick<Location, "pathname" | "search" | "hash">;
+}
+
+/**
+ * Where to go after signing in: the page that was originally requested if it belongs to
+ * the signed-in role's portal, otherwise the portal's home page.
+ */
+export const getPostSignInPath = (role: AppRole, state: unknown) => {
+  const portal = PORTALS[role];
+  const from = (state as RedirectState | null)?.from;
+
+  if (!from?.pathname?.startsWith(portal.prefix) || from.pathname === portal.signIn) {
+    return portal.home;
+  }
+  return `${from.pathname}${from.search || ""}${from.hash || ""}`;
+};
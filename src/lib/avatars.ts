@@ -0,0 +1,95 @@
+// Profile pictures.
+//
+// Avatars are cropped to a square in the browser and uploaded at fixed sizes, so the
+// rest of the app never resizes them. Files live in the public avatars bucket under the
+// owner's user id; profiles.avatar_url holds the large size, and the small one sits
+// next to it with the same name.
+
+export const AVATAR_BUCKET = "avatars";
+
+export const AVATAR_SIZES = { large: 512, small: 128 } as const;
+
+export type AvatarSize = keyof typeof AVATAR_SIZES;
+
+/** Limit on the photo picked for cropping; what is uploaded is far smaller */
+export const MAX_AVATAR_SOURCE_BYTES = 10 * 1024 * 1024;
+
+export const MAX_AVATAR_ZOOM = 3;
+
+export interface SquareCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+/** A new version per upload, so a cached old picture is never shown in place of the new one */
+export const buildAvatarPath = (userId: string, version: string, size: AvatarSize) =>
+  `${userId}/${version}-${AVATAR_SIZES[size]}.jpg`;
+
+/** The small variant of a stored avatar URL. URLs not made by buildAvatarPath are returned as is. */
+export const avatarUrlForSize = (url: string | null | undefined, size: AvatarSize) =>
+  url ? url.replace(new RegExp(`-${AVATAR_SIZES.large}\\.jpg$`), `-${AVATAR_SIZES[size]}.jpg`) : null;
+
+/**
+ * The square of the source image to keep. At zoom 1 it is as large as the shorter side;
+ * the centre is moved as little as needed to keep the square inside the image.
+ */
+export const getSquareCrop = (
+  width: number,
+  height: number,
+  zoom: number,
+  center: { x: number; y: number },
+): SquareCrop => {
+  const size = Math.min(width, height) / Math.min(Math.max(zoom, 1), MAX_AVATAR_ZOOM);
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+  return {
+    x: clamp(center.x - size / 2, width - size),
+    y: clamp(center.y - size / 2, height - size),
+    size,
+  };
+};
+
+/** "Asha Rao" -> "AR", for when there is no picture */
+export const getInitials = (name: string | null | undefined) =>
+  (name || "")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join("") || "?";
+
+export const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read this image"));
+    };
+    image.src = url;
+  });
+
+export const drawCrop = (canvas: HTMLCanvasElement, image: HTMLImageElement, crop: SquareCrop) => {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, canvas.width, canvas.height);
+};
+
+export const renderAvatar = (image: HTMLImageElement, crop: SquareCrop, size: AvatarSize) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = AVATAR_SIZES[size];
+    drawCrop(canvas, image, crop);
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("Could not resize this image"))),
+      "image/jpeg",
+      0.9,
+    );
+  });
@@ -0,0 +1,87 @@
+// Creator banking details.
+//
+// Account numbers and UPI IDs are encrypted in the database and never sent back to the
+// browser. Creators and admins see masked values; admins can reveal the full details
+// with reveal_creator_banking, which is audited.
+//
+// The formats below are mirrored by save_creator_banking and the CHECK constraints on
+// creator_banking.
+
+import { z } from "zod";
+
+export const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+export const ACCOUNT_NUMBER_PATTERN = /^\d{9,18}$/;
+export const UPI_ID_PATTERN = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$/;
+
+export interface BankingForm {
+  account_holder_name: string;
+  bank_name: string;
+  ifsc_code: string;
+  /** Left empty to keep the stored value */
+  account_number: string;
+  confirm_account_number: string;
+  /** Left empty to keep the stored value */
+  upi_id: string;
+}
+
+export type BankingFormErrors = Partial<Record<keyof BankingForm, string>>;
+
+const normalizeAccountNumber = (value: string) => value.replace(/\s/g, "");
+
+// Every field is optional because creators can skip this step; an account number
+// needs the rest of the bank transfer details to be usable for payouts.
+export const bankingFormSchema = z
+  .object({
+    account_holder_name: z.string().trim().max(100, "Name is too long"),
+    bank_name: z.string().trim().max(100, "Bank name is too long"),
+    ifsc_code: z
+      .string()
+      .trim()
+      .refine(v => v === "" || IFSC_PATTERN.test(v), "IFSC should look like SBIN0001234"),
+    account_number: z
+      .string()
+      .transform(normalizeAccountNumber)
+      .refine(v => v === "" || ACCOUNT_NUMBER_PATTERN.test(v), "Account number should be 9 to 18 digits"),
+    confirm_account_number: z.string().transform(normalizeAccountNumber),
+    upi_id: z
+      .string()
+      .trim()
+      .refine(v => v === "" || UPI_ID_PATTERN.test(v), "UPI ID should look like yourname@bank"),
+  })
+  .superRefine((form, ctx) => {
+    if (form.account_number && form.confirm_account_number !== form.account_number) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["confirm_account_number"], message: "Account numbers do not match" });
+    }
+    if (form.account_number && !form.ifsc_code) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["ifsc_code"], message: "IFSC is required for bank transfers" });
+    }
+    if (form.account_number && !form.account_holder_name) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["account_holder_name"], message: "Account holder name is required" });
+    }
+  });
+
+/** First error message per field, or an empty object when the form is valid */
+export const validateBankingForm = (form: BankingForm): BankingFormErrors => {
+  const result = bankingFormSchema.safeParse(form);
+  if (result.success) return {};
+
+  const errors: BankingFormErrors = {};
+  for (const issue of result.error.errors) {
+    const field = issue.path[0] as keyof BankingForm;
+    if (!errors[field]) errors[field] = issue.message;
+  }
+  return errors;
+};
+
+export const formatMaskedAccountNumber = (last4: string | null | undefined) =>
+  last4 ? `•••• ${last4}` : null;
+
+/** Arguments for save_creator_banking. Empty secret fields are omitted so the stored values are kept. */
+export const toSaveBankingArgs = (creatorId: string, form: BankingForm) => ({
+  _creator_id: creatorId,
+  _account_holder_name: form.account_holder_name,
+  _bank_name: form.bank_name,
+  _ifsc_code: form.ifsc_code,
+  _account_number: normalizeAccountNumber(form.account_number) || undefined,
+  _upi_id: form.upi_id.trim() || undefined,
+});
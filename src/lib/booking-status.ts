@@ -0,0 +1,40 @@
+// Booking lifecycle shared by the influencer and creator booking screens.
+
+export type BookingStatus = "pending" | "confirmed" | "cancelled" | "completed";
+
+export const BOOKING_STATUSES: BookingStatus[] = ["pending", "confirmed", "cancelled", "completed"];
+
+// Allowed next statuses; cancelled and completed are terminal
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["completed", "cancelled"],
+  cancelled: [],
+  completed: [],
+};
+
+export type BookingActor = "creator" | "customer" | "admin";
+
+// Target statuses each party may move a booking to. Mirrors the transition_booking RPC,
+// which is the source of truth; customers confirm only by accepting a proposed time.
+export const ACTOR_TARGET_STATUSES: Record<BookingActor, BookingStatus[]> = {
+  creator: ["confirmed", "completed", "cancelled"],
+  customer: ["cancelled"],
+  admin: ["confirmed", "completed", "cancelled"],
+};
+
+export const canTransition = (from: string, to: BookingStatus, actor?: BookingActor) => {
+  if (actor && !ACTOR_TARGET_STATUSES[actor].includes(to)) return false;
+  return BOOKING_TRANSITIONS[from as BookingStatus]?.includes(to) ?? false;
+};
+
+// A new time can only be proposed while the booking is still open
+export const canProposeNewTime = (status: string) => status === "pending" || status === "confirmed";
+
+export const isTerminalStatus = (status: string) => (BOOKING_TRANSITIONS[status as BookingStatus] ?? []).length === 0;
+
+// Optimistic status change for a cached booking list
+export const withBookingStatus = <T extends { id: string; status: string }>(
+  bookings: T[] | undefined,
+  bookingId: string,
+  status: BookingStatus,
+) => bookings?.map(b => (b.id === bookingId ? { ...b, status } : b));
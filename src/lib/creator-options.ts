@@ -0,0 +1,41 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type SpecializationCategory = Database["public"]["Enums"]["specialization_category"];
+export type SkillLevel = Database["public"]["Enums"]["skill_level"];
+
+export const SPECIALIZATIONS: Array<{ id: SpecializationCategory; label: string; description: string }> = [
+  { id: "brand_strategy", label: "Brand Strategy", description: "Develop brand identity and positioning" },
+  { id: "content_creation", label: "Content Creation", description: "Create engaging content for social media" },
+  { id: "reel_direction", label: "Reel Direction", description: "Direct and produce short-form videos" },
+  { id: "story_telling", label: "Story Telling", description: "Craft compelling narratives" },
+  { id: "creative_direction", label: "Creative Direction", description: "Lead overall creative vision" },
+  { id: "photography", label: "Photography", description: "Professional photo shoots" },
+  { id: "video_editing", label: "Video Editing", description: "Edit and produce videos" },
+  { id: "social_media_management", label: "Social Media Management", description: "Manage social media accounts" },
+  { id: "influencer_marketing", label: "Influencer Marketing", description: "Connect brands with influencers" },
+  { id: "copywriting", label: "Copywriting", description: "Write persuasive copy and captions" },
+];
+
+export const SKILL_LEVELS: Array<{ id: SkillLevel; label: string; color: string }> = [
+  { id: "beginner", label: "Beginner", color: "bg-green-100 text-green-700 border-green-300" },
+  { id: "intermediate", label: "Intermediate", color: "bg-yellow-100 text-yellow-700 border-yellow-300" },
+  { id: "expert", label: "Expert", color: "bg-purple-100 text-purple-700 border-purple-300" },
+];
+
+export const INDIAN_STATES = [
+  "Andhra Pradesh", "Arunachal Pradesh", "Assam", "Bihar", "Chhattisgarh",
+  "Goa", "Gujarat", "Haryana", "Himachal Pradesh", "Jharkhand", "Karnataka",
+  "Kerala", "Madhya Pradesh", "Maharashtra", "Manipur", "Meghalaya", "Mizoram",
+  "Nagaland", "Odisha", "Punjab", "Rajasthan", "Sikkim", "Tamil Nadu",
+  "Telangana", "Tripura", "Uttar Pradesh", "Uttarakhand", "West Bengal"
+];
+
+export const LANGUAGES = [
+  "English", "Hindi", "Tamil", "Telugu", "Kannada", "Malayalam", "Marathi",
+  "Bengali", "Gujarati", "Punjabi", "Odia", "Urdu"
+];
+
+export const formatSpecialization = (category: string) => {
+  return SPECIALIZATIONS.find(s => s.id === category)?.label
+    ?? category.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase());
+};
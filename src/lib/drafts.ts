@@ -0,0 +1,28 @@
+// Unsaved form drafts.
+//
+// Autosaving forms keep their latest edits in localStorage until the server has them,
+// so a reload or a dropped connection does not lose work. Storage is passed in to keep
+// these testable; a corrupt or unreadable draft is treated as no draft.
+
+const DRAFT_PREFIX = "access-hub:draft:";
+
+export const readDraft = <T>(storage: Storage, key: string): T | null => {
+  try {
+    const raw = storage.getItem(DRAFT_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeDraft = <T>(storage: Storage, key: string, value: T) => {
+  try {
+    storage.setItem(DRAFT_PREFIX + key, JSON.stringify(value));
+  } catch {
+    // Storage full or disabled: the autosave itself still runs
+  }
+};
+
+export const clearDraft = (storage: Storage, key: string) => {
+  storage.removeItem(DRAFT_PREFIX + key);
+};
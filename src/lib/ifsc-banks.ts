@@ -0,0 +1,66 @@
+// Offline IFSC lookup.
+//
+// The first four characters of an IFSC identify the bank and the last six the branch.
+// Every branch code and bank name comes from the ifsc package (Razorpay's copy of the
+// RBI list), which ships with the app, so a code is checked against real branches
+// without calling an external IFSC API. The data is about 1 MB, so it is only loaded
+// once a complete code has been typed.
+
+import { IFSC_PATTERN } from "./banking";
+
+interface IfscDirectory {
+  /** Branch codes by bank code; all-digit codes are stored as numbers */
+  branches: Record<string, (string | number)[]>;
+  bankNames: Record<string, string>;
+  /** Branches run on behalf of another bank, by full IFSC */
+  sublets: Record<string, string>;
+  /** The same by IFSC prefix, to a bank code or the bank's name */
+  prefixSublets: Record<string, string>;
+}
+
+let directory: Promise<IfscDirectory> | null = null;
+
+const loadDirectory = () => {
+  directory ||= Promise.all([
+    import("ifsc/src/IFSC.json"),
+    import("ifsc/src/banknames.json"),
+    import("ifsc/src/sublet.json"),
+    import("ifsc/src/custom-sublets.json"),
+  ]).then(
+    ([branches, bankNames, sublets, prefixSublets]) => ({
+      branches: branches.default,
+      bankNames: bankNames.default,
+      sublets: sublets.default,
+      prefixSublets: prefixSublets.default,
+    }),
+    (error) => {
+      // Let the next lookup try again, e.g. after a dropped connection
+      directory = null;
+      throw error;
+    },
+  );
+  return directory;
+};
+
+const isKnownBranch = ({ branches }: IfscDirectory, code: string) => {
+  const branch = code.slice(5);
+  return !!branches[code.slice(0, 4)]?.includes(/^\d+$/.test(branch) ? Number(branch) : branch);
+};
+
+// A sublet branch belongs to the bank that runs it, not the one whose code it carries
+const bankNameFor = ({ bankNames, sublets, prefixSublets }: IfscDirectory, code: string) => {
+  if (sublets[code]) return bankNames[sublets[code]] ?? null;
+  const operator = Object.entries(prefixSublets).find(([prefix]) => code.startsWith(prefix))?.[1];
+  if (operator) return bankNames[operator] ?? operator;
+  return bankNames[code.slice(0, 4)] ?? null;
+};
+
+/** Bank name for an IFSC of a real branch, or null when the code is malformed or unknown */
+export const lookupIfscBank = async (ifsc: string): Promise<string | null> => {
+  const code = ifsc.trim().toUpperCase();
+  if (!IFSC_PATTERN.test(code)) return null;
+
+  const data = await loadDirectory();
+  if (!isKnownBranch(data, code)) return null;
+  return bankNameFor(data, code);
+};
@@ -0,0 +1,41 @@
+// Helpers for booking conversations and their attachments.
+
+export const ATTACHMENTS_BUCKET = "booking-attachments";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const MAX_MESSAGE_LENGTH = 4000;
+
+export interface BookingMessage {
+  id: string;
+  booking_id: string;
+  sender_id: string;
+  body: string | null;
+  attachment_path: string | null;
+  attachment_name: string | null;
+  attachment_type: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Storage path for an attachment. The first folder must be the booking id,
+ * which is what the bucket's access policies check.
+ */
+export const buildAttachmentPath = (bookingId: string, fileName: string) => {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]+/g, "-").replace(/^-+|-+$/g, "") || "file";
+  return `${bookingId}/${Date.now()}-${Math.random().toString(36).substring(7)}-${safeName}`;
+};
+
+export const isImageAttachment = (type: string | null) => !!type && type.startsWith("image/");
+
+// Messages the user received but has not read yet
+export const countUnread = (messages: BookingMessage[], userId: string | undefined) => {
+  return messages.filter(m => m.sender_id !== userId && !m.read_at).length;
+};
+
+// Inserts or replaces a message, keeping the thread oldest-first
+export const upsertMessage = (messages: BookingMessage[], message: BookingMessage) => {
+  const rest = messages.filter(m => m.id !== message.id);
+  return [...rest, message].sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
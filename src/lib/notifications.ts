@@ -0,0 +1,57 @@
+// Notification display helpers shared by the portal headers.
+
+export type NotificationType = "info" | "success" | "warning" | "error";
+
+export interface AppNotification {
+  id: string;
+  title: string;
+  message: string;
+  type: string;
+  is_read: boolean;
+  created_at: string;
+}
+
+/** The oldest notification on a page, which the next page starts after */
+export type NotificationCursor = Pick<AppNotification, "created_at" | "id">;
+
+export interface NotificationGroup {
+  type: NotificationType;
+  label: string;
+  items: AppNotification[];
+}
+
+// Display order: things needing attention first
+export const NOTIFICATION_TYPES: NotificationType[] = ["warning", "error", "success", "info"];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  warning: "Action needed",
+  error: "Cancellations",
+  success: "Confirmations",
+  info: "Updates",
+};
+
+const toNotificationType = (type: string): NotificationType =>
+  NOTIFICATION_TYPES.includes(type as NotificationType) ? (type as NotificationType) : "info";
+
+/**
+ * Groups notifications by type, keeping each group's incoming order and dropping empty groups.
+ */
+export const groupNotificationsByType = (notifications: AppNotification[]): NotificationGroup[] => {
+  return NOTIFICATION_TYPES.map(type => ({
+    type,
+    label: NOTIFICATION_TYPE_LABELS[type],
+    items: notifications.filter(n => toNotificationType(n.type) === type),
+  })).filter(group => group.items.length > 0);
+};
+
+// Inserts or replaces a notification, keeping the list newest-first
+export const upsertNotification = (notifications: AppNotification[], notification: AppNotification) => {
+  const rest = notifications.filter(n => n.id !== notification.id);
+  return [...rest, notification].sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+// Pages follow on from the last notification shown rather than from an offset, so
+// notifications arriving in realtime can't push rows already shown onto the next page.
+// Ties on created_at are broken by id, matching the list's ordering.
+export const olderThanFilter = ({ created_at, id }: NotificationCursor) =>
+  `created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`;
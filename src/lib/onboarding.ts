@@ -0,0 +1,74 @@
+// Creator onboarding requirements.
+//
+// Each wizard step declares what has to be saved before the creator can move past it.
+// complete_creator_onboarding checks the same rules on the server before a profile
+// goes live, so the numbers here must match that function.
+
+export const MIN_BIO_LENGTH = 50;
+export const MIN_SPECIALIZATIONS = 1;
+export const MIN_PORTFOLIO_ITEMS = 6;
+export const MIN_ACTIVE_PACKAGES = 1;
+
+export interface OnboardingSnapshot {
+  bio: string | null;
+  state: string | null;
+  city: string | null;
+  specializationCount: number;
+  portfolioCount: number;
+  activePackageCount: number;
+}
+
+export interface OnboardingCheck {
+  step: number;
+  label: string;
+  /** Shown under the step when the creator tries to continue without meeting it */
+  error: string;
+  isMet: boolean;
+}
+
+const filled = (value: string | null) => !!value?.trim();
+
+export const getOnboardingChecks = (snapshot: OnboardingSnapshot): OnboardingCheck[] => {
+  const bioLength = snapshot.bio?.trim().length ?? 0;
+
+  return [
+    {
+      step: 1,
+      label: "Bio",
+      error: `Write a bio of at least ${MIN_BIO_LENGTH} characters (${bioLength} so far).`,
+      isMet: bioLength >= MIN_BIO_LENGTH,
+    },
+    {
+      step: 1,
+      label: "Location",
+      error: "Select your state and city.",
+      isMet: filled(snapshot.state) && filled(snapshot.city),
+    },
+    {
+      step: 2,
+      label: "Specialization",
+      error: "Select at least one specialization.",
+      isMet: snapshot.specializationCount >= MIN_SPECIALIZATIONS,
+    },
+    {
+      step: 3,
+      label: "Portfolio",
+      error: `Upload at least ${MIN_PORTFOLIO_ITEMS} portfolio items (${snapshot.portfolioCount} so far).`,
+      isMet: snapshot.portfolioCount >= MIN_PORTFOLIO_ITEMS,
+    },
+    {
+      step: 4,
+      label: "Pricing",
+      error: "Save at least one active package.",
+      isMet: snapshot.activePackageCount >= MIN_ACTIVE_PACKAGES,
+    },
+  ];
+};
+
+/** Errors blocking the given step, empty once it can be left */
+export const getStepErrors = (checks: OnboardingCheck[], step: number) =>
+  checks.filter(c => c.step === step && !c.isMet).map(c => c.error);
+
+/** First step with an unmet requirement, or null when onboarding can be completed */
+export const firstIncompleteStep = (checks: OnboardingCheck[]) =>
+  checks.find(c => !c.isMet)?.step ?? null;
@@ -0,0 +1,31 @@
+// Payments for creator bookings.
+//
+// The database owns the escrow state: a payment row is created once the provider has
+// authorized the influencer's card, and from then on it follows the booking's status.
+// The provider calls themselves are made by the create-booking and settle-payments edge
+// functions; the browser only reads payment rows.
+
+export type PaymentStatus = "authorized" | "captured" | "released" | "refunded" | "voided";
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  authorized: "Payment on hold",
+  captured: "Paid, held in escrow",
+  released: "Paid out",
+  refunded: "Refunded",
+  voided: "Hold released",
+};
+
+/**
+ * Payment status after a booking moves to `bookingStatus`, or null when nothing changes.
+ * Mirrors next_payment_status in the database; a completed booking whose capture never
+ * went through is captured first and released on the next step.
+ */
+export const nextPaymentStatus = (paymentStatus: string, bookingStatus: string): PaymentStatus | null => {
+  if ((bookingStatus === "confirmed" || bookingStatus === "completed") && paymentStatus === "authorized") {
+    return "captured";
+  }
+  if (bookingStatus === "completed" && paymentStatus === "captured") return "released";
+  if (bookingStatus === "cancelled" && paymentStatus === "captured") return "refunded";
+  if (bookingStatus === "cancelled" && paymentStatus === "authorized") return "voided";
+  return null;
+};
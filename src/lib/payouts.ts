@@ -0,0 +1,60 @@
+// Creator payouts.
+//
+// Once a booking is completed its payment is released from escrow. Admins then group
+// released payments per creator into payout batches (see create_payout_batch); the
+// platform keeps its commission and the rest is transferred to the creator.
+
+export type PayoutStatus = "scheduled" | "processing" | "paid" | "failed";
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  scheduled: "Scheduled",
+  processing: "Processing",
+  paid: "Paid",
+  failed: "Failed",
+};
+
+export const PAYOUT_METHOD_LABELS: Record<string, string> = {
+  bank_transfer: "Bank transfer",
+  upi: "UPI",
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/** Splits a gross amount into the platform commission and the creator's share. Mirrors create_payout_batch. */
+export const calculatePayout = (gross: number, commissionPercent: number) => {
+  const commission = roundCurrency((gross * commissionPercent) / 100);
+  return { gross: roundCurrency(gross), commission, net: roundCurrency(gross - commission) };
+};
+
+export interface EarningsSummary {
+  /** Paid bookings that are not completed yet */
+  inEscrow: number;
+  /** Creator's share of completed bookings that are not in a payout yet */
+  awaitingPayout: number;
+  /** Net amount of payouts in a scheduled or processing batch */
+  pending: number;
+  paidOut: number;
+}
+
+/**
+ * Summarises a creator's earnings from their payments and payouts.
+ * Failed payouts give their payments back, so they count as awaiting payout again.
+ */
+export const summarizeEarnings = (
+  payments: { status: string; amount: number }[],
+  payouts: { status: string; gross_amount: number; net_amount: number }[],
+  commissionPercent: number
+): EarningsSummary => {
+  const sum = (values: number[]) => values.reduce((total, value) => total + Number(value), 0);
+
+  const released = sum(payments.filter(p => p.status === "released").map(p => p.amount));
+  const activePayouts = payouts.filter(p => p.status !== "failed");
+  const unbatched = Math.max(0, released - sum(activePayouts.map(p => p.gross_amount)));
+
+  return {
+    inEscrow: roundCurrency(sum(payments.filter(p => p.status === "captured").map(p => p.amount))),
+    awaitingPayout: calculatePayout(unbatched, commissionPercent).net,
+    pending: roundCurrency(sum(activePayouts.filter(p => p.status !== "paid").map(p => p.net_amount))),
+    paidOut: roundCurrency(sum(activePayouts.filter(p => p.status === "paid").map(p => p.net_amount))),
+  };
+};
@@ -0,0 +1,9 @@
+// Each portal keeps its own colour: pink for influencers, purple for creators, blue for admins
+
+export type PortalAccent = "pink" | "purple" | "blue";
+
+export const PORTAL_ACCENTS: Record<PortalAccent, { tile: string; icon: string; active: string }> = {
+  pink: { tile: "bg-pink-100", icon: "text-pink-600", active: "bg-pink-50 text-pink-700" },
+  purple: { tile: "bg-purple-100", icon: "text-purple-600", active: "bg-purple-50 text-purple-700" },
+  blue: { tile: "bg-blue-100", icon: "text-blue-600", active: "bg-blue-50 text-blue-700" },
+};
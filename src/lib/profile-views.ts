@@ -0,0 +1,49 @@
+// Creator profile views.
+//
+// The server counts a view at most once per viewer per UTC day (see
+// record_creator_profile_view). Signed-out visitors are told apart by a random id kept
+// in their browser. Trend days are UTC dates too, so a view always lands on the day the
+// server counted it, whatever the viewer's or the creator's time zone.
+
+export const PROFILE_VIEW_TREND_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const VISITOR_ID_KEY = "access-hub:visitor-id";
+
+export interface ProfileViewDay {
+  date: string;
+  views: number;
+}
+
+/** The UTC date of a moment, e.g. "2026-03-12" */
+export const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysBefore = (date: Date, days: number) => new Date(date.getTime() - days * DAY_MS);
+
+/** First day of a trend ending today, e.g. 30 days ending on the 30th starts on the 1st */
+export const trendStartDate = (days: number, today = new Date()) => toDateKey(daysBefore(today, days - 1));
+
+/** One entry per day, oldest first, with zeros for days nobody viewed the profile */
+export const buildViewTrend = (
+  counts: { viewed_on: string; views: number }[],
+  days: number,
+  today = new Date(),
+): ProfileViewDay[] => {
+  const byDay = new Map(counts.map(c => [c.viewed_on, c.views]));
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = toDateKey(daysBefore(today, days - 1 - i));
+    return { date, views: byDay.get(date) ?? 0 };
+  });
+};
+
+/** Random id that lets the server count a signed-out visitor once per day */
+export const getVisitorId = (storage: Storage) => {
+  const existing = storage.getItem(VISITOR_ID_KEY);
+  if (existing) return existing;
+
+  const id = crypto.randomUUID();
+  storage.setItem(VISITOR_ID_KEY, id);
+  return id;
+};
@@ -0,0 +1,42 @@
+// React Query cache keys. Keys are nested so a mutation can invalidate a whole branch,
+// e.g. everything about one creator or every bookings list.
+
+import type { AdminCreatorFilters } from "./admin-creators";
+
+export const queryKeys = {
+  profile: (userId: string | undefined) => ["profile", userId] as const,
+
+  creatorProfile: (userId: string | undefined) => ["creator-profile", userId] as const,
+
+  creator: (creatorId: string) => ["creator", creatorId] as const,
+  publicCreator: (creatorId: string | undefined) => ["creator", creatorId, "public"] as const,
+  creatorSpecializations: (creatorId: string) => ["creator", creatorId, "specializations"] as const,
+  creatorPortfolio: (creatorId: string) => ["creator", creatorId, "portfolio"] as const,
+  creatorPricing: (creatorId: string) => ["creator", creatorId, "pricing"] as const,
+  creatorAvailability: (creatorId: string) => ["creator", creatorId, "availability"] as const,
+  creatorBanking: (creatorId: string) => ["creator", creatorId, "banking"] as const,
+  creatorReviews: (creatorId: string) => ["creator", creatorId, "reviews"] as const,
+  creatorEarnings: (creatorId: string) => ["creator", creatorId, "earnings"] as const,
+  creatorProfileViews: (creatorId: string) => ["creator", creatorId, "profile-views"] as const,
+  creatorBusySlots: (creatorId: string | undefined, from: string, to: string) =>
+    ["creator", creatorId, "busy-slots", from, to] as const,
+  creatorSearch: (params: object) => ["creator-search", params] as const,
+
+  bookings: () => ["bookings"] as const,
+  influencerBookings: (userId: string | undefined) => ["bookings", "influencer", userId] as const,
+  creatorBookings: (creatorId: string | undefined) => ["bookings", "creator", creatorId] as const,
+  bookingMessages: (bookingId: string | null) => ["booking-messages", bookingId] as const,
+
+  notifications: (userId: string | undefined) => ["notifications", userId] as const,
+  unreadNotifications: (userId: string | undefined) => ["notifications", userId, "unread"] as const,
+
+  platformSettings: () => ["platform-settings"] as const,
+
+  admin: () => ["admin"] as const,
+  adminStats: () => ["admin", "stats"] as const,
+  adminCreators: (filters: AdminCreatorFilters) => ["admin", "creators", filters] as const,
+  adminReviews: () => ["admin", "reviews"] as const,
+  adminInfluencers: (search: string) => ["admin", "influencers", search] as const,
+  adminInfluencer: (userId: string | null) => ["admin", "influencer", userId] as const,
+  payoutBatches: () => ["admin", "payout-batches"] as const,
+};
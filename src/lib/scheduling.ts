@@ -0,0 +1,199 @@
+// Slot generation for creator bookings.
+//
+// Pure functions only: no Supabase, no React, no reliance on the runtime time zone.
+// Dates are "yyyy-MM-dd" strings and times are "HH:MM" (or "HH:MM:SS" as Postgres returns
+// them), both interpreted as the creator's local wall-clock time. "Now" is passed in on
+// the same clock (see wallClockAt), so a viewer in another time zone sees the same slots.
+//
+// The server enforces the same rules with booking_slot_problem and package_duration_minutes
+// in SQL; src/test/booking-slots.test.ts checks the two agree.
+
+export interface AvailabilityWindow {
+  day_of_week: number; // 0 = Sunday
+  start_time: string;
+  end_time: string;
+  is_available: boolean | null;
+}
+
+export interface ExistingBooking {
+  booking_date: string;
+  booking_time: string;
+  duration_minutes: number;
+  status: string;
+}
+
+export interface Slot {
+  date: string;
+  start: string;
+  end: string;
+}
+
+/** A moment as shown on the creator's clock */
+export interface WallClock {
+  date: string;
+  /** Minutes since midnight */
+  minutes: number;
+}
+
+export interface SchedulingOptions {
+  /** Gap kept free before and after every existing booking */
+  bufferMinutes: number;
+  /** How far ahead of `now` the earliest slot may start */
+  minimumNoticeMinutes: number;
+  /** Spacing between candidate start times */
+  slotIntervalMinutes: number;
+}
+
+export const DEFAULT_SCHEDULING_OPTIONS: SchedulingOptions = {
+  bufferMinutes: 30,
+  minimumNoticeMinutes: 24 * 60,
+  slotIntervalMinutes: 60,
+};
+
+export const DEFAULT_DURATION_MINUTES = 60;
+
+// Creators are all based in India, so availability is kept in Indian time
+export const CREATOR_TIME_ZONE = "Asia/Kolkata";
+
+// Only these statuses occupy the creator's calendar
+const BLOCKING_STATUSES = ["pending", "confirmed"];
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_DAY = MINUTES_PER_DAY * 60 * 1000;
+
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+};
+
+const dateToDayNumber = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY;
+};
+
+const dayNumberToDate = (dayNumber: number) => {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10);
+};
+
+const dayOfWeek = (date: string) => new Date(dateToDayNumber(date) * MS_PER_DAY).getUTCDay();
+
+// Minutes since the epoch on the wall clock, so dates and times compare as one number
+const toAbsoluteMinutes = (date: string, minutes: number) => dateToDayNumber(date) * MINUTES_PER_DAY + minutes;
+
+/** What a clock in `timeZone` shows at the instant `now` */
+export const wallClockAt = (now: Date, timeZone = CREATOR_TIME_ZONE): WallClock => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map(part => [part.type, part.value]),
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+/**
+ * Best-effort duration from a package's free-text hours_range ("2-3 hours", "90 minutes").
+ * Uses the upper bound so the creator is never double-booked.
+ */
+export const parseDurationMinutes = (hoursRange: string | null | undefined) => {
+  if (!hoursRange) return DEFAULT_DURATION_MINUTES;
+  const numbers = hoursRange.match(/\d+(\.\d+)?/g)?.map(Number);
+  if (!numbers || numbers.length === 0) return DEFAULT_DURATION_MINUTES;
+  const upper = Math.max(...numbers);
+  const minutes = /min/i.test(hoursRange) ? upper : upper * 60;
+  return minutes > 0 ? Math.round(minutes) : DEFAULT_DURATION_MINUTES;
+};
+
+/**
+ * Whether a booking of `durationMinutes` may start at `date`/`start`.
+ * This is the single rule used both for listing slots and for validating a requested slot.
+ */
+export const isSlotFree = (
+  availability: AvailabilityWindow[],
+  bookings: ExistingBooking[],
+  date: string,
+  start: string,
+  durationMinutes: number,
+  now: WallClock,
+  options: SchedulingOptions = DEFAULT_SCHEDULING_OPTIONS,
+) => {
+  const window = availability.find(a => a.day_of_week === dayOfWeek(date) && a.is_available);
+  if (!window) return false;
+
+  const startMinutes = timeToMinutes(start);
+  const endMinutes = startMinutes + durationMinutes;
+  if (startMinutes < timeToMinutes(window.start_time) || endMinutes > timeToMinutes(window.end_time)) {
+    return false;
+  }
+
+  if (toAbsoluteMinutes(date, startMinutes) < toAbsoluteMinutes(now.date, now.minutes) + options.minimumNoticeMinutes) {
+    return false;
+  }
+
+  const slotStart = toAbsoluteMinutes(date, startMinutes);
+  const slotEnd = slotStart + durationMinutes;
+
+  return !bookings.some((booking) => {
+    if (!BLOCKING_STATUSES.includes(booking.status)) return false;
+    const bookingStart = toAbsoluteMinutes(booking.booking_date, timeToMinutes(booking.booking_time));
+    const bookingEnd = bookingStart + booking.duration_minutes;
+    return slotStart < bookingEnd + options.bufferMinutes && slotEnd > bookingStart - options.bufferMinutes;
+  });
+};
+
+/**
+ * All free slots between `from` and `to` (inclusive) for a package of `durationMinutes`.
+ */
+export const generateSlots = (
+  availability: AvailabilityWindow[],
+  bookings: ExistingBooking[],
+  durationMinutes: number,
+  range: { from: string; to: string },
+  now: WallClock,
+  options: SchedulingOptions = DEFAULT_SCHEDULING_OPTIONS,
+): Slot[] => {
+  const slots: Slot[] = [];
+  const lastDay = dateToDayNumber(range.to);
+
+  for (let day = dateToDayNumber(range.from); day <= lastDay; day++) {
+    const date = dayNumberToDate(day);
+    const window = availability.find(a => a.day_of_week === dayOfWeek(date) && a.is_available);
+    if (!window) continue;
+
+    const windowEnd = timeToMinutes(window.end_time);
+    for (
+      let start = timeToMinutes(window.start_time);
+      start + durationMinutes <= windowEnd;
+      start += options.slotIntervalMinutes
+    ) {
+      const startTime = minutesToTime(start);
+      if (isSlotFree(availability, bookings, date, startTime, durationMinutes, now, options)) {
+        slots.push({ date, start: startTime, end: minutesToTime(start + durationMinutes) });
+      }
+    }
+  }
+
+  return slots;
+};
+
+export const groupSlotsByDate = (slots: Slot[]) => {
+  return slots.reduce<Record<string, Slot[]>>((groups, slot) => {
+    (groups[slot.date] ||= []).push(slot);
+    return groups;
+  }, {});
+};
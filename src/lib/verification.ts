@@ -0,0 +1,39 @@
+// Creator verification (KYC).
+//
+// Creators upload an ID document once onboarding is done; an admin approves or rejects
+// it with review_creator_verification. Only approved creators are discoverable.
+
+export type VerificationStatus = "pending_review" | "approved" | "rejected" | "suspended";
+
+export const VERIFICATION_BUCKET = "creator-verification";
+
+export const MAX_ID_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  pending_review: "Pending review",
+  approved: "Approved",
+  rejected: "Rejected",
+  suspended: "Suspended",
+};
+
+/** Decisions an admin can make from each status. Mirrors review_creator_verification. */
+export const REVIEW_ACTIONS: Record<VerificationStatus, VerificationStatus[]> = {
+  pending_review: ["approved", "rejected"],
+  approved: ["suspended"],
+  rejected: ["approved"],
+  suspended: ["approved"],
+};
+
+export const requiresReason = (status: VerificationStatus) => status === "rejected" || status === "suspended";
+
+/** Creators can (re)submit a document until it has been approved */
+export const canSubmitDocument = (status: string) => status === "pending_review" || status === "rejected";
+
+/**
+ * Storage path for an ID document. The first folder must be the creator id,
+ * which is what the bucket's access policies check.
+ */
+export const buildIdDocumentPath = (creatorId: string, fileName: string) => {
+  const extension = fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase().replace(/[^a-z0-9]/g, "") : "";
+  return `${creatorId}/${Date.now()}-id${extension ? `.${extension}` : ""}`;
+};
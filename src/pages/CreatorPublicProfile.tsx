@@ -0,0 +1,265 @@
+import { useParams, Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import PortfolioGallery from "@/components/creator/PortfolioGallery";
+import StarRating from "@/components/reviews/StarRating";
+import UserAvatar from "@/components/avatar/UserAvatar";
+import NotFound from "./NotFound";
+import { usePublicCreator } from "@/hooks/use-public-creators";
+import { useCreatorSpecializations } from "@/hooks/use-creator-specializations";
+import { useCreatorPortfolio } from "@/hooks/use-creator-portfolio";
+import { useCreatorPricing } from "@/hooks/use-creator-pricing";
+import { useCreatorAvailability } from "@/hooks/use-creator-availability";
+import { usePublicCreatorReviews } from "@/hooks/use-reviews";
+import { useRecordProfileView } from "@/hooks/use-profile-views";
+import { formatSpecialization } from "@/lib/creator-options";
+import { Loader2, MapPin, Globe, Calendar, Clock, Image, Star } from "lucide-react";
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const SKILL_LEVEL_CLASSES: Record<string, string> = {
+  expert: "bg-purple-100 text-purple-700",
+  intermediate: "bg-yellow-100 text-yellow-700",
+  beginner: "bg-green-100 text-green-700",
+};
+
+const CreatorPublicProfile = () => {
+  const { id } = useParams<{ id: string }>();
+
+  const creatorQuery = usePublicCreator(id);
+  const specializationsQuery = useCreatorSpecializations(id || "");
+  const portfolioQuery = useCreatorPortfolio(id || "");
+  const pricingQuery = useCreatorPricing(id);
+  const availabilityQuery = useCreatorAvailability(id);
+  const reviewsQuery = usePublicCreatorReviews(id);
+  useRecordProfileView(id);
+
+  const creator = creatorQuery.data;
+  const specializations = specializationsQuery.data || [];
+  const portfolio = portfolioQuery.data || [];
+  const packages = (pricingQuery.data || []).filter(p => p.is_active);
+  const availability = availabilityQuery.data || [];
+  const reviews = reviewsQuery.data || [];
+  const isLoadingData = [
+    creatorQuery,
+    specializationsQuery,
+    portfolioQuery,
+    pricingQuery,
+    availabilityQuery,
+    reviewsQuery,
+  ].some(query => query.isLoading);
+
+  if (isLoadingData) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+      </div>
+    );
+  }
+
+  if (!creator) {
+    return <NotFound />;
+  }
+
+  const bookingCta = (
+    <Button asChild className="bg-pink-600 hover:bg-pink-700">
+      <Link to={`/influencer/book/${creator.id}`}>Book this creator</Link>
+    </Button>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="border-b bg-white shadow-sm">
+        <div className="container mx-auto flex flex-col gap-4 px-4 py-6 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-4">
+            <UserAvatar
+              url={creator.profile_picture_url}
+              name={creator.full_name}
+              accent="purple"
+              className="h-20 w-20 text-2xl"
+            />
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">{creator.full_name || "Creator"}</h1>
+              {(creator.city || creator.state) && (
+                <p className="flex items-center gap-1 text-sm text-slate-500">
+                  <MapPin className="h-3.5 w-3.5" />
+                  {[creator.city, creator.state].filter(Boolean).join(", ")}
+                </p>
+              )}
+              {creator.languages && creator.languages.length > 0 && (
+                <p className="flex items-center gap-1 text-sm text-slate-500">
+                  <Globe className="h-3.5 w-3.5" />
+                  {creator.languages.join(", ")}
+                </p>
+              )}
+              {creator.avg_rating !== null && (
+                <p className="flex items-center gap-1 text-sm text-slate-500">
+                  <StarRating value={creator.avg_rating} size="sm" />
+                  {creator.avg_rating} · {creator.review_count} review{creator.review_count === 1 ? "" : "s"}
+                </p>
+              )}
+            </div>
+          </div>
+          {bookingCta}
+        </div>
+      </header>
+
+      <main className="container mx-auto grid gap-6 px-4 py-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          {creator.bio && (
+            <Card>
+              <CardHeader>
+                <CardTitle>About</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="whitespace-pre-line text-slate-600">{creator.bio}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {specializations.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Specializations</CardTitle>
+              </CardHeader>
+              <CardContent className="grid gap-2 sm:grid-cols-2">
+                {specializations.map((spec) => (
+                  <div key={spec.category} className="flex items-center justify-between rounded-lg bg-slate-50 p-2 text-sm">
+                    <span>{formatSpecialization(spec.category)}</span>
+                    <Badge variant="secondary" className={`capitalize ${SKILL_LEVEL_CLASSES[spec.skill_level] || ""}`}>
+                      {spec.skill_level}
+                    </Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Image className="h-5 w-5 text-purple-600" />
+                Portfolio
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {portfolio.length === 0 ? (
+                <p className="py-8 text-center text-sm text-slate-500">No portfolio items yet</p>
+              ) : (
+                <PortfolioGallery items={portfolio} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Star className="h-5 w-5 text-purple-600" />
+                Reviews
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {reviews.length === 0 ? (
+                <p className="py-8 text-center text-sm text-slate-500">No reviews yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {reviews.map((review) => (
+                    <div key={review.id} className="border-b pb-4 last:border-0 last:pb-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <StarRating value={review.rating || 0} size="sm" />
+                          <span className="text-sm font-medium text-slate-700">
+                            {review.reviewer_name || "Influencer"}
+                          </span>
+                        </div>
+                        {review.created_at && (
+                          <span className="text-xs text-slate-400">
+                            {new Date(review.created_at).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      {review.comment && <p className="mt-2 text-sm text-slate-600">{review.comment}</p>}
+                      {review.creator_reply && (
+                        <div className="mt-2 rounded-md bg-purple-50 p-3 text-sm">
+                          <p className="font-medium text-purple-700">Reply from {creator.full_name || "the creator"}</p>
+                          <p className="text-slate-600">{review.creator_reply}</p>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Packages</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {packages.length === 0 ? (
+                <p className="text-sm text-slate-500">No packages available right now</p>
+              ) : (
+                packages.map((pkg) => (
+                  <div key={pkg.id} className="rounded-lg border p-3">
+                    <div className="mb-1 flex items-center justify-between">
+                      <span className="font-medium text-slate-900">{pkg.package_name}</span>
+                      <span className="font-bold text-purple-600">₹{pkg.price}</span>
+                    </div>
+                    <p className="flex items-center gap-1 text-sm text-slate-500">
+                      <Clock className="h-3.5 w-3.5" />
+                      {pkg.hours_range}
+                    </p>
+                    {pkg.description && <p className="mt-2 text-sm text-slate-600">{pkg.description}</p>}
+                    {pkg.includes && pkg.includes.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {pkg.includes.map((item, i) => (
+                          <Badge key={i} variant="outline" className="text-xs">
+                            {item}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+              {packages.length > 0 && <div className="pt-2">{bookingCta}</div>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="h-5 w-5 text-purple-600" />
+                Availability
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {DAYS.map((day, i) => {
+                const avail = availability.find(a => a.day_of_week === i);
+                return (
+                  <div key={day} className="flex items-center justify-between text-sm">
+                    <span className="text-slate-600">{day}</span>
+                    {avail?.is_available ? (
+                      <span className="text-green-700">
+                        {avail.start_time.slice(0, 5)} - {avail.end_time.slice(0, 5)}
+                      </span>
+                    ) : (
+                      <span className="text-slate-400">Unavailable</span>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default CreatorPublicProfile;
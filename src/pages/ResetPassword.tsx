@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useNavigate, Link } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { PORTALS } from "@/lib/auth-routes";
+import { ArrowLeft, KeyRound, Loader2 } from "lucide-react";
+import { z } from "zod";
+
+const passwordSchema = z.string().min(6, "Must be at least 6 characters");
+
+// Supabase reports an expired or already used link in the URL fragment
+const getLinkError = () => new URLSearchParams(window.location.hash.slice(1)).get("error_description");
+
+/** Where password reset emails lead; the link signs the user in so they can pick a new password */
+const ResetPassword = () => {
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { user, userRole, isLoading, updatePassword } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = passwordSchema.safeParse(password);
+    if (!result.success) {
+      setError(result.error.errors[0].message);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+    setError(null);
+
+    setIsSubmitting(true);
+    const { error } = await updatePassword(password);
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+      return;
+    }
+
+    toast({ title: "Password updated", description: "You're signed in with your new password." });
+    navigate(userRole ? PORTALS[userRole].home : "/", { replace: true });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <Loader2 className="h-5 w-5 animate-spin text-pink-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50/30 p-6">
+      <div className="absolute top-8 left-8 z-10">
+        <Link
+          to="/"
+          className="flex items-center gap-2 text-sm font-medium text-slate-500 hover:text-pink-600 transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Home
+        </Link>
+      </div>
+
+      <Card className="w-full max-w-md border-slate-200 shadow-sm bg-white">
+        <CardContent className="pt-8 pb-10 px-8">
+          <div className="mb-8">
+            <div className="h-12 w-12 bg-pink-50 rounded-xl flex items-center justify-center mb-5">
+              <KeyRound className="h-6 w-6 text-pink-600" />
+            </div>
+            <h1 className="text-2xl font-bold text-slate-900 mb-1">Set a new password</h1>
+            <p className="text-slate-500 text-sm">
+              {user ? `For ${user.email}` : "Open the link from your password reset email to continue."}
+            </p>
+          </div>
+
+          {user ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="h-10 border-slate-200 focus-visible:ring-pink-600"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="h-10 border-slate-200 focus-visible:ring-pink-600"
+                  autoComplete="new-password"
+                  required
+                />
+                {error && <p className="text-xs text-red-500">{error}</p>}
+              </div>
+              <Button type="submit" className="w-full bg-pink-600 hover:bg-pink-700 h-10 font-medium" disabled={isSubmitting}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Update Password"}
+              </Button>
+            </form>
+          ) : (
+            <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+              {getLinkError() || "This reset link is invalid or has expired. Ask for a new one."}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -1,15 +1,27 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { useAdminAuth } from "@/contexts/AdminAuthContext";
-import { supabase } from "@/integrations/supabase/client";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useAdminCreators } from "@/hooks/use-admin-creators";
+import { useAdminStats } from "@/hooks/use-admin-stats";
+import { useAdminReviews, useSetReviewHidden, type AdminReview } from "@/hooks/use-reviews";
+import StarRating from "@/components/reviews/StarRating";
+import PayoutBatchesPanel from "@/components/payouts/PayoutBatchesPanel";
+import CreatorBankingDetails from "@/components/banking/CreatorBankingDetails";
+import VerificationQueue from "@/components/verification/VerificationQueue";
+import InfluencerManagementPanel from "@/components/influencers/InfluencerManagementPanel";
+import VerificationStatusBadge from "@/components/verification/VerificationStatusBadge";
+import UserAvatar from "@/components/avatar/UserAvatar";
+import { CREATOR_SORT_LABELS, type AdminCreator, type CreatorSort } from "@/lib/admin-creators";
+import { VERIFICATION_STATUS_LABELS, type VerificationStatus } from "@/lib/verification";
 import { 
-  Users, BarChart3, LogOut, Loader2, 
-  Palette, Sparkles, MapPin, Globe, DollarSign, Image, Calendar
+  Users, BarChart3, Loader2,
+  Palette, Sparkles, MapPin, Globe, DollarSign, Image, Calendar,
+  Star, Eye, EyeOff, Wallet, ShieldCheck, Search
 } from "lucide-react";
 import {
   Dialog,
@@ -19,218 +31,91 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 
-interface CreatorProfile {
-  id: string;
-  user_id: string;
-  bio: string | null;
-  state: string | null;
-  city: string | null;
-  languages: string[];
-  onboarding_completed: boolean;
-  created_at: string;
-  profile?: {
-    full_name: string | null;
-    email: string | null;
-  };
-  specializations?: Array<{
-    category: string;
-    skill_level: string;
-  }>;
-  pricing?: Array<{
-    package_name: string;
-    hours_range: string;
-    price: number;
-    includes: string[];
-  }>;
-  portfolio_count?: number;
-  banking?: {
-    bank_name: string | null;
-    upi_id: string | null;
-  };
-  availability?: Array<{
-    day_of_week: number;
-    start_time: string;
-    end_time: string;
-    is_available: boolean;
-  }>;
-}
-
-interface Stats {
-  totalBookings: number;
-  pendingBookings: number;
-  completedBookings: number;
-  totalInfluencers: number;
-  totalCreators: number;
-}
-
 const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
+// "onboarding" is not a verification status, it picks out creators who have not finished sign-up
+type CreatorStatusFilter = "all" | "onboarding" | VerificationStatus;
+
 const AdminDashboard = () => {
-  const { isAdminLoggedIn, adminLogout } = useAdminAuth();
-  const navigate = useNavigate();
   const { toast } = useToast();
   
-  const [creators, setCreators] = useState<CreatorProfile[]>([]);
-  const [stats, setStats] = useState<Stats>({
-    totalBookings: 0,
-    pendingBookings: 0,
-    completedBookings: 0,
-    totalInfluencers: 0,
-    totalCreators: 0,
+  const [creatorSearch, setCreatorSearch] = useState("");
+  const [creatorStatus, setCreatorStatus] = useState<CreatorStatusFilter>("all");
+  const [creatorSort, setCreatorSort] = useState<CreatorSort>("newest");
+  const {
+    creators,
+    totalCount: matchingCreators,
+    hasMore: hasMoreCreators,
+    isLoading: isLoadingCreators,
+    isLoadingMore: isLoadingMoreCreators,
+    loadMore: loadMoreCreators,
+  } = useAdminCreators({
+    search: creatorSearch,
+    verificationStatus: creatorStatus === "all" || creatorStatus === "onboarding" ? null : creatorStatus,
+    onboardingCompleted: creatorStatus === "all" ? null : creatorStatus !== "onboarding",
+    sort: creatorSort,
   });
-  const [isLoading, setIsLoading] = useState(true);
-  const [selectedCreator, setSelectedCreator] = useState<CreatorProfile | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const { data: stats, isLoading: isLoadingStats } = useAdminStats();
+  const { data: reviews = [] } = useAdminReviews();
+  const setReviewHidden = useSetReviewHidden();
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
+  const [selectedCreator, setSelectedCreator] = useState<AdminCreator | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
 
+  // Load the next page when the end of the list scrolls into view
   useEffect(() => {
-    if (!isAdminLoggedIn) {
-      navigate("/admin/login");
-    } else {
-      fetchData();
-    }
-  }, [isAdminLoggedIn, navigate]);
-
-  const fetchData = async () => {
-    setIsLoading(true);
-    await Promise.all([
-      fetchCreators(),
-      fetchStats(),
-    ]);
-    setIsLoading(false);
-  };
-
-  const fetchCreators = async () => {
-    // Fetch creator profiles
-    const { data: creatorsData, error } = await supabase
-      .from("creator_profiles")
-      .select("*")
-      .order("created_at", { ascending: false });
-
-    if (error || !creatorsData) {
-      console.error("Error fetching creators:", error);
-      return;
-    }
-
-    // Fetch additional data for each creator
-    const enrichedCreators = await Promise.all(
-      creatorsData.map(async (creator) => {
-        // Get profile
-        const { data: profileData } = await supabase
-          .from("profiles")
-          .select("full_name, email")
-          .eq("user_id", creator.user_id)
-          .maybeSingle();
-
-        // Get specializations
-        const { data: specsData } = await supabase
-          .from("creator_specializations")
-          .select("category, skill_level")
-          .eq("creator_id", creator.id);
-
-        // Get pricing
-        const { data: pricingData } = await supabase
-          .from("creator_pricing")
-          .select("package_name, hours_range, price, includes")
-          .eq("creator_id", creator.id);
-
-        // Get portfolio count
-        const { count: portfolioCount } = await supabase
-          .from("creator_portfolio")
-          .select("id", { count: "exact", head: true })
-          .eq("creator_id", creator.id);
-
-        // Get banking
-        const { data: bankingData } = await supabase
-          .from("creator_banking")
-          .select("bank_name, upi_id")
-          .eq("creator_id", creator.id)
-          .maybeSingle();
-
-        // Get availability
-        const { data: availData } = await supabase
-          .from("creator_availability")
-          .select("day_of_week, start_time, end_time, is_available")
-          .eq("creator_id", creator.id);
-
-        return {
-          ...creator,
-          profile: profileData,
-          specializations: specsData || [],
-          pricing: pricingData || [],
-          portfolio_count: portfolioCount || 0,
-          banking: bankingData,
-          availability: availData || [],
-        };
-      })
-    );
-
-    setCreators(enrichedCreators);
-  };
-
-  const fetchStats = async () => {
-    const { data: bookingsData } = await supabase
-      .from("bookings")
-      .select("status");
-
-    const { data: influencersData } = await supabase
-      .from("user_roles")
-      .select("id")
-      .eq("role", "customer");
-
-    const { data: creatorsData } = await supabase
-      .from("user_roles")
-      .select("id")
-      .eq("role", "team");
-
-    setStats({
-      totalBookings: bookingsData?.length || 0,
-      pendingBookings: bookingsData?.filter(b => b.status === "pending").length || 0,
-      completedBookings: bookingsData?.filter(b => b.status === "completed").length || 0,
-      totalInfluencers: influencersData?.length || 0,
-      totalCreators: creatorsData?.length || 0,
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMoreCreators) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMoreCreators();
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreCreators, loadMoreCreators]);
+
+  const toggleReviewHidden = (review: AdminReview, hidden: boolean) => {
+    setModeratingId(review.id);
+    setReviewHidden.mutate({ review, hidden }, {
+      onSuccess: () => {
+        toast({
+          title: hidden ? "Review hidden" : "Review restored",
+          description: hidden
+            ? "It no longer appears on the creator's profile or rating."
+            : "It is visible on the creator's profile again.",
+        });
+      },
+      onError: () => {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Could not update the review.",
+        });
+      },
+      onSettled: () => setModeratingId(null),
     });
   };
 
-  const viewCreatorDetails = (creator: CreatorProfile) => {
+  const viewCreatorDetails = (creator: AdminCreator) => {
     setSelectedCreator(creator);
     setDetailsOpen(true);
   };
 
-  const handleLogout = () => {
-    adminLogout();
-    navigate("/");
-  };
-
   const formatSpecialization = (cat: string) => {
     return cat.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase());
   };
 
-  if (isLoading) {
+  if (isLoadingStats) {
     return (
-      <div className="flex min-h-screen items-center justify-center">
+      <div className="flex justify-center py-24">
         <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen bg-slate-50">
-      {/* Header */}
-      <header className="border-b bg-white shadow-sm">
-        <div className="container mx-auto flex items-center justify-between px-4 py-4">
-          <div>
-            <h1 className="text-xl font-semibold text-slate-900">Admin Dashboard</h1>
-            <p className="text-sm text-slate-500">
-              Manage creators and platform analytics
-            </p>
-          </div>
-          <Button variant="ghost" onClick={handleLogout} className="text-slate-600">
-            <LogOut className="mr-2 h-4 w-4" />
-            Logout
-          </Button>
-        </div>
-      </header>
-
+    <>
       {/* Stats Cards */}
       <div className="container mx-auto px-4 py-6">
         <div className="grid gap-4 md:grid-cols-5">
@@ -240,7 +125,7 @@ const AdminDashboard = () => {
               <BarChart3 className="h-4 w-4 text-slate-400" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-slate-900">{stats.totalBookings}</div>
+              <div className="text-2xl font-bold text-slate-900">{stats?.totalBookings ?? 0}</div>
             </CardContent>
           </Card>
           <Card>
@@ -249,7 +134,7 @@ const AdminDashboard = () => {
               <BarChart3 className="h-4 w-4 text-yellow-500" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-slate-900">{stats.pendingBookings}</div>
+              <div className="text-2xl font-bold text-slate-900">{stats?.pendingBookings ?? 0}</div>
             </CardContent>
           </Card>
           <Card>
@@ -258,7 +143,7 @@ const AdminDashboard = () => {
               <BarChart3 className="h-4 w-4 text-green-500" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-slate-900">{stats.completedBookings}</div>
+              <div className="text-2xl font-bold text-slate-900">{stats?.completedBookings ?? 0}</div>
             </CardContent>
           </Card>
           <Card className="bg-pink-50 border-pink-200">
@@ -267,7 +152,7 @@ const AdminDashboard = () => {
               <Sparkles className="h-4 w-4 text-pink-500" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-pink-700">{stats.totalInfluencers}</div>
+              <div className="text-2xl font-bold text-pink-700">{stats?.totalInfluencers ?? 0}</div>
             </CardContent>
           </Card>
           <Card className="bg-purple-50 border-purple-200">
@@ -276,7 +161,7 @@ const AdminDashboard = () => {
               <Palette className="h-4 w-4 text-purple-500" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-purple-700">{stats.totalCreators}</div>
+              <div className="text-2xl font-bold text-purple-700">{stats?.totalCreators ?? 0}</div>
             </CardContent>
           </Card>
         </div>
@@ -290,27 +175,93 @@ const AdminDashboard = () => {
               <Palette className="h-4 w-4" />
               Creator Profiles
             </TabsTrigger>
+            <TabsTrigger value="verification" className="gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              Verification
+              {stats?.pendingVerifications > 0 && (
+                <Badge variant="secondary" className="ml-1 bg-amber-100 text-amber-700">
+                  {stats?.pendingVerifications ?? 0}
+                </Badge>
+              )}
+            </TabsTrigger>
             <TabsTrigger value="influencers" className="gap-2">
               <Sparkles className="h-4 w-4" />
               Influencers
             </TabsTrigger>
+            <TabsTrigger value="reviews" className="gap-2">
+              <Star className="h-4 w-4" />
+              Reviews
+            </TabsTrigger>
+            <TabsTrigger value="payouts" className="gap-2">
+              <Wallet className="h-4 w-4" />
+              Payouts
+            </TabsTrigger>
           </TabsList>
 
           {/* Creators Tab */}
           <TabsContent value="creators">
             <Card>
-              <CardHeader>
-                <CardTitle>All Creators</CardTitle>
-                <CardDescription>
-                  View all registered creators and their profile details
-                </CardDescription>
+              <CardHeader className="flex flex-col gap-4 space-y-0 lg:flex-row lg:items-start lg:justify-between">
+                <div>
+                  <CardTitle>All Creators</CardTitle>
+                  <CardDescription>
+                    View all registered creators and their profile details
+                  </CardDescription>
+                </div>
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <div className="relative w-full sm:w-64">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+                    <Input
+                      value={creatorSearch}
+                      onChange={(e) => setCreatorSearch(e.target.value)}
+                      placeholder="Search by name, email or city"
+                      className="pl-9"
+                    />
+                  </div>
+                  <Select value={creatorStatus} onValueChange={(value) => setCreatorStatus(value as CreatorStatusFilter)}>
+                    <SelectTrigger className="w-full sm:w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All statuses</SelectItem>
+                      <SelectItem value="onboarding">Onboarding</SelectItem>
+                      {(Object.keys(VERIFICATION_STATUS_LABELS) as VerificationStatus[]).map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {VERIFICATION_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={creatorSort} onValueChange={(value) => setCreatorSort(value as CreatorSort)}>
+                    <SelectTrigger className="w-full sm:w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CREATOR_SORT_LABELS) as CreatorSort[]).map((sort) => (
+                        <SelectItem key={sort} value={sort}>
+                          {CREATOR_SORT_LABELS[sort]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </CardHeader>
               <CardContent>
-                {creators.length === 0 ? (
+                {isLoadingCreators && creators.length === 0 ? (
+                  <div className="flex justify-center py-12">
+                    <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+                  </div>
+                ) : creators.length === 0 ? (
                   <div className="py-12 text-center text-slate-500">
                     <Palette className="mx-auto mb-4 h-12 w-12 opacity-40" />
-                    <p className="font-medium">No creators yet</p>
-                    <p className="text-sm mt-1">Creators will appear here after they sign up</p>
+                    {creatorSearch || creatorStatus !== "all" ? (
+                      <p className="font-medium">No creators match your filters</p>
+                    ) : (
+                      <>
+                        <p className="font-medium">No creators yet</p>
+                        <p className="text-sm mt-1">Creators will appear here after they sign up</p>
+                      </>
+                    )}
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -321,9 +272,12 @@ const AdminDashboard = () => {
                       >
                         <div className="space-y-2">
                           <div className="flex items-center gap-3">
-                            <div className="h-10 w-10 rounded-full bg-purple-100 flex items-center justify-center">
-                              <Palette className="h-5 w-5 text-purple-600" />
-                            </div>
+                            <UserAvatar
+                              url={creator.profile?.avatar_url}
+                              name={creator.profile?.full_name}
+                              accent="purple"
+                              className="h-10 w-10"
+                            />
                             <div>
                               <p className="font-medium text-slate-900">
                                 {creator.profile?.full_name || "Unnamed Creator"}
@@ -376,9 +330,11 @@ const AdminDashboard = () => {
                         </div>
 
                         <div className="flex items-center gap-3">
-                          <Badge variant={creator.onboarding_completed ? "default" : "secondary"}>
-                            {creator.onboarding_completed ? "Complete" : "Onboarding"}
-                          </Badge>
+                          {creator.onboarding_completed ? (
+                            <VerificationStatusBadge status={creator.verification_status} />
+                          ) : (
+                            <Badge variant="secondary">Onboarding</Badge>
+                          )}
                           <Button 
                             variant="outline" 
                             size="sm"
@@ -389,6 +345,13 @@ const AdminDashboard = () => {
                         </div>
                       </div>
                     ))}
+                    <div ref={loadMoreRef} className="flex justify-center py-2 text-sm text-slate-500">
+                      {isLoadingMoreCreators ? (
+                        <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+                      ) : (
+                        `Showing ${creators.length} of ${matchingCreators}`
+                      )}
+                    </div>
                   </div>
                 )}
               </CardContent>
@@ -397,22 +360,85 @@ const AdminDashboard = () => {
 
           {/* Influencers Tab */}
           <TabsContent value="influencers">
+            <InfluencerManagementPanel />
+          </TabsContent>
+
+          {/* Verification Tab */}
+          <TabsContent value="verification">
+            <VerificationQueue />
+          </TabsContent>
+
+          {/* Reviews Tab */}
+          <TabsContent value="reviews">
             <Card>
               <CardHeader>
-                <CardTitle>All Influencers</CardTitle>
+                <CardTitle>Reviews</CardTitle>
                 <CardDescription>
-                  View registered influencers who can book creators
+                  Hide abusive reviews from creator profiles and ratings
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="py-12 text-center text-slate-500">
-                  <Sparkles className="mx-auto mb-4 h-12 w-12 opacity-40" />
-                  <p className="font-medium">Influencer management coming soon</p>
-                  <p className="text-sm mt-1">This section will show registered influencers</p>
-                </div>
+                {reviews.length === 0 ? (
+                  <div className="py-12 text-center text-slate-500">
+                    <Star className="mx-auto mb-4 h-12 w-12 opacity-40" />
+                    <p className="font-medium">No reviews yet</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {reviews.map((review) => (
+                      <div
+                        key={review.id}
+                        className={`flex flex-col sm:flex-row sm:items-start justify-between gap-4 rounded-lg border p-4 ${
+                          review.is_hidden ? "bg-slate-50 opacity-75" : ""
+                        }`}
+                      >
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <StarRating value={review.rating} size="sm" />
+                            {review.is_hidden && <Badge variant="secondary">Hidden</Badge>}
+                          </div>
+                          <p className="text-sm text-slate-600">
+                            {review.reviewer?.full_name || review.reviewer?.email || "Influencer"} reviewed{" "}
+                            {review.creator_name || "a creator"}
+                            {" · "}
+                            {new Date(review.created_at).toLocaleDateString()}
+                          </p>
+                          {review.comment && <p className="text-sm text-slate-900">{review.comment}</p>}
+                          {review.creator_reply && (
+                            <p className="text-sm text-slate-500">Reply: {review.creator_reply}</p>
+                          )}
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleReviewHidden(review, !review.is_hidden)}
+                          disabled={moderatingId === review.id}
+                          className={review.is_hidden ? "" : "text-red-600 hover:text-red-700"}
+                        >
+                          {review.is_hidden ? (
+                            <>
+                              <Eye className="mr-1 h-3.5 w-3.5" />
+                              Unhide
+                            </>
+                          ) : (
+                            <>
+                              <EyeOff className="mr-1 h-3.5 w-3.5" />
+                              Hide
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Payouts Tab */}
+          <TabsContent value="payouts">
+            <PayoutBatchesPanel />
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -421,9 +447,12 @@ const AdminDashboard = () => {
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-3">
-              <div className="h-10 w-10 rounded-full bg-purple-100 flex items-center justify-center">
-                <Palette className="h-5 w-5 text-purple-600" />
-              </div>
+              <UserAvatar
+                url={selectedCreator?.profile?.avatar_url}
+                name={selectedCreator?.profile?.full_name}
+                accent="purple"
+                className="h-10 w-10"
+              />
               {selectedCreator?.profile?.full_name || "Creator Details"}
             </DialogTitle>
             <DialogDescription>
@@ -552,17 +581,11 @@ const AdminDashboard = () => {
               {selectedCreator.banking && (
                 <div>
                   <h4 className="text-sm font-medium text-slate-700 mb-2">Banking Details</h4>
-                  <div className="p-3 bg-slate-50 rounded-lg text-sm">
-                    {selectedCreator.banking.bank_name && (
-                      <p><span className="text-slate-500">Bank:</span> {selectedCreator.banking.bank_name}</p>
-                    )}
-                    {selectedCreator.banking.upi_id && (
-                      <p><span className="text-slate-500">UPI:</span> {selectedCreator.banking.upi_id}</p>
-                    )}
-                    {!selectedCreator.banking.bank_name && !selectedCreator.banking.upi_id && (
-                      <p className="text-slate-400 italic">No banking details provided</p>
-                    )}
-                  </div>
+                  <CreatorBankingDetails
+                    key={selectedCreator.id}
+                    creatorId={selectedCreator.id}
+                    banking={selectedCreator.banking}
+                  />
                 </div>
               )}
 
@@ -577,7 +600,7 @@ const AdminDashboard = () => {
           )}
         </DialogContent>
       </Dialog>
-    </div>
+    </>
   );
 };
 
@@ -1,11 +1,12 @@
 import { useState, useEffect } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useLocation, Link } from "react-router-dom";
 import { useAdminAuth } from "@/contexts/AdminAuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import { getPostSignInPath } from "@/lib/auth-routes";
 import { ArrowLeft, Loader2, ShieldCheck, Lock } from "lucide-react";
 
 const AdminLogin = () => {
@@ -14,38 +15,39 @@ const AdminLogin = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
   
-  const { adminLogin, isAdminLoggedIn } = useAdminAuth();
+  const { adminLogin, isAdminLoggedIn, isLoading } = useAdminAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const redirectTo = getPostSignInPath("admin", location.state);
 
   useEffect(() => {
-    if (isAdminLoggedIn) {
-      navigate("/admin/dashboard");
+    if (!isLoading && isAdminLoggedIn) {
+      navigate(redirectTo, { replace: true });
     }
-  }, [isAdminLoggedIn, navigate]);
+  }, [isAdminLoggedIn, isLoading, navigate, redirectTo]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     setIsSubmitting(true);
     
-    // Functionality preserved from original code
-    const result = adminLogin(email, password);
+    const { error } = await adminLogin(email, password);
     
-    if (result.success) {
+    if (error) {
+      setError(error.message || "Invalid credentials");
+    } else {
       toast({
         title: "Welcome back",
         description: "Admin session authenticated successfully.",
       });
-      navigate("/admin/dashboard");
-    } else {
-      setError(result.error || "Invalid credentials");
+      navigate(redirectTo, { replace: true });
     }
     
     setIsSubmitting(false);
   };
 
-  if (isSubmitting && !error) {
+  if (isLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-white">
         <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
@@ -80,11 +82,11 @@ const AdminLogin = () => {
             </p>
           </div>
 
-          {/* Demo Alert - Stylized */}
+          {/* Access Note - Stylized */}
           <Alert className="mb-6 border-blue-100 bg-blue-50/50 text-blue-700 py-3">
             <AlertDescription className="text-[12px] font-medium flex items-center gap-2">
               <span className="font-bold uppercase tracking-wider text-[10px] bg-blue-100 px-1.5 py-0.5 rounded">Note</span>
-              admin@example.com / admin123
+              Only accounts granted the admin role can sign in here.
             </AlertDescription>
           </Alert>
           
@@ -94,7 +96,7 @@ const AdminLogin = () => {
               <Input
                 id="admin-email"
                 type="email"
-                placeholder="admin@example.com"
+                placeholder="you@company.com"
                 className="h-11 border-slate-200 focus:ring-blue-600"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useLocation, Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,6 +7,8 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { getPostSignInPath } from "@/lib/auth-routes";
+import ClaimRolePrompt from "@/components/auth/ClaimRolePrompt";
 import { ArrowLeft, Loader2, Palette, Check } from "lucide-react";
 import { z } from "zod";
 
@@ -22,13 +24,15 @@ const CreatorAuth = () => {
   
   const { signIn, signUp, user, userRole, isLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const redirectTo = getPostSignInPath("team", location.state);
 
   useEffect(() => {
     if (!isLoading && user && userRole === "team") {
-      navigate("/creator/dashboard");
+      navigate(redirectTo, { replace: true });
     }
-  }, [user, userRole, isLoading, navigate]);
+  }, [user, userRole, isLoading, navigate, redirectTo]);
 
   const validateForm = () => {
     const newErrors: { email?: string; password?: string } = {};
@@ -74,7 +78,7 @@ const CreatorAuth = () => {
       toast({ variant: "destructive", title: "Sign up failed", description: errorMessage });
     } else {
       toast({ title: "Account created!", description: "Welcome to the creator portal." });
-      navigate("/creator/dashboard");
+      navigate(redirectTo, { replace: true });
     }
     setIsSubmitting(false);
   };
@@ -87,6 +91,11 @@ const CreatorAuth = () => {
     );
   }
 
+  // Accounts from before roles were assigned at signup choose to join this portal
+  if (user && !userRole) {
+    return <ClaimRolePrompt role="team" />;
+  }
+
   return (
     <div className="flex min-h-screen bg-slate-50/50 font-sans antialiased text-slate-900 relative">
       
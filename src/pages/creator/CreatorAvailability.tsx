@@ -0,0 +1,18 @@
+import { Calendar } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import CreatorManagePage from "@/components/creator/CreatorManagePage";
+import Step5Availability from "@/components/creator/onboarding/Step5Availability";
+
+const CreatorAvailability = () => (
+  <CreatorManagePage icon={Calendar} title="Availability" description="Set your schedule">
+    {(creatorId) => (
+      <Card>
+        <CardContent className="pt-6">
+          <Step5Availability creatorId={creatorId} mode="standalone" />
+        </CardContent>
+      </Card>
+    )}
+  </CreatorManagePage>
+);
+
+export default CreatorAvailability;
@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useCreatorProfile } from "@/hooks/use-creator-profile";
+import {
+  useCreatorBookings,
+  useProposeBookingTime,
+  useTransitionBooking,
+  type CreatorBooking,
+} from "@/hooks/use-bookings";
+import BookingStatusBadge from "@/components/bookings/BookingStatusBadge";
+import PaymentStatusBadge from "@/components/bookings/PaymentStatusBadge";
+import BookingMessagesDialog from "@/components/bookings/BookingMessagesDialog";
+import PageHeader from "@/components/layout/PageHeader";
+import { canTransition, canProposeNewTime, type BookingStatus } from "@/lib/booking-status";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Loader2, CalendarDays, Check, X, Clock, CheckCircle, Inbox, MessageSquare
+} from "lucide-react";
+
+const STATUS_MESSAGES: Record<BookingStatus, string> = {
+  pending: "Booking moved back to pending.",
+  confirmed: "Booking accepted. The influencer has been notified.",
+  cancelled: "Booking declined. The influencer has been notified.",
+  completed: "Booking marked as completed.",
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+
+const CreatorBookings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: creatorProfile, isLoading: isLoadingProfile } = useCreatorProfile(user?.id);
+  const creatorId = creatorProfile?.id;
+  const { data: bookings = [], isLoading: isLoadingBookings } = useCreatorBookings(creatorId);
+  const transitionBooking = useTransitionBooking(creatorId);
+  const proposeBookingTime = useProposeBookingTime();
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const isLoadingData = isLoadingProfile || isLoadingBookings;
+
+  // Propose new time dialog
+  const [proposalBooking, setProposalBooking] = useState<CreatorBooking | null>(null);
+  const [proposedDate, setProposedDate] = useState("");
+  const [proposedTime, setProposedTime] = useState("");
+
+  const [messagesBooking, setMessagesBooking] = useState<CreatorBooking | null>(null);
+
+  const updateStatus = (booking: CreatorBooking, status: BookingStatus) => {
+    if (!canTransition(booking.status, status, "creator")) {
+      toast({
+        variant: "destructive",
+        title: "Not allowed",
+        description: `A ${booking.status} booking cannot be marked as ${status}.`,
+      });
+      return;
+    }
+
+    setUpdatingId(booking.id);
+    transitionBooking.mutate(
+      { bookingId: booking.id, status },
+      {
+        onSuccess: () => {
+          toast({ title: "Booking updated", description: STATUS_MESSAGES[status] });
+        },
+        onError: () => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Could not update the booking. It may have changed, please refresh.",
+          });
+        },
+        onSettled: () => setUpdatingId(null),
+      }
+    );
+  };
+
+  const openProposal = (booking: CreatorBooking) => {
+    setProposalBooking(booking);
+    setProposedDate(booking.booking_date);
+    setProposedTime(booking.booking_time.slice(0, 5));
+  };
+
+  const submitProposal = () => {
+    if (!proposalBooking || !proposedDate || !proposedTime) return;
+    setUpdatingId(proposalBooking.id);
+
+    proposeBookingTime.mutate(
+      { bookingId: proposalBooking.id, date: proposedDate, time: proposedTime },
+      {
+        onSuccess: () => {
+          toast({
+            title: "New time proposed",
+            description: "The influencer will be asked to accept it.",
+          });
+          setProposalBooking(null);
+        },
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "Could not propose a new time",
+            description: error.message,
+          });
+        },
+        onSettled: () => setUpdatingId(null),
+      }
+    );
+  };
+
+  const requests = bookings.filter(b => b.status === "pending");
+  const upcoming = bookings.filter(b => b.status === "confirmed");
+  const past = bookings.filter(b => b.status === "completed" || b.status === "cancelled");
+
+  const renderBooking = (booking: CreatorBooking) => {
+    const isUpdating = updatingId === booking.id;
+
+    return (
+      <div
+        key={booking.id}
+        className="flex flex-col gap-4 rounded-lg border p-4 lg:flex-row lg:items-center lg:justify-between"
+      >
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <p className="font-medium text-slate-900">{booking.package?.package_name || "Package"}</p>
+            <BookingStatusBadge status={booking.status} />
+            {booking.payment && (
+              <PaymentStatusBadge status={booking.payment.status} amount={booking.payment.amount} />
+            )}
+          </div>
+          <p className="text-sm text-slate-600">
+            {booking.customer?.full_name || booking.customer?.email || "Influencer"}
+            {booking.package && <span className="text-purple-600"> · ₹{booking.package.price}</span>}
+          </p>
+          <p className="flex items-center gap-1 text-sm text-slate-500">
+            <CalendarDays className="h-3.5 w-3.5" />
+            {formatDate(booking.booking_date)} at {booking.booking_time.slice(0, 5)}
+            {booking.package && <span className="text-slate-400"> · {booking.package.hours_range}</span>}
+          </p>
+          {booking.proposed_date && booking.proposed_time && (
+            <p className="text-sm text-amber-700">
+              Proposed {formatDate(booking.proposed_date)} at {booking.proposed_time.slice(0, 5)}, awaiting influencer
+            </p>
+          )}
+          {booking.notes && (
+            <p className="text-sm text-slate-400">{booking.notes}</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setMessagesBooking(booking)} className="text-purple-600">
+            <MessageSquare className="mr-1 h-3.5 w-3.5" />
+            Messages
+          </Button>
+          {canTransition(booking.status, "confirmed", "creator") && (
+            <Button
+              size="sm"
+              onClick={() => updateStatus(booking, "confirmed")}
+              disabled={isUpdating}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              {isUpdating ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Check className="mr-1 h-3.5 w-3.5" />}
+              Accept
+            </Button>
+          )}
+          {canTransition(booking.status, "completed", "creator") && (
+            <Button
+              size="sm"
+              onClick={() => updateStatus(booking, "completed")}
+              disabled={isUpdating}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              <CheckCircle className="mr-1 h-3.5 w-3.5" />
+              Mark completed
+            </Button>
+          )}
+          {canProposeNewTime(booking.status) && (
+            <Button size="sm" variant="outline" onClick={() => openProposal(booking)} disabled={isUpdating}>
+              <Clock className="mr-1 h-3.5 w-3.5" />
+              Propose new time
+            </Button>
+          )}
+          {canTransition(booking.status, "cancelled", "creator") && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateStatus(booking, "cancelled")}
+              disabled={isUpdating}
+              className="text-red-600 hover:text-red-700"
+            >
+              <X className="mr-1 h-3.5 w-3.5" />
+              {booking.status === "pending" ? "Decline" : "Cancel"}
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderList = (items: CreatorBooking[], emptyMessage: string) => (
+    items.length === 0 ? (
+      <div className="py-12 text-center text-slate-500">
+        <Inbox className="mx-auto mb-4 h-12 w-12 opacity-40" />
+        <p className="font-medium">{emptyMessage}</p>
+      </div>
+    ) : (
+      <div className="space-y-3">{items.map(renderBooking)}</div>
+    )
+  );
+
+  if (isLoadingData) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+      </div>
+    );
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="mb-6">
+        <PageHeader
+          accent="purple"
+          icon={CalendarDays}
+          title="Bookings"
+          description="Manage requests from influencers"
+        />
+      </div>
+
+      {!creatorId ? (
+        <Card>
+          <CardContent className="py-12 text-center text-slate-500">
+            Complete your creator onboarding to start receiving bookings.
+          </CardContent>
+        </Card>
+      ) : (
+        <Tabs defaultValue="requests" className="space-y-6">
+          <TabsList className="bg-white border">
+            <TabsTrigger value="requests">Requests ({requests.length})</TabsTrigger>
+            <TabsTrigger value="upcoming">Upcoming ({upcoming.length})</TabsTrigger>
+            <TabsTrigger value="past">Past ({past.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="requests">
+            <Card>
+              <CardHeader>
+                <CardTitle>Incoming Requests</CardTitle>
+                <CardDescription>Accept, decline or propose a different time</CardDescription>
+              </CardHeader>
+              <CardContent>{renderList(requests, "No pending requests")}</CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="upcoming">
+            <Card>
+              <CardHeader>
+                <CardTitle>Upcoming</CardTitle>
+                <CardDescription>Confirmed bookings</CardDescription>
+              </CardHeader>
+              <CardContent>{renderList(upcoming, "No upcoming bookings")}</CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="past">
+            <Card>
+              <CardHeader>
+                <CardTitle>Past</CardTitle>
+                <CardDescription>Completed and cancelled bookings</CardDescription>
+              </CardHeader>
+              <CardContent>{renderList(past, "No past bookings")}</CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+
+      {/* Propose New Time Dialog */}
+      <Dialog open={!!proposalBooking} onOpenChange={(open) => !open && setProposalBooking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Propose a new time</DialogTitle>
+            <DialogDescription>
+              The influencer will be notified and can accept the new time or cancel.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="proposed-date">Date</Label>
+              <Input
+                id="proposed-date"
+                type="date"
+                value={proposedDate}
+                onChange={(e) => setProposedDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposed-time">Time</Label>
+              <Input
+                id="proposed-time"
+                type="time"
+                value={proposedTime}
+                onChange={(e) => setProposedTime(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setProposalBooking(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={submitProposal}
+              disabled={!proposedDate || !proposedTime || updatingId === proposalBooking?.id}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              Send Proposal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <BookingMessagesDialog
+        bookingId={messagesBooking?.id ?? null}
+        userId={user?.id}
+        title={`Chat with ${messagesBooking?.customer?.full_name || "the influencer"}`}
+        description={messagesBooking?.package?.package_name}
+        accent="purple"
+        onClose={() => setMessagesBooking(null)}
+      />
+    </main>
+  );
+};
+
+export default CreatorBookings;
@@ -1,69 +1,28 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
+import { useCreatorProfile } from "@/hooks/use-creator-profile";
 import { Loader2 } from "lucide-react";
 import CreatorOnboarding from "@/components/creator/CreatorOnboarding";
 import CreatorMainDashboard from "@/components/creator/CreatorMainDashboard";
 
 const CreatorDashboard = () => {
-  const { user, userRole, isLoading } = useAuth();
-  const navigate = useNavigate();
-  const [creatorProfile, setCreatorProfile] = useState<any>(null);
-  const [isLoadingProfile, setIsLoadingProfile] = useState(true);
+  const { user } = useAuth();
+  const { data: creatorProfile, isLoading: isLoadingProfile } = useCreatorProfile(user?.id);
 
-  useEffect(() => {
-    if (!isLoading && (!user || userRole !== "team")) {
-      navigate("/creator/auth");
-    }
-  }, [user, userRole, isLoading, navigate]);
-
-  useEffect(() => {
-    if (user && userRole === "team") {
-      fetchCreatorProfile();
-    }
-  }, [user, userRole]);
-
-  const fetchCreatorProfile = async () => {
-    setIsLoadingProfile(true);
-    
-    const { data, error } = await supabase
-      .from("creator_profiles")
-      .select("*")
-      .eq("user_id", user?.id)
-      .maybeSingle();
-
-    if (error) {
-      console.error("Error fetching creator profile:", error);
-    }
-    
-    setCreatorProfile(data);
-    setIsLoadingProfile(false);
-  };
-
-  const handleOnboardingComplete = () => {
-    fetchCreatorProfile();
-  };
-
-  if (isLoading || isLoadingProfile) {
+  if (isLoadingProfile) {
     return (
-      <div className="flex min-h-screen items-center justify-center">
+      <div className="flex justify-center py-24">
         <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
       </div>
     );
   }
 
-  // Show onboarding if profile doesn't exist or onboarding not completed
+  // Show onboarding if profile doesn't exist or onboarding not completed.
+  // Completing onboarding updates the cached profile, which swaps in the dashboard.
   if (!creatorProfile || !creatorProfile.onboarding_completed) {
-    return (
-      <CreatorOnboarding 
-        creatorProfile={creatorProfile}
-        onComplete={handleOnboardingComplete}
-      />
-    );
+    return <CreatorOnboarding creatorProfile={creatorProfile} />;
   }
 
   return <CreatorMainDashboard creatorProfile={creatorProfile} />;
 };
 
-export default CreatorDashboard;
\ No newline at end of file
+export default CreatorDashboard;
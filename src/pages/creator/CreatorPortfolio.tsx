@@ -0,0 +1,18 @@
+import { Image } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import CreatorManagePage from "@/components/creator/CreatorManagePage";
+import Step3Portfolio from "@/components/creator/onboarding/Step3Portfolio";
+
+const CreatorPortfolio = () => (
+  <CreatorManagePage icon={Image} title="Portfolio" description="Update your showcase work">
+    {(creatorId) => (
+      <Card>
+        <CardContent className="pt-6">
+          <Step3Portfolio creatorId={creatorId} />
+        </CardContent>
+      </Card>
+    )}
+  </CreatorManagePage>
+);
+
+export default CreatorPortfolio;
@@ -0,0 +1,18 @@
+import { DollarSign } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import CreatorManagePage from "@/components/creator/CreatorManagePage";
+import Step4Pricing from "@/components/creator/onboarding/Step4Pricing";
+
+const CreatorPricing = () => (
+  <CreatorManagePage icon={DollarSign} title="Pricing" description="Manage your packages">
+    {(creatorId) => (
+      <Card>
+        <CardContent className="pt-6">
+          <Step4Pricing creatorId={creatorId} mode="standalone" />
+        </CardContent>
+      </Card>
+    )}
+  </CreatorManagePage>
+);
+
+export default CreatorPricing;
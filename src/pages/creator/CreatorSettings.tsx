@@ -0,0 +1,46 @@
+import { Settings } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import CreatorManagePage from "@/components/creator/CreatorManagePage";
+import Step1Profile from "@/components/creator/onboarding/Step1Profile";
+import Step2Specialization from "@/components/creator/onboarding/Step2Specialization";
+import Step6Banking from "@/components/creator/onboarding/Step6Banking";
+
+const CreatorSettings = () => (
+  <CreatorManagePage icon={Settings} title="Settings" description="Profile & banking">
+    {(creatorId) => (
+      <>
+        <Card>
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+            <CardDescription>How you appear to influencers</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Step1Profile creatorId={creatorId} mode="standalone" />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Specialization</CardTitle>
+            <CardDescription>Changes are saved as you select them</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Step2Specialization creatorId={creatorId} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Banking</CardTitle>
+            <CardDescription>Where your payouts are sent</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Step6Banking creatorId={creatorId} mode="standalone" />
+          </CardContent>
+        </Card>
+      </>
+    )}
+  </CreatorManagePage>
+);
+
+export default CreatorSettings;
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useLocation, Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,6 +7,8 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { getPostSignInPath } from "@/lib/auth-routes";
+import ClaimRolePrompt from "@/components/auth/ClaimRolePrompt";
 import { ArrowLeft, Loader2, Check, Sparkles } from "lucide-react";
 import { z } from "zod";
 
@@ -22,13 +24,15 @@ const InfluencerAuth = () => {
   
   const { signIn, signUp, user, userRole, isLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const redirectTo = getPostSignInPath("customer", location.state);
 
   useEffect(() => {
     if (!isLoading && user && userRole === "customer") {
-      navigate("/influencer/dashboard");
+      navigate(redirectTo, { replace: true });
     }
-  }, [user, userRole, isLoading, navigate]);
+  }, [user, userRole, isLoading, navigate, redirectTo]);
 
   const validateForm = () => {
     const newErrors: { email?: string; password?: string } = {};
@@ -68,7 +72,7 @@ const InfluencerAuth = () => {
       toast({ variant: "destructive", title: "Error", description: error.message });
     } else {
       toast({ title: "Success", description: "Account created." });
-      navigate("/influencer/dashboard");
+      navigate(redirectTo, { replace: true });
     }
     setIsSubmitting(false);
   };
@@ -81,6 +85,11 @@ const InfluencerAuth = () => {
     );
   }
 
+  // Accounts from before roles were assigned at signup choose to join this portal
+  if (user && !userRole) {
+    return <ClaimRolePrompt role="customer" />;
+  }
+
   return (
     <div className="flex min-h-screen bg-slate-50/30">
       
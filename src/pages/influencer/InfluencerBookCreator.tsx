@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useNavigate, useParams, Link } from "react-router-dom";
+import { addDays, format, parseISO } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import PageHeader from "@/components/layout/PageHeader";
+import { usePublicCreator, useCreatorBusySlots } from "@/hooks/use-public-creators";
+import { useCreatorPricing } from "@/hooks/use-creator-pricing";
+import { useCreatorAvailability } from "@/hooks/use-creator-availability";
+import { useCreateBooking } from "@/hooks/use-bookings";
+import { queryKeys } from "@/lib/query-keys";
+import {
+  CREATOR_TIME_ZONE,
+  generateSlots,
+  groupSlotsByDate,
+  parseDurationMinutes,
+  wallClockAt,
+  type AvailabilityWindow,
+} from "@/lib/scheduling";
+import { ArrowLeft, Loader2, Palette, MapPin, Clock, Check, CalendarDays } from "lucide-react";
+
+// How far ahead influencers can book
+const BOOKING_HORIZON_DAYS = 60;
+
+const InfluencerBookCreator = () => {
+  const { creatorId } = useParams<{ creatorId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [selectedPackageId, setSelectedPackageId] = useState<string | null>(null);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>();
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [notes, setNotes] = useState("");
+
+  // Slots are in the creator's time, so "today" is the creator's today
+  const now = wallClockAt(new Date(), CREATOR_TIME_ZONE);
+  const horizon = {
+    from: now.date,
+    to: format(addDays(parseISO(now.date), BOOKING_HORIZON_DAYS), "yyyy-MM-dd"),
+  };
+
+  const creatorQuery = usePublicCreator(creatorId);
+  const pricingQuery = useCreatorPricing(creatorId);
+  const availabilityQuery = useCreatorAvailability(creatorId);
+  const busySlotsQuery = useCreatorBusySlots(creatorId, horizon.from, horizon.to);
+  const createBooking = useCreateBooking();
+
+  const creator = creatorQuery.data;
+  const packages = (pricingQuery.data || []).filter(p => p.is_active);
+  const availability: AvailabilityWindow[] = availabilityQuery.data || [];
+  const busySlots = busySlotsQuery.data || [];
+  const isLoadingData = [creatorQuery, pricingQuery, availabilityQuery, busySlotsQuery].some(query => query.isLoading);
+
+  const selectedPackage = packages.find(p => p.id === selectedPackageId);
+  const durationMinutes = parseDurationMinutes(selectedPackage?.hours_range);
+
+  const slotsByDate = groupSlotsByDate(
+    generateSlots(availability, busySlots, durationMinutes, horizon, now)
+  );
+  const timeSlots = selectedDate ? slotsByDate[format(selectedDate, "yyyy-MM-dd")] || [] : [];
+
+  const isDayDisabled = (date: Date) => !slotsByDate[format(date, "yyyy-MM-dd")];
+
+  const handlePackageSelect = (packageId: string) => {
+    setSelectedPackageId(packageId);
+    setSelectedTime(null);
+  };
+
+  const handleDateSelect = (date: Date | undefined) => {
+    setSelectedDate(date);
+    setSelectedTime(null);
+  };
+
+  const handleSubmit = () => {
+    if (!user || !creatorId || !selectedPackage || !selectedDate || !selectedTime) return;
+
+    createBooking.mutate(
+      {
+        creatorId,
+        packageId: selectedPackage.id,
+        bookingDate: format(selectedDate, "yyyy-MM-dd"),
+        bookingTime: selectedTime,
+        notes: notes.trim() || null,
+      },
+      {
+        onSuccess: ({ amount }) => {
+          toast({
+            title: "Booking requested",
+            description: `₹${amount} is on hold until the creator confirms.`,
+          });
+          // The new booking takes its slot off the calendar
+          queryClient.invalidateQueries({ queryKey: queryKeys.creatorBusySlots(creatorId, horizon.from, horizon.to) });
+          navigate("/influencer/dashboard");
+        },
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "Booking failed",
+            description: error.message,
+          });
+        },
+      }
+    );
+  };
+
+  if (isLoadingData) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-pink-600" />
+      </div>
+    );
+  }
+
+  if (!creator) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 py-24 text-slate-500">
+        <Palette className="h-12 w-12 opacity-40" />
+        <p className="font-medium">This creator is not available for booking</p>
+        <Button variant="outline" asChild>
+          <Link to="/influencer/discover">Back to Discover</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-6 max-w-4xl space-y-6">
+      <PageHeader
+        accent="purple"
+        icon={Palette}
+        imageUrl={creator.profile_picture_url}
+        title={`Book ${creator.full_name || "Creator"}`}
+        description={(creator.city || creator.state) && (
+          <span className="flex items-center gap-1">
+            <MapPin className="h-3.5 w-3.5" />
+            {[creator.city, creator.state].filter(Boolean).join(", ")}
+          </span>
+        )}
+        actions={
+          <Button variant="ghost" asChild className="text-slate-600">
+            <Link to="/influencer/discover">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Discover
+            </Link>
+          </Button>
+        }
+      />
+
+      {/* Package */}
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Choose a package</CardTitle>
+          <CardDescription>Select one of the creator's pricing packages</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {packages.length === 0 ? (
+            <p className="text-sm text-slate-500">This creator has no active packages yet.</p>
+          ) : (
+            <div className="grid gap-3 sm:grid-cols-2">
+              {packages.map((pkg) => (
+                <button
+                  key={pkg.id}
+                  type="button"
+                  onClick={() => handlePackageSelect(pkg.id)}
+                  className={`text-left rounded-lg border-2 p-4 transition-all ${
+                    selectedPackageId === pkg.id
+                      ? "border-pink-500 bg-pink-50/50"
+                      : "border-slate-200 hover:border-slate-300"
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-slate-900">{pkg.package_name}</span>
+                    <span className="font-bold text-pink-600">₹{pkg.price}</span>
+                  </div>
+                  <p className="flex items-center gap-1 text-sm text-slate-500">
+                    <Clock className="h-3.5 w-3.5" />
+                    {pkg.hours_range}
+                  </p>
+                  {pkg.description && (
+                    <p className="text-sm text-slate-600 mt-2">{pkg.description}</p>
+                  )}
+                  {pkg.includes && pkg.includes.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {pkg.includes.map((item, i) => (
+                        <Badge key={i} variant="outline" className="text-xs">{item}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Date & Time */}
+      <Card>
+        <CardHeader>
+          <CardTitle>2. Pick a date and time</CardTitle>
+          <CardDescription>Only days with free slots for the selected package can be picked</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 md:grid-cols-[auto_1fr]">
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            onSelect={handleDateSelect}
+            disabled={isDayDisabled}
+            className="rounded-md border"
+          />
+          <div className="space-y-3">
+            <Label className="flex items-center gap-2 text-sm">
+              <CalendarDays className="h-4 w-4 text-slate-400" />
+              {selectedDate ? format(selectedDate, "EEEE, d MMMM") : "Select a date first"}
+            </Label>
+            {selectedDate && (
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {timeSlots.map((slot) => (
+                  <Button
+                    key={slot.start}
+                    type="button"
+                    variant={selectedTime === slot.start ? "default" : "outline"}
+                    onClick={() => setSelectedTime(slot.start)}
+                    className={selectedTime === slot.start ? "bg-pink-600 hover:bg-pink-700" : ""}
+                  >
+                    {slot.start}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Notes & Confirm */}
+      <Card>
+        <CardHeader>
+          <CardTitle>3. Add notes</CardTitle>
+          <CardDescription>Share your brief, references or anything the creator should know</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Describe your campaign, deliverables and goals..."
+            rows={4}
+            className="resize-none"
+          />
+
+          {selectedPackage && selectedDate && selectedTime && (
+            <div className="rounded-lg bg-pink-50 p-4 text-sm text-pink-900">
+              <p className="font-medium">{selectedPackage.package_name} · ₹{selectedPackage.price}</p>
+              <p className="text-pink-700">
+                {format(selectedDate, "EEE, d MMM yyyy")} at {selectedTime}
+              </p>
+              <p className="mt-2 text-xs text-pink-700">
+                The amount is held now, charged when the creator confirms, and refunded if the booking is cancelled.
+              </p>
+            </div>
+          )}
+
+          <Button
+            onClick={handleSubmit}
+            disabled={!selectedPackageId || !selectedDate || !selectedTime || createBooking.isPending}
+            className="w-full bg-pink-600 hover:bg-pink-700"
+          >
+            {createBooking.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Check className="h-4 w-4 mr-2" />}
+            Pay & Request Booking
+          </Button>
+        </CardContent>
+      </Card>
+    </main>
+  );
+};
+
+export default InfluencerBookCreator;
@@ -1,227 +1,143 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useProfile, useUpdateProfile } from "@/hooks/use-profile";
+import {
+  useInfluencerBookings,
+  useRespondToProposal,
+  useTransitionBooking,
+  type InfluencerBooking,
+} from "@/hooks/use-bookings";
+import BookingStatusBadge from "@/components/bookings/BookingStatusBadge";
+import PaymentStatusBadge from "@/components/bookings/PaymentStatusBadge";
+import BookingMessagesDialog from "@/components/bookings/BookingMessagesDialog";
+import ReviewDialog from "@/components/reviews/ReviewDialog";
+import StarRating from "@/components/reviews/StarRating";
+import AvatarUpload from "@/components/avatar/AvatarUpload";
 import { 
-  User, Bell, CalendarDays, LogOut, Loader2, 
-  CheckCircle, Clock, XCircle, AlertCircle, Phone, Mail, Sparkles
+  User, CalendarDays, Loader2,
+  Phone, Mail, Check, X, MessageSquare, Star
 } from "lucide-react";
 
-interface Profile {
-  full_name: string | null;
-  email: string | null;
-  phone: string | null;
-}
-
-interface Booking {
-  id: string;
-  booking_date: string;
-  booking_time: string;
-  status: string;
-  notes: string | null;
-  services: {
-    name: string;
-    duration_minutes: number;
-    price: number;
-  } | null;
-}
-
-interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  type: string;
-  is_read: boolean;
-  created_at: string;
-}
-
 const InfluencerDashboard = () => {
-  const { user, userRole, isLoading, signOut } = useAuth();
-  const navigate = useNavigate();
+  const { user } = useAuth();
   const { toast } = useToast();
   
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [bookings, setBookings] = useState<Booking[]>([]);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [isLoadingData, setIsLoadingData] = useState(true);
-  const [isSaving, setIsSaving] = useState(false);
+  const { data: profile, isLoading: isLoadingProfile } = useProfile(user?.id);
+  const { data: bookings = [], isLoading: isLoadingBookings } = useInfluencerBookings(user?.id);
+  const updateProfile = useUpdateProfile(user?.id);
+  const respondToProposal = useRespondToProposal();
+  const transitionBooking = useTransitionBooking();
+  const [messagesBooking, setMessagesBooking] = useState<InfluencerBooking | null>(null);
+  const [reviewBooking, setReviewBooking] = useState<InfluencerBooking | null>(null);
 
   // Form state
   const [formName, setFormName] = useState("");
   const [formPhone, setFormPhone] = useState("");
 
   useEffect(() => {
-    if (!isLoading && (!user || userRole !== "customer")) {
-      navigate("/influencer/auth");
-    }
-  }, [user, userRole, isLoading, navigate]);
-
-  useEffect(() => {
-    if (user && userRole === "customer") {
-      fetchData();
-    }
-  }, [user, userRole]);
-
-  const fetchData = async () => {
-    setIsLoadingData(true);
-    
-    // Fetch profile
-    const { data: profileData } = await supabase
-      .from("profiles")
-      .select("full_name, email, phone")
-      .eq("user_id", user?.id)
-      .maybeSingle();
-
-    if (profileData) {
-      setProfile(profileData);
-      setFormName(profileData.full_name || "");
-      setFormPhone(profileData.phone || "");
-    }
-
-    // Fetch bookings
-    const { data: bookingsData } = await supabase
-      .from("bookings")
-      .select(`
-        id,
-        booking_date,
-        booking_time,
-        status,
-        notes,
-        services (
-          name,
-          duration_minutes,
-          price
-        )
-      `)
-      .eq("customer_id", user?.id)
-      .order("booking_date", { ascending: false });
-
-    if (bookingsData) {
-      setBookings(bookingsData);
-    }
-
-    // Fetch notifications
-    const { data: notificationsData } = await supabase
-      .from("notifications")
-      .select("*")
-      .eq("user_id", user?.id)
-      .order("created_at", { ascending: false });
-
-    if (notificationsData) {
-      setNotifications(notificationsData);
+    if (profile) {
+      setFormName(profile.full_name || "");
+      setFormPhone(profile.phone || "");
     }
+  }, [profile]);
 
-    setIsLoadingData(false);
-  };
-
-  const handleSaveProfile = async () => {
-    setIsSaving(true);
-    const { error } = await supabase
-      .from("profiles")
-      .update({ full_name: formName, phone: formPhone })
-      .eq("user_id", user?.id);
-
-    if (error) {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Could not update profile.",
-      });
-    } else {
-      toast({
-        title: "Profile updated",
-        description: "Your changes have been saved.",
-      });
-      fetchData();
-    }
-    setIsSaving(false);
-  };
-
-  const markNotificationAsRead = async (id: string) => {
-    await supabase
-      .from("notifications")
-      .update({ is_read: true })
-      .eq("id", id);
-    fetchData();
+  const handleSaveProfile = () => {
+    updateProfile.mutate(
+      { full_name: formName, phone: formPhone },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Profile updated",
+            description: "Your changes have been saved.",
+          });
+        },
+        onError: () => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Could not update profile.",
+          });
+        },
+      }
+    );
   };
 
-  const handleSignOut = async () => {
-    await signOut();
-    navigate("/");
+  const acceptProposedTime = (booking: InfluencerBooking) => {
+    respondToProposal.mutate(
+      { bookingId: booking.id, accept: true },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Booking confirmed",
+            description: "The booking has been moved to the new time.",
+          });
+        },
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "Could not accept the new time",
+            description: error.message,
+          });
+        },
+      }
+    );
   };
 
-  const getStatusBadge = (status: string) => {
-    const variants: Record<string, { variant: "default" | "secondary" | "destructive" | "outline"; icon: React.ReactNode }> = {
-      confirmed: { variant: "default", icon: <CheckCircle className="h-3 w-3" /> },
-      pending: { variant: "secondary", icon: <Clock className="h-3 w-3" /> },
-      cancelled: { variant: "destructive", icon: <XCircle className="h-3 w-3" /> },
-      completed: { variant: "outline", icon: <CheckCircle className="h-3 w-3" /> },
-    };
-    const { variant, icon } = variants[status] || { variant: "secondary" as const, icon: <AlertCircle className="h-3 w-3" /> };
-    return (
-      <Badge variant={variant} className="gap-1 capitalize">
-        {icon} {status}
-      </Badge>
+  const cancelBooking = (booking: InfluencerBooking) => {
+    transitionBooking.mutate(
+      { bookingId: booking.id, status: "cancelled" },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Booking cancelled",
+            description: "The creator has been notified.",
+          });
+        },
+        onError: () => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Could not cancel the booking.",
+          });
+        },
+      }
     );
   };
 
-  const unreadCount = notifications.filter(n => !n.is_read).length;
-
-  if (isLoading || isLoadingData) {
+  if (isLoadingProfile || isLoadingBookings) {
     return (
-      <div className="flex min-h-screen items-center justify-center">
+      <div className="flex justify-center py-24">
         <Loader2 className="h-8 w-8 animate-spin text-pink-600" />
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen bg-slate-50">
-      {/* Header */}
-      <header className="border-b bg-white shadow-sm">
-        <div className="container mx-auto flex items-center justify-between px-4 py-4">
-          <div className="flex items-center gap-3">
-            <div className="h-10 w-10 rounded-xl bg-pink-100 flex items-center justify-center">
-              <Sparkles className="h-5 w-5 text-pink-600" />
-            </div>
-            <div>
-              <h1 className="text-xl font-semibold text-slate-900">Influencer Dashboard</h1>
-              <p className="text-sm text-slate-500">
-                Welcome back, {profile?.full_name || profile?.email || "Influencer"}
-              </p>
-            </div>
-          </div>
-          <Button variant="ghost" onClick={handleSignOut} className="text-slate-600">
-            <LogOut className="mr-2 h-4 w-4" />
-            Sign Out
-          </Button>
-        </div>
-      </header>
-
+    <>
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
+        {profile?.suspended_at && (
+          <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            <p className="font-medium">Your account is suspended</p>
+            <p>
+              {profile.suspended_reason} You can view your bookings, but can't make new bookings or send messages.
+            </p>
+          </div>
+        )}
+
         <Tabs defaultValue="bookings" className="space-y-6">
           <TabsList className="bg-white border">
             <TabsTrigger value="bookings" className="gap-2">
               <CalendarDays className="h-4 w-4" />
               My Bookings
             </TabsTrigger>
-            <TabsTrigger value="notifications" className="gap-2 relative">
-              <Bell className="h-4 w-4" />
-              Notifications
-              {unreadCount > 0 && (
-                <span className="absolute -top-1 -right-1 h-5 w-5 rounded-full bg-pink-600 text-white text-xs flex items-center justify-center">
-                  {unreadCount}
-                </span>
-              )}
-            </TabsTrigger>
             <TabsTrigger value="profile" className="gap-2">
               <User className="h-4 w-4" />
               Profile
@@ -241,6 +157,9 @@ const InfluencerDashboard = () => {
                     <CalendarDays className="mx-auto mb-4 h-12 w-12 opacity-40" />
                     <p className="font-medium">No bookings yet</p>
                     <p className="text-sm mt-1">Your creator bookings will appear here</p>
+                    <Button asChild variant="outline" className="mt-4">
+                      <Link to="/influencer/discover">Find a creator</Link>
+                    </Button>
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -250,64 +169,74 @@ const InfluencerDashboard = () => {
                         className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
                       >
                         <div>
-                          <p className="font-medium text-slate-900">{booking.services?.name || "Service"}</p>
+                          <p className="font-medium text-slate-900">
+                            {booking.package?.package_name || booking.services?.name || "Service"}
+                          </p>
+                          {booking.creator && (
+                            <p className="text-sm text-slate-600">
+                              with {booking.creator.full_name || "Creator"}
+                              {booking.package && ` · ₹${booking.package.price}`}
+                            </p>
+                          )}
                           <p className="text-sm text-slate-500">
                             {new Date(booking.booking_date).toLocaleDateString("en-US", {
                               weekday: "short",
                               month: "short",
                               day: "numeric",
                             })}{" "}
-                            at {booking.booking_time}
+                            at {booking.booking_time.slice(0, 5)}
                           </p>
                           {booking.notes && (
                             <p className="text-sm text-slate-400 mt-1">{booking.notes}</p>
                           )}
+                          {booking.proposed_date && booking.proposed_time && (
+                            <div className="mt-3 rounded-md bg-amber-50 border border-amber-200 p-3">
+                              <p className="text-sm text-amber-800">
+                                The creator proposed{" "}
+                                <span className="font-medium">
+                                  {new Date(booking.proposed_date).toLocaleDateString("en-US", {
+                                    weekday: "short",
+                                    month: "short",
+                                    day: "numeric",
+                                  })}{" "}
+                                  at {booking.proposed_time.slice(0, 5)}
+                                </span>
+                              </p>
+                              <div className="flex gap-2 mt-2">
+                                <Button size="sm" onClick={() => acceptProposedTime(booking)} className="bg-pink-600 hover:bg-pink-700">
+                                  <Check className="mr-1 h-3.5 w-3.5" />
+                                  Accept new time
+                                </Button>
+                                <Button size="sm" variant="outline" onClick={() => cancelBooking(booking)}>
+                                  <X className="mr-1 h-3.5 w-3.5" />
+                                  Cancel booking
+                                </Button>
+                              </div>
+                            </div>
+                          )}
                         </div>
-                        {getStatusBadge(booking.status)}
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          {/* Notifications Tab */}
-          <TabsContent value="notifications">
-            <Card>
-              <CardHeader>
-                <CardTitle>Notifications</CardTitle>
-                <CardDescription>Stay updated on your bookings</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {notifications.length === 0 ? (
-                  <div className="py-12 text-center text-slate-500">
-                    <Bell className="mx-auto mb-4 h-12 w-12 opacity-40" />
-                    <p className="font-medium">No notifications</p>
-                    <p className="text-sm mt-1">You're all caught up!</p>
-                  </div>
-                ) : (
-                  <div className="space-y-3">
-                    {notifications.map((notification) => (
-                      <div
-                        key={notification.id}
-                        className={`rounded-lg border p-4 cursor-pointer transition-colors ${
-                          notification.is_read ? "bg-white" : "bg-pink-50 border-pink-200"
-                        }`}
-                        onClick={() => markNotificationAsRead(notification.id)}
-                      >
-                        <div className="flex items-start justify-between gap-4">
-                          <div>
-                            <p className="font-medium text-slate-900">{notification.title}</p>
-                            <p className="text-sm text-slate-500 mt-1">{notification.message}</p>
-                          </div>
-                          {!notification.is_read && (
-                            <span className="h-2 w-2 rounded-full bg-pink-600 flex-shrink-0 mt-2" />
+                        <div className="flex flex-col items-end gap-2">
+                          <BookingStatusBadge status={booking.status} />
+                          {booking.payment && (
+                            <PaymentStatusBadge status={booking.payment.status} amount={booking.payment.amount} />
+                          )}
+                          {booking.creator && (
+                            <Button size="sm" variant="ghost" onClick={() => setMessagesBooking(booking)} className="text-pink-600">
+                              <MessageSquare className="mr-1 h-3.5 w-3.5" />
+                              Messages
+                            </Button>
+                          )}
+                          {booking.review ? (
+                            <StarRating value={booking.review.rating} size="sm" />
+                          ) : (
+                            booking.status === "completed" && booking.creator && (
+                              <Button size="sm" variant="outline" onClick={() => setReviewBooking(booking)}>
+                                <Star className="mr-1 h-3.5 w-3.5" />
+                                Leave a review
+                              </Button>
+                            )
                           )}
                         </div>
-                        <p className="text-xs text-slate-400 mt-2">
-                          {new Date(notification.created_at).toLocaleDateString()}
-                        </p>
                       </div>
                     ))}
                   </div>
@@ -324,6 +253,8 @@ const InfluencerDashboard = () => {
                 <CardDescription>Manage your account information</CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
+                <AvatarUpload userId={user?.id} accent="pink" />
+
                 <div className="grid gap-4 sm:grid-cols-2">
                   <div className="space-y-2">
                     <Label htmlFor="fullName" className="flex items-center gap-2">
@@ -362,8 +293,8 @@ const InfluencerDashboard = () => {
                     />
                   </div>
                 </div>
-                <Button onClick={handleSaveProfile} disabled={isSaving} className="bg-pink-600 hover:bg-pink-700">
-                  {isSaving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                <Button onClick={handleSaveProfile} disabled={updateProfile.isPending} className="bg-pink-600 hover:bg-pink-700">
+                  {updateProfile.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
                   Save Changes
                 </Button>
               </CardContent>
@@ -371,7 +302,26 @@ const InfluencerDashboard = () => {
           </TabsContent>
         </Tabs>
       </main>
-    </div>
+
+      <BookingMessagesDialog
+        bookingId={messagesBooking?.id ?? null}
+        userId={user?.id}
+        title={`Chat with ${messagesBooking?.creator?.full_name || "your creator"}`}
+        description={messagesBooking?.package?.package_name}
+        accent="pink"
+        onClose={() => setMessagesBooking(null)}
+      />
+
+      <ReviewDialog
+        booking={reviewBooking && {
+          id: reviewBooking.id,
+          creator_id: reviewBooking.creator_id,
+          creatorName: reviewBooking.creator?.full_name || "your creator",
+        }}
+        userId={user?.id}
+        onClose={() => setReviewBooking(null)}
+      />
+    </>
   );
 };
 
@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useCreatorSearch } from "@/hooks/use-public-creators";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  SPECIALIZATIONS,
+  SKILL_LEVELS,
+  INDIAN_STATES,
+  LANGUAGES,
+  formatSpecialization,
+  type SpecializationCategory,
+  type SkillLevel,
+} from "@/lib/creator-options";
+import StarRating from "@/components/reviews/StarRating";
+import PageHeader from "@/components/layout/PageHeader";
+import UserAvatar from "@/components/avatar/UserAvatar";
+import {
+  Loader2, Search, MapPin, Globe, Image, X, Sparkles
+} from "lucide-react";
+
+interface Filters {
+  category: SpecializationCategory | "all";
+  skillLevel: SkillLevel | "all";
+  state: string;
+  city: string;
+  languages: string[];
+  minPrice: string;
+  maxPrice: string;
+  sort: string;
+}
+
+const DEFAULT_FILTERS: Filters = {
+  category: "all",
+  skillLevel: "all",
+  state: "all",
+  city: "",
+  languages: [],
+  minPrice: "",
+  maxPrice: "",
+  sort: "newest",
+};
+
+const SORT_OPTIONS = [
+  { id: "newest", label: "Newest" },
+  { id: "price_asc", label: "Price: Low to High" },
+  { id: "price_desc", label: "Price: High to Low" },
+  { id: "portfolio", label: "Largest Portfolio" },
+  { id: "rating", label: "Top Rated" },
+  { id: "name", label: "Name" },
+];
+
+const InfluencerDiscover = () => {
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  const { data: creators = [], isFetching: isSearching } = useCreatorSearch({
+    _category: filters.category === "all" ? undefined : filters.category,
+    _skill_level: filters.skillLevel === "all" ? undefined : filters.skillLevel,
+    _state: filters.state === "all" ? undefined : filters.state,
+    _city: filters.city.trim() || undefined,
+    _languages: filters.languages.length > 0 ? filters.languages : undefined,
+    _min_price: filters.minPrice ? Number(filters.minPrice) : undefined,
+    _max_price: filters.maxPrice ? Number(filters.maxPrice) : undefined,
+    _sort: filters.sort,
+  });
+
+  const updateFilter = <K extends keyof Filters>(field: K, value: Filters[K]) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleLanguage = (lang: string) => {
+    updateFilter(
+      "languages",
+      filters.languages.includes(lang)
+        ? filters.languages.filter(l => l !== lang)
+        : [...filters.languages, lang]
+    );
+  };
+
+  return (
+    <main className="container mx-auto px-4 py-6 space-y-6">
+      <PageHeader
+        accent="pink"
+        icon={Search}
+        title="Discover Creators"
+        description="Find the right creative talent for your brand"
+      />
+
+      <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+        {/* Filters */}
+        <Card className="h-fit">
+          <CardHeader className="pb-4">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">Filters</CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setFilters(DEFAULT_FILTERS)}
+                className="h-8 text-slate-500"
+              >
+                <X className="mr-1 h-3.5 w-3.5" />
+                Reset
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <div className="space-y-2">
+              <Label className="text-sm">Specialization</Label>
+              <Select
+                value={filters.category}
+                onValueChange={(value) => updateFilter("category", value as Filters["category"])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any specialization</SelectItem>
+                  {SPECIALIZATIONS.map(spec => (
+                    <SelectItem key={spec.id} value={spec.id}>{spec.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">Minimum Skill Level</Label>
+              <Select
+                value={filters.skillLevel}
+                onValueChange={(value) => updateFilter("skillLevel", value as Filters["skillLevel"])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any level</SelectItem>
+                  {SKILL_LEVELS.map(level => (
+                    <SelectItem key={level.id} value={level.id}>{level.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2 text-sm">
+                <MapPin className="h-4 w-4 text-slate-400" />
+                State
+              </Label>
+              <Select value={filters.state} onValueChange={(value) => updateFilter("state", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any state</SelectItem>
+                  {INDIAN_STATES.map(state => (
+                    <SelectItem key={state} value={state}>{state}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">City</Label>
+              <Input
+                value={filters.city}
+                onChange={(e) => updateFilter("city", e.target.value)}
+                placeholder="Any city"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">Price Range (₹)</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  value={filters.minPrice}
+                  onChange={(e) => updateFilter("minPrice", e.target.value)}
+                  placeholder="Min"
+                />
+                <span className="text-slate-400">—</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={filters.maxPrice}
+                  onChange={(e) => updateFilter("maxPrice", e.target.value)}
+                  placeholder="Max"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2 text-sm">
+                <Globe className="h-4 w-4 text-slate-400" />
+                Languages
+              </Label>
+              <div className="flex flex-wrap gap-1.5">
+                {LANGUAGES.map(lang => (
+                  <button
+                    key={lang}
+                    type="button"
+                    onClick={() => toggleLanguage(lang)}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                      filters.languages.includes(lang)
+                        ? "bg-pink-600 text-white"
+                        : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+                    }`}
+                  >
+                    {lang}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Creators</CardTitle>
+              <CardDescription>
+                {isSearching ? "Searching..." : `${creators.length} creator${creators.length === 1 ? "" : "s"} found`}
+              </CardDescription>
+            </div>
+            <Select value={filters.sort} onValueChange={(value) => updateFilter("sort", value)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {isSearching ? (
+              <div className="py-12 flex justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-pink-600" />
+              </div>
+            ) : creators.length === 0 ? (
+              <div className="py-12 text-center text-slate-500">
+                <Sparkles className="mx-auto mb-4 h-12 w-12 opacity-40" />
+                <p className="font-medium">No creators match your filters</p>
+                <p className="text-sm mt-1">Try widening your search</p>
+              </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                {creators.map((creator) => (
+                  <div
+                    key={creator.id}
+                    className="flex flex-col gap-3 rounded-lg border p-4 hover:border-pink-300 transition-colors"
+                  >
+                    <div className="flex items-center gap-3">
+                      <UserAvatar
+                        url={creator.profile_picture_url}
+                        name={creator.full_name}
+                        accent="purple"
+                        className="h-10 w-10"
+                      />
+                      <div className="flex-1">
+                        <p className="font-medium text-slate-900">{creator.full_name || "Unnamed Creator"}</p>
+                        {(creator.city || creator.state) && (
+                          <p className="flex items-center gap-1 text-sm text-slate-500">
+                            <MapPin className="h-3.5 w-3.5" />
+                            {[creator.city, creator.state].filter(Boolean).join(", ")}
+                          </p>
+                        )}
+                        {creator.avg_rating !== null && (
+                          <p className="flex items-center gap-1 text-sm text-slate-500">
+                            <StarRating value={creator.avg_rating} size="sm" />
+                            {creator.avg_rating} ({creator.review_count})
+                          </p>
+                        )}
+                      </div>
+                      {creator.min_price !== null && (
+                        <div className="text-right">
+                          <p className="text-xs text-slate-400">From</p>
+                          <p className="font-bold text-pink-600">₹{creator.min_price}</p>
+                        </div>
+                      )}
+                    </div>
+
+                    {creator.bio && (
+                      <p className="text-sm text-slate-600 line-clamp-2">{creator.bio}</p>
+                    )}
+
+                    <div className="flex flex-wrap gap-3 text-sm text-slate-500">
+                      {creator.languages && creator.languages.length > 0 && (
+                        <span className="flex items-center gap-1">
+                          <Globe className="h-3.5 w-3.5" />
+                          {creator.languages.slice(0, 3).join(", ")}
+                          {creator.languages.length > 3 && ` +${creator.languages.length - 3}`}
+                        </span>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <Image className="h-3.5 w-3.5" />
+                        {creator.portfolio_count} portfolio items
+                      </span>
+                    </div>
+
+                    {creator.specializations.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {creator.specializations.map((spec) => (
+                          <Badge
+                            key={spec.category}
+                            variant="secondary"
+                            className="text-xs bg-purple-100 text-purple-700"
+                          >
+                            {formatSpecialization(spec.category)}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="mt-auto flex gap-2">
+                      <Button asChild size="sm" className="bg-pink-600 hover:bg-pink-700">
+                        <Link to={`/influencer/book/${creator.id}`}>Book this creator</Link>
+                      </Button>
+                      <Button asChild size="sm" variant="outline">
+                        <Link to={`/creators/${creator.id}`}>View profile</Link>
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+};
+
+export default InfluencerDiscover;
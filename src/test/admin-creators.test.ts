@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { getTotalCount, toAdminCreator, type AdminCreatorRow } from "@/lib/admin-creators";
+
+const row = (overrides: Partial<AdminCreatorRow> = {}): AdminCreatorRow => ({
+  id: "c1",
+  user_id: "u1",
+  full_name: "Asha",
+  email: "asha@example.com",
+  avatar_url: null,
+  bio: null,
+  state: "Goa",
+  city: "Panaji",
+  languages: ["English"],
+  onboarding_completed: true,
+  verification_status: "approved",
+  verification_reason: null,
+  id_document_path: null,
+  verification_submitted_at: null,
+  created_at: "2026-03-01T00:00:00Z",
+  specializations: [{ category: "reels", skill_level: "expert" }],
+  pricing: [],
+  availability: [],
+  banking: null,
+  portfolio_count: 3,
+  total_count: 42,
+  ...overrides,
+});
+
+describe("admin creator rows", () => {
+  it("nests the profile fields and keeps the aggregates", () => {
+    const creator = toAdminCreator(row());
+    expect(creator.profile).toEqual({ full_name: "Asha", email: "asha@example.com", avatar_url: null });
+    expect(creator.specializations).toEqual([{ category: "reels", skill_level: "expert" }]);
+    expect(creator.portfolio_count).toBe(3);
+    expect(creator).not.toHaveProperty("total_count");
+  });
+
+  it("falls back to empty values for missing aggregates", () => {
+    const creator = toAdminCreator(row({ specializations: null, languages: null, portfolio_count: null }));
+    expect(creator.specializations).toEqual([]);
+    expect(creator.languages).toEqual([]);
+    expect(creator.portfolio_count).toBe(0);
+    expect(creator.banking).toBeNull();
+  });
+
+  it("parses bigint counts sent as strings", () => {
+    expect(toAdminCreator(row({ portfolio_count: "7" as unknown as number })).portfolio_count).toBe(7);
+    expect(getTotalCount([row({ total_count: "12" as unknown as number })])).toBe(12);
+  });
+
+  it("reads the match count from the first row", () => {
+    expect(getTotalCount([row(), row({ id: "c2" })])).toBe(42);
+    expect(getTotalCount([])).toBe(0);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { PORTALS, getPostSignInPath } from "@/lib/auth-routes";
+
+const from = (pathname: string, search = "", hash = "") => ({ from: { pathname, search, hash } });
+
+describe("getPostSignInPath", () => {
+  it("returns to the page that was originally requested", () => {
+    expect(getPostSignInPath("customer", from("/influencer/book/abc", "?package=1"))).toBe(
+      "/influencer/book/abc?package=1"
+    );
+    expect(getPostSignInPath("team", from("/creator/bookings", "", "#pending"))).toBe("/creator/bookings#pending");
+  });
+
+  it("falls back to the portal home without a requested page", () => {
+    expect(getPostSignInPath("customer", null)).toBe(PORTALS.customer.home);
+    expect(getPostSignInPath("admin", {})).toBe(PORTALS.admin.home);
+  });
+
+  it("ignores pages from another portal", () => {
+    expect(getPostSignInPath("customer", from("/creator/bookings"))).toBe(PORTALS.customer.home);
+    expect(getPostSignInPath("team", from("/admin/dashboard"))).toBe(PORTALS.team.home);
+  });
+
+  it("never sends the user back to the sign-in page", () => {
+    expect(getPostSignInPath("team", from("/creator/auth"))).toBe(PORTALS.team.home);
+  });
+});
@@ -0,0 +1,57 @@
+// @vitest-environment node
+import { readFileSync } from "node:fs";
+import { PGlite } from "@electric-sql/pglite";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+
+// Runs the avatar URL checks from the migrations in an in-memory Postgres
+const MIGRATIONS = [
+  "20260317113105_f537e507-87ca-4947-a619-6e908f82d62e.sql",
+  "20260317131520_ecd53b36-f33f-4967-a048-a783c7a697b3.sql",
+].map(name => new URL(`../../supabase/migrations/${name}`, import.meta.url));
+
+const PROJECT_URL = "https://abcd.supabase.co";
+const USER_ID = "00000000-0000-4000-8000-000000000001";
+const OTHER_USER_ID = "00000000-0000-4000-8000-000000000002";
+
+let db: PGlite;
+
+const setAvatar = (url: string | null) =>
+  db.query("UPDATE public.profiles SET avatar_url = $1 WHERE user_id = $2", [url, USER_ID]);
+
+beforeAll(async () => {
+  db = new PGlite();
+  await db.exec(`
+    CREATE SCHEMA vault;
+    CREATE TABLE vault.decrypted_secrets (name TEXT, decrypted_secret TEXT);
+    CREATE TABLE public.profiles (user_id UUID PRIMARY KEY, avatar_url TEXT);
+    CREATE TABLE public.creator_profiles (user_id UUID PRIMARY KEY, profile_picture_url TEXT);
+  `);
+  for (const migration of MIGRATIONS) {
+    await db.exec(readFileSync(migration, "utf8"));
+  }
+  await db.query("INSERT INTO vault.decrypted_secrets VALUES ('project_url', $1)", [`${PROJECT_URL}/`]);
+  await db.query("INSERT INTO public.profiles (user_id) VALUES ($1)", [USER_ID]);
+}, 60_000);
+
+afterAll(async () => {
+  await db?.close();
+});
+
+describe("check_avatar_url", () => {
+  it("accepts the owner's own upload, or no picture", async () => {
+    await expect(setAvatar(`${PROJECT_URL}/storage/v1/object/public/avatars/${USER_ID}/m1abc-512.jpg`)).resolves.toBeTruthy();
+    await expect(setAvatar(null)).resolves.toBeTruthy();
+  });
+
+  it("rejects other hosts, other users' folders and other paths", async () => {
+    for (const url of [
+      `https://elsewhere.example/storage/v1/object/public/avatars/${USER_ID}/x.jpg`,
+      `${PROJECT_URL}.elsewhere.example/storage/v1/object/public/avatars/${USER_ID}/x.jpg`,
+      `${PROJECT_URL}/storage/v1/object/public/avatars/${OTHER_USER_ID}/x.jpg`,
+      `${PROJECT_URL}/storage/v1/object/public/avatars/${USER_ID}/../${OTHER_USER_ID}/x.jpg`,
+      `${PROJECT_URL}/storage/v1/object/public/avatars/${USER_ID}/x.jpg?track=1`,
+    ]) {
+      await expect(setAvatar(url)).rejects.toThrow("Profile pictures must be uploaded to your own avatar folder");
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { avatarUrlForSize, buildAvatarPath, getInitials, getSquareCrop } from "@/lib/avatars";
+
+describe("buildAvatarPath", () => {
+  it("puts the file in the owner's folder", () => {
+    expect(buildAvatarPath("u1", "v2", "large")).toBe("u1/v2-512.jpg");
+    expect(buildAvatarPath("u1", "v2", "small")).toBe("u1/v2-128.jpg");
+  });
+});
+
+describe("avatarUrlForSize", () => {
+  const url = "https://example.supabase.co/storage/v1/object/public/avatars/u1/v2-512.jpg";
+
+  it("points at the small variant", () => {
+    expect(avatarUrlForSize(url, "small")).toBe(url.replace("-512.jpg", "-128.jpg"));
+    expect(avatarUrlForSize(url, "large")).toBe(url);
+  });
+
+  it("leaves other URLs alone", () => {
+    expect(avatarUrlForSize("https://example.com/me.png", "small")).toBe("https://example.com/me.png");
+    expect(avatarUrlForSize(null, "small")).toBeNull();
+  });
+});
+
+describe("getSquareCrop", () => {
+  it("takes the largest centred square at zoom 1", () => {
+    expect(getSquareCrop(1200, 800, 1, { x: 600, y: 400 })).toEqual({ x: 200, y: 0, size: 800 });
+  });
+
+  it("shrinks the square as the zoom grows", () => {
+    expect(getSquareCrop(1000, 1000, 2, { x: 500, y: 500 })).toEqual({ x: 250, y: 250, size: 500 });
+  });
+
+  it("keeps the square inside the image", () => {
+    expect(getSquareCrop(1200, 800, 1, { x: 0, y: 0 })).toEqual({ x: 0, y: 0, size: 800 });
+    expect(getSquareCrop(1000, 1000, 2, { x: 990, y: 10 })).toEqual({ x: 500, y: 0, size: 500 });
+  });
+
+  it("clamps the zoom", () => {
+    expect(getSquareCrop(900, 900, 0.5, { x: 450, y: 450 }).size).toBe(900);
+    expect(getSquareCrop(900, 900, 10, { x: 450, y: 450 }).size).toBe(300);
+  });
+});
+
+describe("getInitials", () => {
+  it("uses the first two names", () => {
+    expect(getInitials("asha  rao kumar")).toBe("AR");
+    expect(getInitials("Asha")).toBe("A");
+  });
+
+  it("falls back when there is no name", () => {
+    expect(getInitials("  ")).toBe("?");
+    expect(getInitials(null)).toBe("?");
+  });
+});
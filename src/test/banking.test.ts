@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { formatMaskedAccountNumber, toSaveBankingArgs, validateBankingForm } from "@/lib/banking";
+import { lookupIfscBank } from "@/lib/ifsc-banks";
+
+const form = {
+  account_holder_name: "Asha Rao",
+  bank_name: "State Bank of India",
+  ifsc_code: "SBIN0001234",
+  account_number: "",
+  confirm_account_number: "",
+  upi_id: "",
+};
+
+describe("formatMaskedAccountNumber", () => {
+  it("shows only the last four digits", () => {
+    expect(formatMaskedAccountNumber("8901")).toBe("•••• 8901");
+  });
+
+  it("returns null when no account number is stored", () => {
+    expect(formatMaskedAccountNumber(null)).toBeNull();
+  });
+});
+
+describe("toSaveBankingArgs", () => {
+  it("keeps stored secrets when their fields are left empty", () => {
+    const args = toSaveBankingArgs("creator-1", form);
+    expect(args._account_number).toBeUndefined();
+    expect(args._upi_id).toBeUndefined();
+    expect(args._ifsc_code).toBe("SBIN0001234");
+  });
+
+  it("sends newly entered secrets", () => {
+    const args = toSaveBankingArgs("creator-1", { ...form, account_number: " 12345678901 ", upi_id: "asha@okaxis" });
+    expect(args._account_number).toBe("12345678901");
+    expect(args._upi_id).toBe("asha@okaxis");
+  });
+});
+
+describe("validateBankingForm", () => {
+  it("accepts an empty form so the step can be skipped", () => {
+    const empty = { account_holder_name: "", bank_name: "", ifsc_code: "", account_number: "", confirm_account_number: "", upi_id: "" };
+    expect(validateBankingForm(empty)).toEqual({});
+  });
+
+  it("accepts complete bank transfer details", () => {
+    expect(
+      validateBankingForm({ ...form, account_number: "1234 5678 901", confirm_account_number: "12345678901" })
+    ).toEqual({});
+  });
+
+  it("rejects malformed identifiers", () => {
+    const errors = validateBankingForm({
+      ...form,
+      ifsc_code: "SBIN1001234",
+      account_number: "12ab",
+      confirm_account_number: "12ab",
+      upi_id: "asha",
+    });
+    expect(errors.ifsc_code).toBeDefined();
+    expect(errors.account_number).toBeDefined();
+    expect(errors.upi_id).toBeDefined();
+  });
+
+  it("requires the account number to be confirmed", () => {
+    const errors = validateBankingForm({ ...form, account_number: "12345678901", confirm_account_number: "12345678900" });
+    expect(errors.confirm_account_number).toBe("Account numbers do not match");
+  });
+
+  it("requires an IFSC for a new account number", () => {
+    const errors = validateBankingForm({
+      ...form,
+      ifsc_code: "",
+      account_number: "12345678901",
+      confirm_account_number: "12345678901",
+    });
+    expect(errors.ifsc_code).toBe("IFSC is required for bank transfers");
+  });
+});
+
+describe("lookupIfscBank", () => {
+  it("finds the bank of a real branch", async () => {
+    expect(await lookupIfscBank("HDFC0000123")).toBe("HDFC Bank");
+    expect(await lookupIfscBank("utib00000np")).toBe("Axis Bank");
+  });
+
+  it("names the bank that runs a sublet branch", async () => {
+    expect(await lookupIfscBank("APBL0001001")).toBe("District Co-operative Central Bank Srikakul");
+    expect(await lookupIfscBank("ICIC00TJUCB")).toBe("Jamkhandi Urban Co-operative Bank");
+  });
+
+  it("returns null for incomplete codes and branches that don't exist", async () => {
+    expect(await lookupIfscBank("HDFC000")).toBeNull();
+    expect(await lookupIfscBank("HDFC0000066")).toBeNull();
+    expect(await lookupIfscBank("ZZZZ0000123")).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+// @vitest-environment node
+import { readFileSync } from "node:fs";
+import { PGlite } from "@electric-sql/pglite";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  isSlotFree,
+  minutesToTime,
+  parseDurationMinutes,
+  type AvailabilityWindow,
+  type ExistingBooking,
+  type WallClock,
+} from "@/lib/scheduling";
+
+// The server checks slots with a SQL port of src/lib/scheduling.ts. These tests run the
+// migration in an in-memory Postgres and check both versions give the same answers.
+const MIGRATION = new URL(
+  "../../supabase/migrations/20260317120418_2a5656a8-6255-415f-8dd2-64812d123717.sql",
+  import.meta.url,
+);
+
+const CREATOR_ID = "00000000-0000-4000-8000-000000000001";
+
+const availability: AvailabilityWindow[] = [
+  ...[1, 2, 3].map(day => ({ day_of_week: day, start_time: "09:00:00", end_time: "13:00:00", is_available: true })),
+  { day_of_week: 4, start_time: "09:00:00", end_time: "13:00:00", is_available: false },
+];
+
+const bookings: (ExistingBooking & { id: string })[] = [
+  { id: "00000000-0000-4000-8000-000000000011", booking_date: "2026-03-02", booking_time: "10:00:00", duration_minutes: 60, status: "confirmed" },
+  { id: "00000000-0000-4000-8000-000000000012", booking_date: "2026-03-03", booking_time: "11:30:00", duration_minutes: 90, status: "pending" },
+  { id: "00000000-0000-4000-8000-000000000013", booking_date: "2026-03-04", booking_time: "09:00:00", duration_minutes: 60, status: "cancelled" },
+];
+
+interface SlotCase {
+  date: string;
+  start: string;
+  duration: number;
+  now: WallClock;
+  ignore: string | null;
+}
+
+// Sunday to Thursday, every half hour around the window, against two different "now"s
+const cases: SlotCase[] = [];
+for (const date of ["2026-03-01", "2026-03-02", "2026-03-03", "2026-03-04", "2026-03-05"]) {
+  for (let start = 7 * 60; start <= 14 * 60; start += 30) {
+    for (const duration of [60, 120]) {
+      for (const now of [{ date: "2026-02-20", minutes: 12 * 60 }, { date: "2026-03-01", minutes: 10 * 60 + 30 }]) {
+        for (const ignore of [null, bookings[0].id]) {
+          cases.push({ date, start: minutesToTime(start), duration, now, ignore });
+        }
+      }
+    }
+  }
+}
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = new PGlite();
+  await db.exec(`
+    CREATE ROLE anon;
+    CREATE ROLE authenticated;
+    CREATE TABLE public.creator_availability (
+      id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+      creator_id UUID NOT NULL,
+      day_of_week INTEGER NOT NULL,
+      start_time TIME NOT NULL,
+      end_time TIME NOT NULL,
+      is_available BOOLEAN DEFAULT true
+    );
+    CREATE TABLE public.bookings (
+      id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+      creator_id UUID,
+      booking_date DATE NOT NULL,
+      booking_time TIME NOT NULL,
+      duration_minutes INTEGER NOT NULL DEFAULT 60,
+      status TEXT NOT NULL DEFAULT 'pending'
+    );
+  `);
+  await db.exec(readFileSync(MIGRATION, "utf8"));
+
+  for (const a of availability) {
+    await db.query(
+      "INSERT INTO public.creator_availability (creator_id, day_of_week, start_time, end_time, is_available) VALUES ($1, $2, $3, $4, $5)",
+      [CREATOR_ID, a.day_of_week, a.start_time, a.end_time, a.is_available],
+    );
+  }
+  for (const b of bookings) {
+    await db.query(
+      "INSERT INTO public.bookings (id, creator_id, booking_date, booking_time, duration_minutes, status) VALUES ($1, $2, $3, $4, $5, $6)",
+      [b.id, CREATOR_ID, b.booking_date, b.booking_time, b.duration_minutes, b.status],
+    );
+  }
+}, 60_000);
+
+afterAll(async () => {
+  await db?.close();
+});
+
+describe("package_duration_minutes", () => {
+  it("matches parseDurationMinutes", async () => {
+    const ranges = ["2-3 hours", "90 minutes", "1 hour", "1.5 hrs", "2 to 4 hrs", "45 mins", "0 hours", "half day", "", null];
+    const { rows } = await db.query<{ minutes: number }>(
+      "SELECT public.package_duration_minutes(r) AS minutes FROM unnest($1::text[]) WITH ORDINALITY AS t(r, i) ORDER BY i",
+      [ranges],
+    );
+    expect(rows.map(r => r.minutes)).toEqual(ranges.map(parseDurationMinutes));
+  });
+});
+
+describe("booking_slot_problem", () => {
+  it("agrees with isSlotFree", async () => {
+    const { rows } = await db.query<{ problem: string | null }>(
+      `SELECT public.booking_slot_problem(
+         $1, (c->>'date')::DATE, (c->>'start')::TIME, (c->>'duration')::INTEGER, (c->>'ignore')::UUID,
+         (c->'now'->>'date')::DATE + make_interval(mins => (c->'now'->>'minutes')::INTEGER)
+       ) AS problem
+       FROM jsonb_array_elements($2::jsonb) WITH ORDINALITY AS t(c, i)
+       ORDER BY i`,
+      [CREATOR_ID, JSON.stringify(cases)],
+    );
+
+    const fromSql = rows.map(r => r.problem === null);
+    const fromClient = cases.map(c =>
+      isSlotFree(availability, bookings.filter(b => b.id !== c.ignore), c.date, c.start, c.duration, c.now),
+    );
+    expect(fromSql).toEqual(fromClient);
+    // Both answers turn up, so the comparison means something
+    expect(new Set(fromClient)).toEqual(new Set([true, false]));
+  });
+
+  it("says why a slot is taken", async () => {
+    const { rows } = await db.query<{ problem: string | null }>(
+      "SELECT public.booking_slot_problem($1, '2026-03-02', '10:30', 60, NULL, '2026-02-20 12:00') AS problem",
+      [CREATOR_ID],
+    );
+    expect(rows[0].problem).toBe("That time clashes with another booking");
+  });
+});
+
+describe("claim_booking_slot", () => {
+  it("rejects a slot that is not free", async () => {
+    await expect(
+      db.query("SELECT public.claim_booking_slot($1, '2020-03-02', '10:00', 60)", [CREATOR_ID]),
+    ).rejects.toThrow("Bookings need at least 24 hours' notice");
+  });
+});
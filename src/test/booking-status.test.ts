@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { canTransition, canProposeNewTime, isTerminalStatus, withBookingStatus } from "@/lib/booking-status";
+
+describe("booking status transitions", () => {
+  it("lets pending bookings be confirmed or cancelled", () => {
+    expect(canTransition("pending", "confirmed")).toBe(true);
+    expect(canTransition("pending", "cancelled")).toBe(true);
+    expect(canTransition("pending", "completed")).toBe(false);
+  });
+
+  it("lets confirmed bookings be completed or cancelled", () => {
+    expect(canTransition("confirmed", "completed")).toBe(true);
+    expect(canTransition("confirmed", "cancelled")).toBe(true);
+    expect(canTransition("confirmed", "pending")).toBe(false);
+  });
+
+  it("treats cancelled and completed as terminal", () => {
+    expect(isTerminalStatus("cancelled")).toBe(true);
+    expect(isTerminalStatus("completed")).toBe(true);
+    expect(canTransition("completed", "cancelled")).toBe(false);
+    expect(canProposeNewTime("completed")).toBe(false);
+  });
+
+  it("only lets customers cancel", () => {
+    expect(canTransition("pending", "cancelled", "customer")).toBe(true);
+    expect(canTransition("pending", "confirmed", "customer")).toBe(false);
+    expect(canTransition("confirmed", "completed", "customer")).toBe(false);
+    expect(canTransition("confirmed", "completed", "creator")).toBe(true);
+  });
+
+  it("rejects unknown statuses", () => {
+    expect(canTransition("archived", "confirmed")).toBe(false);
+  });
+
+  it("updates only the matching booking in a cached list", () => {
+    const bookings = [{ id: "a", status: "pending" }, { id: "b", status: "pending" }];
+    expect(withBookingStatus(bookings, "b", "confirmed")).toEqual([
+      { id: "a", status: "pending" },
+      { id: "b", status: "confirmed" },
+    ]);
+    expect(withBookingStatus(undefined, "b", "confirmed")).toBeUndefined();
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { clearDraft, readDraft, writeDraft } from "@/lib/drafts";
+
+describe("drafts", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("round-trips a draft", () => {
+    writeDraft(localStorage, "onboarding:1:profile", { bio: "Hello", languages: ["Hindi"] });
+    expect(readDraft(localStorage, "onboarding:1:profile")).toEqual({ bio: "Hello", languages: ["Hindi"] });
+  });
+
+  it("returns null when there is no draft", () => {
+    expect(readDraft(localStorage, "onboarding:1:profile")).toBeNull();
+  });
+
+  it("ignores a draft that is not valid JSON", () => {
+    localStorage.setItem("access-hub:draft:onboarding:1:profile", "{");
+    expect(readDraft(localStorage, "onboarding:1:profile")).toBeNull();
+  });
+
+  it("clears a draft once saved", () => {
+    writeDraft(localStorage, "onboarding:1:pricing", []);
+    clearDraft(localStorage, "onboarding:1:pricing");
+    expect(readDraft(localStorage, "onboarding:1:pricing")).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { buildAttachmentPath, countUnread, upsertMessage, type BookingMessage } from "@/lib/messages";
+
+const message = (id: string, sender_id: string, created_at: string, read_at: string | null = null): BookingMessage => ({
+  id,
+  booking_id: "booking-1",
+  sender_id,
+  body: "Hello",
+  attachment_path: null,
+  attachment_name: null,
+  attachment_type: null,
+  read_at,
+  created_at,
+});
+
+describe("buildAttachmentPath", () => {
+  it("stores files under the booking folder with a safe name", () => {
+    const path = buildAttachmentPath("booking-1", "My Brief (final).pdf");
+    expect(path.startsWith("booking-1/")).toBe(true);
+    expect(path.endsWith("-My-Brief-final-.pdf")).toBe(true);
+    expect(path.split("/")).toHaveLength(2);
+  });
+});
+
+describe("booking messages", () => {
+  it("counts only unread messages from the other participant", () => {
+    const messages = [
+      message("1", "creator", "2026-03-02T10:00:00Z"),
+      message("2", "creator", "2026-03-02T10:01:00Z", "2026-03-02T10:05:00Z"),
+      message("3", "influencer", "2026-03-02T10:02:00Z"),
+    ];
+    expect(countUnread(messages, "influencer")).toBe(1);
+  });
+
+  it("keeps the thread in chronological order when upserting", () => {
+    const thread = [message("1", "creator", "2026-03-02T10:00:00Z")];
+    const withEarlier = upsertMessage(thread, message("0", "influencer", "2026-03-02T09:00:00Z"));
+    expect(withEarlier.map(m => m.id)).toEqual(["0", "1"]);
+
+    const read = upsertMessage(withEarlier, { ...withEarlier[1], read_at: "2026-03-02T11:00:00Z" });
+    expect(read).toHaveLength(2);
+    expect(read[1].read_at).not.toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  groupNotificationsByType,
+  olderThanFilter,
+  upsertNotification,
+  type AppNotification,
+} from "@/lib/notifications";
+
+const notification = (id: string, type: string, created_at: string): AppNotification => ({
+  id,
+  title: `Notification ${id}`,
+  message: "",
+  type,
+  is_read: false,
+  created_at,
+});
+
+describe("groupNotificationsByType", () => {
+  it("orders groups by urgency and drops empty ones", () => {
+    const groups = groupNotificationsByType([
+      notification("1", "info", "2026-03-02T10:00:00Z"),
+      notification("2", "warning", "2026-03-02T09:00:00Z"),
+      notification("3", "info", "2026-03-02T08:00:00Z"),
+    ]);
+    expect(groups.map(g => g.type)).toEqual(["warning", "info"]);
+    expect(groups[1].items.map(n => n.id)).toEqual(["1", "3"]);
+  });
+
+  it("files unknown types under updates", () => {
+    const groups = groupNotificationsByType([notification("1", "booking", "2026-03-02T10:00:00Z")]);
+    expect(groups[0].label).toBe("Updates");
+  });
+});
+
+describe("upsertNotification", () => {
+  it("adds new notifications newest-first and replaces existing ones", () => {
+    const list = [notification("1", "info", "2026-03-02T10:00:00Z")];
+    const added = upsertNotification(list, notification("2", "info", "2026-03-02T11:00:00Z"));
+    expect(added.map(n => n.id)).toEqual(["2", "1"]);
+
+    const replaced = upsertNotification(added, { ...added[1], is_read: true });
+    expect(replaced).toHaveLength(2);
+    expect(replaced[1].is_read).toBe(true);
+  });
+});
+
+describe("olderThanFilter", () => {
+  it("continues after the cursor, breaking created_at ties by id", () => {
+    expect(olderThanFilter({ created_at: "2026-03-02T10:00:00.5+00:00", id: "b" })).toBe(
+      'created_at.lt."2026-03-02T10:00:00.5+00:00",and(created_at.eq."2026-03-02T10:00:00.5+00:00",id.lt.b)'
+    );
+  });
+});
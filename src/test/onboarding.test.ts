@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  MIN_BIO_LENGTH,
+  firstIncompleteStep,
+  getOnboardingChecks,
+  getStepErrors,
+  type OnboardingSnapshot,
+} from "@/lib/onboarding";
+
+const complete: OnboardingSnapshot = {
+  bio: "a".repeat(MIN_BIO_LENGTH),
+  state: "Karnataka",
+  city: "Bengaluru",
+  specializationCount: 2,
+  portfolioCount: 6,
+  activePackageCount: 1,
+};
+
+describe("getOnboardingChecks", () => {
+  it("passes a fully set up profile", () => {
+    expect(getOnboardingChecks(complete).every(c => c.isMet)).toBe(true);
+  });
+
+  it("does not count surrounding whitespace towards the bio", () => {
+    const checks = getOnboardingChecks({ ...complete, bio: `  ${"a".repeat(MIN_BIO_LENGTH - 1)}  ` });
+    expect(getStepErrors(checks, 1)).toEqual([
+      `Write a bio of at least ${MIN_BIO_LENGTH} characters (${MIN_BIO_LENGTH - 1} so far).`,
+    ]);
+  });
+
+  it("needs both state and city", () => {
+    const checks = getOnboardingChecks({ ...complete, city: " " });
+    expect(getStepErrors(checks, 1)).toEqual(["Select your state and city."]);
+  });
+
+  it("reports portfolio progress", () => {
+    const checks = getOnboardingChecks({ ...complete, portfolioCount: 2 });
+    expect(getStepErrors(checks, 3)).toEqual(["Upload at least 6 portfolio items (2 so far)."]);
+  });
+});
+
+describe("getStepErrors", () => {
+  it("has nothing to say about steps without requirements", () => {
+    const checks = getOnboardingChecks({ ...complete, bio: null, activePackageCount: 0 });
+    expect(getStepErrors(checks, 5)).toEqual([]);
+    expect(getStepErrors(checks, 6)).toEqual([]);
+  });
+});
+
+describe("firstIncompleteStep", () => {
+  it("points at the earliest step that still needs work", () => {
+    const checks = getOnboardingChecks({ ...complete, specializationCount: 0, activePackageCount: 0 });
+    expect(firstIncompleteStep(checks)).toBe(2);
+  });
+
+  it("is null when everything is done", () => {
+    expect(firstIncompleteStep(getOnboardingChecks(complete))).toBeNull();
+  });
+});
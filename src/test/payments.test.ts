@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { createFakePaymentProvider } from "../../supabase/functions/_shared/fake-payment-provider";
+import { applyPaymentStep } from "../../supabase/functions/_shared/payments";
+import { nextPaymentStatus } from "@/lib/payments";
+
+const request = { amount: 5000, currency: "INR", description: "Reel shoot", customerId: "influencer-1" };
+
+describe("nextPaymentStatus", () => {
+  it("captures on confirmation and releases on completion", () => {
+    expect(nextPaymentStatus("authorized", "confirmed")).toBe("captured");
+    expect(nextPaymentStatus("captured", "completed")).toBe("released");
+  });
+
+  it("captures a completed booking's hold before releasing it", () => {
+    expect(nextPaymentStatus("authorized", "completed")).toBe("captured");
+  });
+
+  it("refunds captured payments and voids holds on cancellation", () => {
+    expect(nextPaymentStatus("captured", "cancelled")).toBe("refunded");
+    expect(nextPaymentStatus("authorized", "cancelled")).toBe("voided");
+  });
+
+  it("leaves settled payments alone", () => {
+    expect(nextPaymentStatus("released", "cancelled")).toBeNull();
+    expect(nextPaymentStatus("refunded", "confirmed")).toBeNull();
+  });
+});
+
+describe("fake payment provider", () => {
+  it("authorizes, captures and refunds a charge", async () => {
+    const provider = createFakePaymentProvider();
+    const auth = await provider.authorize(request);
+    expect(auth.ok).toBe(true);
+    if (!auth.ok) return;
+
+    expect((await provider.capture(auth.reference, 5000)).ok).toBe(true);
+    expect((await provider.refund(auth.reference, 5000)).ok).toBe(true);
+    expect(provider.getCharge(auth.reference)?.status).toBe("refunded");
+  });
+
+  it("rejects out-of-order operations", async () => {
+    const provider = createFakePaymentProvider();
+    const auth = await provider.authorize(request);
+    if (!auth.ok) throw new Error("expected authorization");
+
+    expect((await provider.refund(auth.reference, 5000)).ok).toBe(false);
+    expect((await provider.void(auth.reference)).ok).toBe(true);
+    expect((await provider.capture(auth.reference, 5000)).ok).toBe(false);
+  });
+
+  it("can simulate declined cards", async () => {
+    const provider = createFakePaymentProvider({ shouldDecline: (r) => r.amount > 1000 });
+    const result = await provider.authorize(request);
+    expect(result).toEqual({ ok: false, error: "Card declined" });
+  });
+
+  it("can trust references from another instance", async () => {
+    const strict = createFakePaymentProvider();
+    expect((await strict.capture("fake_abc_1", 5000)).ok).toBe(false);
+
+    const trusting = createFakePaymentProvider({ acceptUnknownReferences: true });
+    expect((await trusting.capture("fake_abc_1", 5000)).ok).toBe(true);
+    expect((await trusting.capture("fake_abc_1", 5000)).ok).toBe(false);
+    expect((await trusting.capture("other_1", 5000)).ok).toBe(false);
+  });
+});
+
+describe("applyPaymentStep", () => {
+  const step = {
+    payment_id: "payment-1",
+    from_status: "authorized",
+    to_status: "captured",
+    amount: 5000,
+    provider: "fake",
+    provider_reference: "",
+  };
+
+  it("asks the provider for the step's money movement", async () => {
+    const provider = createFakePaymentProvider();
+    const auth = await provider.authorize(request);
+    if (!auth.ok) throw new Error("expected authorization");
+
+    const reference = auth.reference;
+    expect((await applyPaymentStep(provider, { ...step, provider_reference: reference })).ok).toBe(true);
+    expect(provider.getCharge(reference)?.status).toBe("captured");
+
+    const refund = { ...step, from_status: "captured", to_status: "refunded", provider_reference: reference };
+    expect((await applyPaymentStep(provider, refund)).ok).toBe(true);
+    expect(provider.getCharge(reference)?.status).toBe("refunded");
+  });
+
+  it("releases without the provider and reports provider failures", async () => {
+    const provider = createFakePaymentProvider();
+    const release = { ...step, from_status: "captured", to_status: "released", provider_reference: "fake_x" };
+    expect((await applyPaymentStep(provider, release)).ok).toBe(true);
+    expect(await applyPaymentStep(provider, { ...step, provider_reference: "missing" })).toEqual({
+      ok: false,
+      error: "Unknown payment reference",
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { calculatePayout, summarizeEarnings } from "@/lib/payouts";
+
+describe("calculatePayout", () => {
+  it("takes the platform commission off the gross amount", () => {
+    expect(calculatePayout(5000, 15)).toEqual({ gross: 5000, commission: 750, net: 4250 });
+  });
+
+  it("rounds the commission to paise", () => {
+    expect(calculatePayout(999.99, 12.5)).toEqual({ gross: 999.99, commission: 125, net: 874.99 });
+  });
+
+  it("pays everything out when there is no commission", () => {
+    expect(calculatePayout(1200, 0)).toEqual({ gross: 1200, commission: 0, net: 1200 });
+  });
+});
+
+describe("summarizeEarnings", () => {
+  const payments = [
+    { status: "captured", amount: 2000 },
+    { status: "released", amount: 3000 },
+    { status: "released", amount: 1000 },
+    { status: "refunded", amount: 500 },
+  ];
+
+  it("splits payments between escrow and awaiting payout", () => {
+    expect(summarizeEarnings(payments, [], 10)).toEqual({
+      inEscrow: 2000,
+      awaitingPayout: 3600,
+      pending: 0,
+      paidOut: 0,
+    });
+  });
+
+  it("moves batched payments to pending and paid", () => {
+    const payouts = [
+      { status: "paid", gross_amount: 3000, net_amount: 2700 },
+      { status: "processing", gross_amount: 1000, net_amount: 900 },
+    ];
+    expect(summarizeEarnings(payments, payouts, 10)).toEqual({
+      inEscrow: 2000,
+      awaitingPayout: 0,
+      pending: 900,
+      paidOut: 2700,
+    });
+  });
+
+  it("treats failed payouts as still awaiting payout", () => {
+    const payouts = [{ status: "failed", gross_amount: 1000, net_amount: 900 }];
+    expect(summarizeEarnings(payments, payouts, 10).awaitingPayout).toBe(3600);
+  });
+});
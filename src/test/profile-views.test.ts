@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { buildViewTrend, getVisitorId, toDateKey, trendStartDate } from "@/lib/profile-views";
+
+const today = new Date(Date.UTC(2026, 2, 12, 12));
+
+describe("toDateKey", () => {
+  it("uses the UTC date, like the server", () => {
+    expect(toDateKey(new Date("2026-03-12T20:00:00+05:30"))).toBe("2026-03-12");
+    expect(toDateKey(new Date("2026-03-13T02:00:00+05:30"))).toBe("2026-03-12");
+    expect(toDateKey(new Date("2026-03-12T20:00:00-08:00"))).toBe("2026-03-13");
+  });
+});
+
+describe("trendStartDate", () => {
+  it("includes today in the number of days", () => {
+    expect(trendStartDate(30, today)).toBe("2026-02-11");
+    expect(trendStartDate(1, today)).toBe("2026-03-12");
+  });
+});
+
+describe("buildViewTrend", () => {
+  it("returns one day per entry, oldest first, ending today", () => {
+    const trend = buildViewTrend([], 30, today);
+    expect(trend).toHaveLength(30);
+    expect(trend[0].date).toBe("2026-02-11");
+    expect(trend[29].date).toBe("2026-03-12");
+  });
+
+  it("fills days without views with zero", () => {
+    const trend = buildViewTrend(
+      [
+        { viewed_on: "2026-03-10", views: 4 },
+        { viewed_on: "2026-03-12", views: 1 },
+      ],
+      3,
+      today,
+    );
+    expect(trend).toEqual([
+      { date: "2026-03-10", views: 4 },
+      { date: "2026-03-11", views: 0 },
+      { date: "2026-03-12", views: 1 },
+    ]);
+  });
+
+  it("ignores counts outside the range", () => {
+    const trend = buildViewTrend([{ viewed_on: "2026-01-01", views: 9 }], 7, today);
+    expect(trend.every(d => d.views === 0)).toBe(true);
+  });
+});
+
+describe("getVisitorId", () => {
+  it("creates an id once and reuses it", () => {
+    const id = getVisitorId(localStorage);
+    expect(id).toMatch(/^[A-Za-z0-9-]{8,64}$/);
+    expect(getVisitorId(localStorage)).toBe(id);
+  });
+});
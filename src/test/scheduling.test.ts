@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateSlots,
+  groupSlotsByDate,
+  isSlotFree,
+  parseDurationMinutes,
+  type AvailabilityWindow,
+  type ExistingBooking,
+  type SchedulingOptions,
+  wallClockAt,
+} from "@/lib/scheduling";
+
+// 2026-03-02 is a Monday
+const MONDAY = "2026-03-02";
+const TUESDAY = "2026-03-03";
+
+const weekdays: AvailabilityWindow[] = [1, 2, 3, 4, 5].map(day => ({
+  day_of_week: day,
+  start_time: "09:00:00",
+  end_time: "13:00:00",
+  is_available: true,
+}));
+
+const noBuffer: SchedulingOptions = {
+  bufferMinutes: 0,
+  minimumNoticeMinutes: 0,
+  slotIntervalMinutes: 60,
+};
+
+const lastWeek = { date: "2026-02-20", minutes: 12 * 60 };
+
+describe("wallClockAt", () => {
+  it("reads the creator's clock whatever the viewer's time zone", () => {
+    // 20:00 in Los Angeles is already 09:30 the next morning in India
+    expect(wallClockAt(new Date("2026-02-28T20:00:00-08:00"))).toEqual({ date: "2026-03-01", minutes: 9 * 60 + 30 });
+    expect(wallClockAt(new Date("2026-03-01T00:15:00Z"), "UTC")).toEqual({ date: "2026-03-01", minutes: 15 });
+  });
+});
+
+describe("parseDurationMinutes", () => {
+  it("uses the upper bound of an hour range", () => {
+    expect(parseDurationMinutes("2-3 hours")).toBe(180);
+  });
+
+  it("understands minutes and single values", () => {
+    expect(parseDurationMinutes("90 minutes")).toBe(90);
+    expect(parseDurationMinutes("1 hour")).toBe(60);
+    expect(parseDurationMinutes("1.5 hrs")).toBe(90);
+  });
+
+  it("falls back to an hour for unparseable input", () => {
+    expect(parseDurationMinutes("half day")).toBe(60);
+    expect(parseDurationMinutes(null)).toBe(60);
+  });
+});
+
+describe("generateSlots", () => {
+  it("splits the weekly window into slots that fit the duration", () => {
+    const slots = generateSlots(weekdays, [], 120, { from: MONDAY, to: MONDAY }, lastWeek, noBuffer);
+    expect(slots.map(s => `${s.start}-${s.end}`)).toEqual(["09:00-11:00", "10:00-12:00", "11:00-13:00"]);
+  });
+
+  it("skips days without availability", () => {
+    const slots = generateSlots(weekdays, [], 60, { from: "2026-03-07", to: "2026-03-08" }, lastWeek, noBuffer);
+    expect(slots).toEqual([]);
+  });
+
+  it("ignores windows that are switched off", () => {
+    const availability = weekdays.map(w => (w.day_of_week === 1 ? { ...w, is_available: false } : w));
+    const slots = generateSlots(availability, [], 60, { from: MONDAY, to: TUESDAY }, lastWeek, noBuffer);
+    expect(slots.every(s => s.date === TUESDAY)).toBe(true);
+  });
+
+  it("removes slots overlapping pending or confirmed bookings", () => {
+    const bookings: ExistingBooking[] = [
+      { booking_date: MONDAY, booking_time: "10:00:00", duration_minutes: 60, status: "confirmed" },
+    ];
+    const slots = generateSlots(weekdays, bookings, 60, { from: MONDAY, to: MONDAY }, lastWeek, noBuffer);
+    expect(slots.map(s => s.start)).toEqual(["09:00", "11:00", "12:00"]);
+  });
+
+  it("does not block on cancelled or completed bookings", () => {
+    const bookings: ExistingBooking[] = [
+      { booking_date: MONDAY, booking_time: "10:00", duration_minutes: 60, status: "cancelled" },
+      { booking_date: MONDAY, booking_time: "11:00", duration_minutes: 60, status: "completed" },
+    ];
+    const slots = generateSlots(weekdays, bookings, 60, { from: MONDAY, to: MONDAY }, lastWeek, noBuffer);
+    expect(slots).toHaveLength(4);
+  });
+
+  it("keeps a buffer around existing bookings", () => {
+    const bookings: ExistingBooking[] = [
+      { booking_date: MONDAY, booking_time: "11:00", duration_minutes: 60, status: "pending" },
+    ];
+    const options = { ...noBuffer, bufferMinutes: 30, slotIntervalMinutes: 30 };
+    const slots = generateSlots(weekdays, bookings, 60, { from: MONDAY, to: MONDAY }, lastWeek, options);
+    expect(slots.map(s => s.start)).toEqual(["09:00", "09:30"]);
+  });
+
+  it("enforces minimum notice relative to now", () => {
+    const now = { date: "2026-03-01", minutes: 10 * 60 }; // Sunday 10:00
+    const options = { ...noBuffer, minimumNoticeMinutes: 24 * 60 };
+    const slots = generateSlots(weekdays, [], 60, { from: MONDAY, to: MONDAY }, now, options);
+    expect(slots.map(s => s.start)).toEqual(["10:00", "11:00", "12:00"]);
+  });
+
+  it("groups slots by date", () => {
+    const slots = generateSlots(weekdays, [], 240, { from: MONDAY, to: TUESDAY }, lastWeek, noBuffer);
+    const grouped = groupSlotsByDate(slots);
+    expect(Object.keys(grouped)).toEqual([MONDAY, TUESDAY]);
+    expect(grouped[MONDAY]).toHaveLength(1);
+  });
+});
+
+describe("isSlotFree", () => {
+  it("rejects slots that run past the end of the window", () => {
+    expect(isSlotFree(weekdays, [], MONDAY, "12:30", 60, lastWeek, noBuffer)).toBe(false);
+  });
+
+  it("accepts off-grid starts inside the window", () => {
+    expect(isSlotFree(weekdays, [], MONDAY, "09:15", 60, lastWeek, noBuffer)).toBe(true);
+  });
+
+  it("rejects slots in the past", () => {
+    const now = { date: "2026-03-02", minutes: 11 * 60 };
+    expect(isSlotFree(weekdays, [], MONDAY, "10:00", 60, now, noBuffer)).toBe(false);
+  });
+});
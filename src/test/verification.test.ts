@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { REVIEW_ACTIONS, buildIdDocumentPath, canSubmitDocument, requiresReason } from "@/lib/verification";
+
+describe("verification workflow", () => {
+  it("lets admins approve or reject a pending creator", () => {
+    expect(REVIEW_ACTIONS.pending_review).toEqual(["approved", "rejected"]);
+  });
+
+  it("lets admins suspend and reinstate approved creators", () => {
+    expect(REVIEW_ACTIONS.approved).toEqual(["suspended"]);
+    expect(REVIEW_ACTIONS.suspended).toEqual(["approved"]);
+  });
+
+  it("requires a reason for rejections and suspensions only", () => {
+    expect(requiresReason("rejected")).toBe(true);
+    expect(requiresReason("suspended")).toBe(true);
+    expect(requiresReason("approved")).toBe(false);
+  });
+
+  it("accepts documents until the creator is approved", () => {
+    expect(canSubmitDocument("pending_review")).toBe(true);
+    expect(canSubmitDocument("rejected")).toBe(true);
+    expect(canSubmitDocument("approved")).toBe(false);
+    expect(canSubmitDocument("suspended")).toBe(false);
+  });
+});
+
+describe("buildIdDocumentPath", () => {
+  it("stores documents in the creator's folder without the original file name", () => {
+    const path = buildIdDocumentPath("creator-1", "Aadhaar Card (front).JPG");
+    expect(path.startsWith("creator-1/")).toBe(true);
+    expect(path.endsWith("-id.jpg")).toBe(true);
+    expect(path).not.toContain("Aadhaar");
+  });
+});
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+// The IFSC data files, imported by src/lib/ifsc-banks.ts. Typed here rather than
+// inferred, as the branch list alone is about 1 MB.
+declare module "ifsc/src/IFSC.json" {
+  const branches: Record<string, (string | number)[]>;
+  export default branches;
+}
+
+declare module "ifsc/src/*.json" {
+  const codes: Record<string, string>;
+  export default codes;
+}
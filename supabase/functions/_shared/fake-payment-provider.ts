@@ -0,0 +1,69 @@
+// In-memory payment provider for local development and tests. No money moves.
+
+import type { AuthorizeRequest, PaymentProvider, ProviderResult } from "./payments.ts";
+
+type FakeChargeStatus = "authorized" | "captured" | "refunded" | "voided";
+
+interface FakeCharge {
+  amount: number;
+  status: FakeChargeStatus;
+}
+
+export interface FakePaymentProviderOptions {
+  /** Decline authorizations matching this predicate, e.g. to test card failures */
+  shouldDecline?: (request: AuthorizeRequest) => boolean;
+  /** Treat a fake reference this instance never saw as a charge in the expected state */
+  acceptUnknownReferences?: boolean;
+}
+
+export const createFakePaymentProvider = (options: FakePaymentProviderOptions = {}): PaymentProvider & {
+  getCharge: (reference: string) => FakeCharge | undefined;
+} => {
+  const charges = new Map<string, FakeCharge>();
+  let counter = 0;
+
+  const transition = (
+    reference: string,
+    from: FakeChargeStatus,
+    to: FakeChargeStatus,
+    amount?: number,
+  ): ProviderResult => {
+    const charge = charges.get(reference)
+      ?? (options.acceptUnknownReferences && reference.startsWith("fake_")
+        ? { amount: amount ?? 0, status: from }
+        : undefined);
+    if (!charge) return { ok: false, error: "Unknown payment reference" };
+    if (charge.status !== from) return { ok: false, error: `Payment is ${charge.status}, expected ${from}` };
+    if (amount !== undefined && amount > charge.amount) return { ok: false, error: "Amount exceeds the charge" };
+    charges.set(reference, { ...charge, status: to });
+    return { ok: true, reference };
+  };
+
+  return {
+    name: "fake",
+
+    async authorize(request) {
+      if (request.amount <= 0) return { ok: false, error: "Amount must be positive" };
+      if (options.shouldDecline?.(request)) return { ok: false, error: "Card declined" };
+
+      counter += 1;
+      const reference = `fake_${Date.now().toString(36)}_${counter}`;
+      charges.set(reference, { amount: request.amount, status: "authorized" });
+      return { ok: true, reference };
+    },
+
+    async capture(reference, amount) {
+      return transition(reference, "authorized", "captured", amount);
+    },
+
+    async refund(reference, amount) {
+      return transition(reference, "captured", "refunded", amount);
+    },
+
+    async void(reference) {
+      return transition(reference, "authorized", "voided");
+    },
+
+    getCharge: (reference) => charges.get(reference),
+  };
+};
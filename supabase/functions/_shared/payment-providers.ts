@@ -0,0 +1,25 @@
+import type { PaymentProvider } from "./payments.ts";
+import { createFakePaymentProvider } from "./fake-payment-provider.ts";
+
+const PROVIDERS: Record<string, () => PaymentProvider> = {
+  // A function instance may not see the request that placed a hold, so the fake
+  // trusts its own references
+  fake: () => createFakePaymentProvider({ acceptUnknownReferences: true }),
+};
+
+const instances = new Map<string, PaymentProvider>();
+
+// New holds use PAYMENT_PROVIDER, with the fake provider as the default for development.
+// Later steps pass the provider recorded on the payment.
+export const getPaymentProvider = (name = Deno.env.get("PAYMENT_PROVIDER") || "fake"): PaymentProvider => {
+  let provider = instances.get(name);
+  if (!provider) {
+    const create = PROVIDERS[name];
+    if (!create) {
+      throw new Error(`Unknown payment provider "${name}"`);
+    }
+    provider = create();
+    instances.set(name, provider);
+  }
+  return provider;
+};
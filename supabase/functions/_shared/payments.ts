@@ -0,0 +1,58 @@
+// Payment providers, as used by the edge functions.
+//
+// The database owns the escrow state and decides which step a payment takes next
+// (next_payment_step); a provider only moves the money, and the step is recorded once
+// it reports success (settle_payment_step).
+
+export interface AuthorizeRequest {
+  amount: number;
+  currency: string;
+  /** Shown on the influencer's statement and in the provider dashboard */
+  description: string;
+  customerId: string;
+}
+
+export type ProviderResult =
+  | { ok: true; reference: string }
+  | { ok: false; error: string };
+
+export interface PaymentProvider {
+  readonly name: string;
+  /** Places a hold for the full amount without taking the money yet */
+  authorize(request: AuthorizeRequest): Promise<ProviderResult>;
+  capture(reference: string, amount: number): Promise<ProviderResult>;
+  refund(reference: string, amount: number): Promise<ProviderResult>;
+  /** Drops a hold that was never captured */
+  void(reference: string): Promise<ProviderResult>;
+}
+
+/** A row of next_payment_step */
+export interface PaymentStep {
+  payment_id: string;
+  from_status: string;
+  to_status: string;
+  amount: number;
+  provider: string;
+  provider_reference: string;
+}
+
+/** Asks the provider for the money movement behind a step */
+export const applyPaymentStep = async (provider: PaymentProvider, step: PaymentStep): Promise<ProviderResult> => {
+  try {
+    switch (step.to_status) {
+      case "captured":
+        return await provider.capture(step.provider_reference, step.amount);
+      case "refunded":
+        return await provider.refund(step.provider_reference, step.amount);
+      case "voided":
+        return await provider.void(step.provider_reference);
+      // Released money is paid out to the creator in payout batches, not by the provider
+      case "released":
+        return { ok: true, reference: step.provider_reference };
+      default:
+        return { ok: false, error: `Unknown payment step to ${step.to_status}` };
+    }
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
@@ -0,0 +1,99 @@
+// Books a creator's package for the signed-in influencer. The package price is held on
+// their card first and the booking and its payment are then created together, so the
+// creator never hears about a request that is not paid for.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/http.ts";
+import { getPaymentProvider } from "../_shared/payment-providers.ts";
+
+interface CreateBookingRequest {
+  creatorId: string;
+  packageId: string;
+  bookingDate: string;
+  bookingTime: string;
+  notes: string | null;
+}
+
+// Only the shape is checked here; create_paid_booking checks the slot itself
+const isCreateBookingRequest = (body: unknown): body is CreateBookingRequest => {
+  const request = body as Partial<CreateBookingRequest> | null;
+  return (
+    typeof request?.creatorId === "string" &&
+    typeof request.packageId === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(request.bookingDate ?? "") &&
+    /^\d{2}:\d{2}(:\d{2})?$/.test(request.bookingTime ?? "") &&
+    (request.notes == null || typeof request.notes === "string")
+  );
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const token = req.headers.get("Authorization")?.replace(/^Bearer /, "") ?? "";
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return jsonResponse({ error: "Sign in to book a creator" }, 401);
+  }
+
+  const request = await req.json().catch(() => null);
+  if (!isCreateBookingRequest(request)) {
+    return jsonResponse({ error: "Choose a package, date and time to book" }, 400);
+  }
+
+  const [{ data: pkg }, { data: creator }] = await Promise.all([
+    supabase
+      .from("creator_pricing")
+      .select("price, package_name")
+      .eq("id", request.packageId)
+      .eq("creator_id", request.creatorId)
+      .eq("is_active", true)
+      .maybeSingle(),
+    supabase
+      .from("public_creator_profiles")
+      .select("full_name")
+      .eq("id", request.creatorId)
+      .maybeSingle(),
+  ]);
+
+  if (!pkg || !creator) {
+    return jsonResponse({ error: "This package is no longer available" }, 400);
+  }
+
+  const provider = getPaymentProvider();
+  const authorization = await provider.authorize({
+    amount: pkg.price,
+    currency: "INR",
+    description: `${pkg.package_name} with ${creator.full_name || "creator"}`,
+    customerId: user.id,
+  });
+
+  if (authorization.ok === false) {
+    return jsonResponse({ error: authorization.error }, 402);
+  }
+
+  const { data: booking, error } = await supabase.rpc("create_paid_booking", {
+    _customer_id: user.id,
+    _creator_id: request.creatorId,
+    _package_id: request.packageId,
+    _booking_date: request.bookingDate,
+    _booking_time: request.bookingTime,
+    _notes: request.notes ?? null,
+    _amount: pkg.price,
+    _provider: provider.name,
+    _provider_reference: authorization.reference,
+  });
+
+  if (error) {
+    const released = await provider.void(authorization.reference);
+    if (released.ok === false) {
+      console.error(`Could not void hold ${authorization.reference}: ${released.error}`);
+    }
+    return jsonResponse({ error: `${error.message}. Your card has not been charged.` }, 400);
+  }
+
+  return jsonResponse({ bookingId: booking.id, amount: pkg.price });
+});
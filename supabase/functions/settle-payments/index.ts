@@ -0,0 +1,57 @@
+// Moves the money a booking's status calls for: capture on confirmation, refund or void
+// on cancellation, release on completion. Called by the database when a booking changes
+// status (with its id) and by a schedule (without one) to retry failed steps.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/http.ts";
+import { applyPaymentStep, type PaymentStep } from "../_shared/payments.ts";
+import { getPaymentProvider } from "../_shared/payment-providers.ts";
+
+// authorized -> captured -> released is the longest path
+const MAX_STEPS = 2;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceKey}`) {
+    return jsonResponse({ error: "Not allowed" }, 403);
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+  const { bookingId } = (await req.json().catch(() => ({}))) as { bookingId?: string | null };
+
+  let bookingIds: string[] = bookingId ? [bookingId] : [];
+  if (!bookingId) {
+    const { data, error } = await supabase.rpc("unsettled_payment_bookings");
+    if (error) return jsonResponse({ error: error.message }, 500);
+    bookingIds = data;
+  }
+
+  const failures: string[] = [];
+
+  for (const id of bookingIds) {
+    for (let i = 0; i < MAX_STEPS; i++) {
+      const { data: steps, error } = await supabase.rpc("next_payment_step", { _booking_id: id });
+      const step: PaymentStep | undefined = steps?.[0];
+      if (error || !step) break;
+
+      const result = await applyPaymentStep(getPaymentProvider(step.provider), step);
+      await supabase.rpc("settle_payment_step", {
+        _payment_id: step.payment_id,
+        _from_status: step.from_status,
+        _to_status: step.to_status,
+        _error: result.ok === false ? result.error : null,
+      });
+
+      if (result.ok === false) {
+        failures.push(id);
+        break;
+      }
+    }
+  }
+
+  return jsonResponse({ processed: bookingIds.length, failed: failures });
+});
@@ -0,0 +1,20 @@
+-- Admin accounts are regular Supabase auth users holding the 'admin' role.
+-- Admins are provisioned out-of-band (service role / SQL editor), e.g.:
+--   INSERT INTO public.user_roles (user_id, role)
+--   SELECT id, 'admin' FROM auth.users WHERE email = 'ops@example.com';
+
+-- Admins can read the data backing the admin console
+CREATE POLICY "Admins can view all profiles"
+ON public.profiles FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view all roles"
+ON public.user_roles FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view all bookings"
+ON public.bookings FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,134 @@
+-- Public creator discovery
+-- Only creators who completed onboarding are discoverable, and only their
+-- public fields are exposed. creator_banking is never readable here.
+
+-- Security definer helper so child-table policies don't depend on creator_profiles RLS
+CREATE OR REPLACE FUNCTION public.is_public_creator(_creator_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.creator_profiles
+    WHERE id = _creator_id
+      AND onboarding_completed = true
+  )
+$$;
+
+-- Public read policies for discoverable creators
+CREATE POLICY "Anyone can view specializations of public creators"
+ON public.creator_specializations FOR SELECT
+USING (public.is_public_creator(creator_id));
+
+CREATE POLICY "Anyone can view active pricing of public creators"
+ON public.creator_pricing FOR SELECT
+USING (is_active = true AND public.is_public_creator(creator_id));
+
+CREATE POLICY "Anyone can view portfolios of public creators"
+ON public.creator_portfolio FOR SELECT
+USING (public.is_public_creator(creator_id));
+
+CREATE POLICY "Anyone can view availability of public creators"
+ON public.creator_availability FOR SELECT
+USING (public.is_public_creator(creator_id));
+
+-- Public projection of creator_profiles joined with the display name.
+-- Deliberately omits user_id, email, phone and onboarding internals.
+CREATE OR REPLACE VIEW public.public_creator_profiles AS
+SELECT
+    cp.id,
+    p.full_name,
+    cp.profile_picture_url,
+    cp.bio,
+    cp.state,
+    cp.city,
+    cp.location,
+    cp.languages,
+    cp.created_at
+FROM public.creator_profiles cp
+LEFT JOIN public.profiles p ON p.user_id = cp.user_id
+WHERE cp.onboarding_completed = true;
+
+GRANT SELECT ON public.public_creator_profiles TO anon, authenticated;
+
+-- Filtered, sorted creator search for the influencer discovery page
+CREATE OR REPLACE FUNCTION public.search_creators(
+    _category specialization_category DEFAULT NULL,
+    _skill_level skill_level DEFAULT NULL,
+    _state TEXT DEFAULT NULL,
+    _city TEXT DEFAULT NULL,
+    _languages TEXT[] DEFAULT NULL,
+    _min_price NUMERIC DEFAULT NULL,
+    _max_price NUMERIC DEFAULT NULL,
+    _sort TEXT DEFAULT 'newest'
+)
+RETURNS TABLE (
+    id UUID,
+    full_name TEXT,
+    profile_picture_url TEXT,
+    bio TEXT,
+    state TEXT,
+    city TEXT,
+    languages TEXT[],
+    specializations JSONB,
+    min_price NUMERIC,
+    max_price NUMERIC,
+    portfolio_count BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT
+      pcp.*,
+      (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('category', s.category, 'skill_level', s.skill_level)), '[]'::jsonb)
+        FROM public.creator_specializations s
+        WHERE s.creator_id = pcp.id
+      ) AS specializations,
+      (SELECT MIN(pr.price) FROM public.creator_pricing pr WHERE pr.creator_id = pcp.id AND pr.is_active) AS min_price,
+      (SELECT MAX(pr.price) FROM public.creator_pricing pr WHERE pr.creator_id = pcp.id AND pr.is_active) AS max_price,
+      (SELECT COUNT(*) FROM public.creator_portfolio po WHERE po.creator_id = pcp.id) AS portfolio_count
+    FROM public.public_creator_profiles pcp
+    WHERE (_state IS NULL OR pcp.state = _state)
+      AND (_city IS NULL OR pcp.city ILIKE '%' || _city || '%')
+      AND (_languages IS NULL OR cardinality(_languages) = 0 OR pcp.languages && _languages)
+      -- Skill level is a minimum: 'intermediate' also matches 'expert'
+      AND (
+        (_category IS NULL AND _skill_level IS NULL)
+        OR EXISTS (
+          SELECT 1
+          FROM public.creator_specializations s
+          WHERE s.creator_id = pcp.id
+            AND (_category IS NULL OR s.category = _category)
+            AND (_skill_level IS NULL OR s.skill_level >= _skill_level)
+        )
+      )
+      AND (
+        (_min_price IS NULL AND _max_price IS NULL)
+        OR EXISTS (
+          SELECT 1
+          FROM public.creator_pricing pr
+          WHERE pr.creator_id = pcp.id
+            AND pr.is_active
+            AND (_min_price IS NULL OR pr.price >= _min_price)
+            AND (_max_price IS NULL OR pr.price <= _max_price)
+        )
+      )
+  )
+  SELECT
+    m.id, m.full_name, m.profile_picture_url, m.bio, m.state, m.city, m.languages,
+    m.specializations, m.min_price, m.max_price, m.portfolio_count, m.created_at
+  FROM matches m
+  ORDER BY
+    CASE WHEN _sort = 'price_asc' THEN m.min_price END ASC NULLS LAST,
+    CASE WHEN _sort = 'price_desc' THEN m.min_price END DESC NULLS LAST,
+    CASE WHEN _sort = 'portfolio' THEN m.portfolio_count END DESC,
+    CASE WHEN _sort = 'name' THEN m.full_name END ASC,
+    m.created_at DESC
+$$;
@@ -0,0 +1,77 @@
+-- Bookings against creators' pricing packages
+-- Legacy service bookings keep service_id; creator bookings set creator_id + package_id instead.
+ALTER TABLE public.bookings
+    ALTER COLUMN service_id DROP NOT NULL,
+    ADD COLUMN creator_id UUID REFERENCES public.creator_profiles(id) ON DELETE CASCADE,
+    ADD COLUMN package_id UUID REFERENCES public.creator_pricing(id) ON DELETE SET NULL;
+
+ALTER TABLE public.bookings
+    ADD CONSTRAINT bookings_target_check
+    CHECK (service_id IS NOT NULL OR creator_id IS NOT NULL);
+
+CREATE INDEX idx_bookings_creator_id ON public.bookings(creator_id);
+CREATE INDEX idx_bookings_customer_id ON public.bookings(customer_id);
+
+-- Customers may only book active packages of discoverable creators
+DROP POLICY "Customers can create their own bookings" ON public.bookings;
+
+CREATE POLICY "Customers can create their own bookings"
+ON public.bookings FOR INSERT
+TO authenticated
+WITH CHECK (
+    auth.uid() = customer_id
+    AND (
+        creator_id IS NULL
+        OR (
+            public.is_public_creator(creator_id)
+            AND package_id IN (
+                SELECT id FROM public.creator_pricing
+                WHERE creator_pricing.creator_id = bookings.creator_id
+                  AND is_active = true
+            )
+        )
+    )
+);
+
+-- Creators see and manage bookings made against their profile
+CREATE POLICY "Creators can view their bookings"
+ON public.bookings FOR SELECT
+TO authenticated
+USING (creator_id IN (SELECT id FROM public.creator_profiles WHERE user_id = auth.uid()));
+
+-- Customers keep seeing the package they booked even after it is deactivated
+CREATE POLICY "Customers can view packages they booked"
+ON public.creator_pricing FOR SELECT
+TO authenticated
+USING (id IN (SELECT package_id FROM public.bookings WHERE customer_id = auth.uid()));
+
+-- Let the creator know a new booking request arrived
+CREATE OR REPLACE FUNCTION public.notify_creator_of_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+    _creator_user_id UUID;
+    _package_name TEXT;
+BEGIN
+    IF NEW.creator_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT user_id INTO _creator_user_id FROM public.creator_profiles WHERE id = NEW.creator_id;
+    SELECT package_name INTO _package_name FROM public.creator_pricing WHERE id = NEW.package_id;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+        _creator_user_id,
+        'New booking request',
+        format('%s requested for %s at %s.', COALESCE(_package_name, 'A package'), to_char(NEW.booking_date, 'DD Mon YYYY'), to_char(NEW.booking_time, 'HH24:MI')),
+        'info'
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_booking_created
+AFTER INSERT ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_creator_of_booking();
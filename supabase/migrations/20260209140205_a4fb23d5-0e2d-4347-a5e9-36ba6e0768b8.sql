@@ -0,0 +1,29 @@
+-- Booking length snapshot, so later package edits don't change past bookings' footprint
+ALTER TABLE public.bookings
+    ADD COLUMN duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (duration_minutes > 0);
+
+-- Busy intervals of a creator for slot generation.
+-- Influencers cannot read other customers' bookings, so expose only the times.
+CREATE OR REPLACE FUNCTION public.get_creator_busy_slots(
+    _creator_id UUID,
+    _from DATE,
+    _to DATE
+)
+RETURNS TABLE (
+    booking_date DATE,
+    booking_time TIME,
+    duration_minutes INTEGER,
+    status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.booking_date, b.booking_time, b.duration_minutes, b.status
+  FROM public.bookings b
+  WHERE b.creator_id = _creator_id
+    AND b.booking_date BETWEEN _from AND _to
+    AND b.status IN ('pending', 'confirmed')
+    AND public.is_public_creator(_creator_id)
+$$;
@@ -0,0 +1,77 @@
+-- Creator-side booking management
+
+-- A creator can propose a different slot; the influencer accepts or cancels
+ALTER TABLE public.bookings
+    ADD COLUMN proposed_date DATE,
+    ADD COLUMN proposed_time TIME;
+
+CREATE POLICY "Creators can update their bookings"
+ON public.bookings FOR UPDATE
+TO authenticated
+USING (creator_id IN (SELECT id FROM public.creator_profiles WHERE user_id = auth.uid()));
+
+-- Notify the other party whenever a booking's status or proposed time changes
+CREATE OR REPLACE FUNCTION public.notify_booking_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    _recipient UUID;
+    _title TEXT;
+    _message TEXT;
+    _type TEXT := 'info';
+    _when TEXT := to_char(NEW.booking_date, 'DD Mon YYYY') || ' at ' || to_char(NEW.booking_time, 'HH24:MI');
+BEGIN
+    IF NEW.creator_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Changes made by the influencer go to the creator, everything else to the influencer
+    IF auth.uid() = NEW.customer_id THEN
+        SELECT user_id INTO _recipient FROM public.creator_profiles WHERE id = NEW.creator_id;
+    ELSE
+        _recipient := NEW.customer_id;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        CASE NEW.status
+            WHEN 'confirmed' THEN
+                _title := 'Booking confirmed';
+                _message := format('Your booking on %s is confirmed.', _when);
+                _type := 'success';
+            WHEN 'cancelled' THEN
+                _title := 'Booking cancelled';
+                _message := format('The booking on %s was cancelled.', _when);
+                _type := 'error';
+            WHEN 'completed' THEN
+                _title := 'Booking completed';
+                _message := format('The booking on %s was marked as completed.', _when);
+                _type := 'success';
+            ELSE
+                _title := 'Booking updated';
+                _message := format('The booking on %s is now %s.', _when, NEW.status);
+        END CASE;
+    ELSIF NEW.proposed_date IS NOT NULL
+        AND (NEW.proposed_date IS DISTINCT FROM OLD.proposed_date OR NEW.proposed_time IS DISTINCT FROM OLD.proposed_time) THEN
+        _title := 'New time proposed';
+        _message := format(
+            'The creator proposed %s at %s instead of %s.',
+            to_char(NEW.proposed_date, 'DD Mon YYYY'), to_char(NEW.proposed_time, 'HH24:MI'), _when
+        );
+        _type := 'warning';
+    ELSIF NEW.booking_date IS DISTINCT FROM OLD.booking_date OR NEW.booking_time IS DISTINCT FROM OLD.booking_time THEN
+        _title := 'Booking rescheduled';
+        _message := format('The booking moved to %s.', _when);
+    ELSE
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (_recipient, _title, _message, _type);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_booking_updated
+AFTER UPDATE ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_booking_change();
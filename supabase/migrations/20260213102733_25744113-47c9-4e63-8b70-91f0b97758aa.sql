@@ -0,0 +1,258 @@
+-- Database-enforced booking state machine
+--
+--   pending   -> confirmed | cancelled
+--   confirmed -> completed | cancelled
+--   cancelled, completed are terminal
+--
+-- Who may do what:
+--   creator (owner of the booked profile): confirm, decline/cancel, complete, propose a new time
+--   customer (influencer who booked):      cancel, accept or decline a proposed time
+--   admin:                                 any valid transition
+--
+-- Status changes go through the RPCs below; direct UPDATEs by clients are no longer allowed.
+
+-- Audit trail of every status change
+CREATE TABLE public.booking_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_booking_status_history_booking_id ON public.booking_status_history(booking_id);
+
+ALTER TABLE public.booking_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the booking itself; written only by triggers
+CREATE POLICY "Booking participants can view status history"
+ON public.booking_status_history FOR SELECT
+TO authenticated
+USING (booking_id IN (SELECT id FROM public.bookings));
+
+-- Remove the open-ended update policies
+DROP POLICY "Customers can update their own bookings" ON public.bookings;
+DROP POLICY "Team members can manage all bookings" ON public.bookings;
+DROP POLICY "Creators can update their bookings" ON public.bookings;
+
+-- New bookings always start as pending
+DROP POLICY "Customers can create their own bookings" ON public.bookings;
+
+CREATE POLICY "Customers can create their own bookings"
+ON public.bookings FOR INSERT
+TO authenticated
+WITH CHECK (
+    auth.uid() = customer_id
+    AND status = 'pending'
+    AND (
+        creator_id IS NULL
+        OR (
+            public.is_public_creator(creator_id)
+            AND package_id IN (
+                SELECT id FROM public.creator_pricing
+                WHERE creator_pricing.creator_id = bookings.creator_id
+                  AND is_active = true
+            )
+        )
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.is_valid_booking_transition(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (_from, _to) IN (
+    ('pending', 'confirmed'),
+    ('pending', 'cancelled'),
+    ('confirmed', 'completed'),
+    ('confirmed', 'cancelled')
+  )
+$$;
+
+-- Guard applies to every writer, including the service role
+CREATE OR REPLACE FUNCTION public.enforce_booking_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status
+        AND NOT public.is_valid_booking_transition(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Invalid booking status transition from % to %', OLD.status, NEW.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_booking_status_transition
+BEFORE UPDATE ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_booking_status_transition();
+
+CREATE OR REPLACE FUNCTION public.record_booking_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO public.booking_status_history (booking_id, from_status, to_status, changed_by, reason)
+        VALUES (
+            NEW.id,
+            CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+            NEW.status,
+            auth.uid(),
+            NULLIF(current_setting('app.booking_transition_reason', true), '')
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_booking_status_change
+AFTER INSERT OR UPDATE ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.record_booking_status_change();
+
+-- Whether the user manages the booking: the booked creator, or any team member for legacy service bookings
+CREATE OR REPLACE FUNCTION public.is_booking_creator(_user_id UUID, _booking public.bookings)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _booking.creator_id IS NOT NULL THEN EXISTS (
+      SELECT 1 FROM public.creator_profiles
+      WHERE id = _booking.creator_id AND user_id = _user_id
+    )
+    ELSE public.has_role(_user_id, 'team')
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.transition_booking(
+    _booking_id UUID,
+    _status TEXT,
+    _reason TEXT DEFAULT NULL
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _booking public.bookings;
+    _allowed BOOLEAN;
+BEGIN
+    SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF NOT public.is_valid_booking_transition(_booking.status, _status) THEN
+        RAISE EXCEPTION 'A % booking cannot be marked as %', _booking.status, _status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    _allowed := public.has_role(auth.uid(), 'admin')
+        OR (public.is_booking_creator(auth.uid(), _booking) AND _status IN ('confirmed', 'cancelled', 'completed'))
+        OR (_booking.customer_id = auth.uid() AND _status = 'cancelled');
+
+    IF NOT _allowed THEN
+        RAISE EXCEPTION 'You are not allowed to mark this booking as %', _status
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM set_config('app.booking_transition_reason', COALESCE(_reason, ''), true);
+
+    UPDATE public.bookings
+    SET status = _status, proposed_date = NULL, proposed_time = NULL
+    WHERE id = _booking_id
+    RETURNING * INTO _booking;
+
+    RETURN _booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.propose_booking_time(
+    _booking_id UUID,
+    _date DATE,
+    _time TIME
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _booking public.bookings;
+BEGIN
+    SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF NOT (public.is_booking_creator(auth.uid(), _booking) OR public.has_role(auth.uid(), 'admin')) THEN
+        RAISE EXCEPTION 'Only the creator can propose a new time' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _booking.status NOT IN ('pending', 'confirmed') THEN
+        RAISE EXCEPTION 'Cannot reschedule a % booking', _booking.status USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.bookings
+    SET proposed_date = _date, proposed_time = _time
+    WHERE id = _booking_id
+    RETURNING * INTO _booking;
+
+    RETURN _booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_booking_proposal(
+    _booking_id UUID,
+    _accept BOOLEAN
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _booking public.bookings;
+BEGIN
+    SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF _booking.customer_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only the influencer who booked can respond' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _booking.proposed_date IS NULL OR _booking.proposed_time IS NULL THEN
+        RAISE EXCEPTION 'There is no proposed time to respond to' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _accept THEN
+        PERFORM set_config('app.booking_transition_reason', 'Proposed time accepted', true);
+
+        UPDATE public.bookings
+        SET booking_date = proposed_date,
+            booking_time = proposed_time,
+            proposed_date = NULL,
+            proposed_time = NULL,
+            status = 'confirmed'
+        WHERE id = _booking_id
+        RETURNING * INTO _booking;
+    ELSE
+        PERFORM set_config('app.booking_transition_reason', 'Proposed time declined', true);
+
+        UPDATE public.bookings
+        SET proposed_date = NULL, proposed_time = NULL, status = 'cancelled'
+        WHERE id = _booking_id
+        RETURNING * INTO _booking;
+    END IF;
+
+    RETURN _booking;
+END;
+$$;
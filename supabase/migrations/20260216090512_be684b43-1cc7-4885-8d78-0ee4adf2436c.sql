@@ -0,0 +1,9 @@
+-- Realtime notifications
+
+-- Deliver inserts and read-state changes to subscribed clients (RLS still applies)
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Paging newest-first and counting unread per user
+CREATE INDEX idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_user_unread ON public.notifications(user_id) WHERE is_read = false;
@@ -0,0 +1,115 @@
+-- Per-booking conversations between the influencer and the creator
+
+-- Whether the user is the influencer who booked or the creator who was booked
+CREATE OR REPLACE FUNCTION public.is_booking_participant(_user_id UUID, _booking_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.id = _booking_id
+      AND (
+        b.customer_id = _user_id
+        OR b.creator_id IN (SELECT id FROM public.creator_profiles WHERE user_id = _user_id)
+      )
+  )
+$$;
+
+CREATE TABLE public.messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    body TEXT,
+    attachment_path TEXT,
+    attachment_name TEXT,
+    attachment_type TEXT,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT messages_has_content CHECK (
+        NULLIF(btrim(body), '') IS NOT NULL OR attachment_path IS NOT NULL
+    ),
+    CONSTRAINT messages_body_length CHECK (char_length(body) <= 4000)
+);
+
+CREATE INDEX idx_messages_booking_created ON public.messages(booking_id, created_at);
+
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view booking messages"
+ON public.messages FOR SELECT
+TO authenticated
+USING (public.is_booking_participant(auth.uid(), booking_id));
+
+CREATE POLICY "Admins can view all messages"
+ON public.messages FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Participants can send booking messages"
+ON public.messages FOR INSERT
+TO authenticated
+WITH CHECK (
+    sender_id = auth.uid()
+    AND read_at IS NULL
+    AND public.is_booking_participant(auth.uid(), booking_id)
+);
+
+-- Read receipts: only the recipient marks messages read, and only read_at changes
+CREATE OR REPLACE FUNCTION public.mark_booking_messages_read(_booking_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _count INTEGER;
+BEGIN
+    IF NOT public.is_booking_participant(auth.uid(), _booking_id) THEN
+        RAISE EXCEPTION 'Not a participant of this booking' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE public.messages
+    SET read_at = now()
+    WHERE booking_id = _booking_id
+      AND sender_id <> auth.uid()
+      AND read_at IS NULL;
+
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    RETURN _count;
+END;
+$$;
+
+-- Realtime delivery of new messages and read receipts
+ALTER TABLE public.messages REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+
+-- Private bucket for attachments, stored as <booking_id>/<file>
+INSERT INTO storage.buckets (id, name, public) VALUES ('booking-attachments', 'booking-attachments', false);
+
+CREATE POLICY "Participants can upload booking attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'booking-attachments'
+    AND EXISTS (
+        SELECT 1 FROM public.bookings b
+        WHERE b.id::text = (storage.foldername(name))[1]
+          AND public.is_booking_participant(auth.uid(), b.id)
+    )
+);
+
+CREATE POLICY "Participants can view booking attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'booking-attachments'
+    AND EXISTS (
+        SELECT 1 FROM public.bookings b
+        WHERE b.id::text = (storage.foldername(name))[1]
+          AND (public.is_booking_participant(auth.uid(), b.id) OR has_role(auth.uid(), 'admin'))
+    )
+);
@@ -0,0 +1,264 @@
+-- Ratings and reviews for completed bookings
+
+CREATE TABLE public.reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+    creator_id UUID NOT NULL REFERENCES public.creator_profiles(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    comment TEXT CHECK (char_length(comment) <= 2000),
+    creator_reply TEXT CHECK (char_length(creator_reply) <= 2000),
+    replied_at TIMESTAMP WITH TIME ZONE,
+    is_hidden BOOLEAN NOT NULL DEFAULT false,
+    hidden_at TIMESTAMP WITH TIME ZONE,
+    hidden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reviews_creator_id ON public.reviews(creator_id);
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_reviews_updated_at
+BEFORE UPDATE ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Influencers review their own completed bookings, once (booking_id is unique)
+CREATE POLICY "Customers can review their completed bookings"
+ON public.reviews FOR INSERT
+TO authenticated
+WITH CHECK (
+    customer_id = auth.uid()
+    AND creator_reply IS NULL
+    AND is_hidden = false
+    AND booking_id IN (
+        SELECT id FROM public.bookings
+        WHERE bookings.customer_id = auth.uid()
+          AND bookings.status = 'completed'
+          AND bookings.creator_id = reviews.creator_id
+    )
+);
+
+CREATE POLICY "Customers can view their own reviews"
+ON public.reviews FOR SELECT
+TO authenticated
+USING (customer_id = auth.uid());
+
+CREATE POLICY "Creators can view their reviews"
+ON public.reviews FOR SELECT
+TO authenticated
+USING (creator_id IN (SELECT id FROM public.creator_profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Admins can view all reviews"
+ON public.reviews FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- One public reply per review, by the reviewed creator
+CREATE OR REPLACE FUNCTION public.reply_to_review(_review_id UUID, _reply TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _review public.reviews;
+BEGIN
+    SELECT * INTO _review FROM public.reviews WHERE id = _review_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Review not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.creator_profiles
+        WHERE id = _review.creator_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Only the reviewed creator can reply' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _review.creator_reply IS NOT NULL THEN
+        RAISE EXCEPTION 'This review already has a reply' USING ERRCODE = 'unique_violation';
+    END IF;
+
+    IF NULLIF(btrim(_reply), '') IS NULL THEN
+        RAISE EXCEPTION 'Reply cannot be empty' USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.reviews
+    SET creator_reply = btrim(_reply), replied_at = now()
+    WHERE id = _review_id;
+END;
+$$;
+
+-- Moderation
+CREATE OR REPLACE FUNCTION public.set_review_hidden(_review_id UUID, _hidden BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can moderate reviews' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE public.reviews
+    SET is_hidden = _hidden,
+        hidden_at = CASE WHEN _hidden THEN now() END,
+        hidden_by = CASE WHEN _hidden THEN auth.uid() END
+    WHERE id = _review_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Review not found' USING ERRCODE = 'no_data_found';
+    END IF;
+END;
+$$;
+
+-- Let the creator know about new reviews
+CREATE OR REPLACE FUNCTION public.notify_creator_of_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.notifications (user_id, title, message, type)
+    SELECT cp.user_id,
+           'New review',
+           'You received a ' || NEW.rating || '-star review.',
+           'info'
+    FROM public.creator_profiles cp
+    WHERE cp.id = NEW.creator_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_review_created
+AFTER INSERT ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_creator_of_review();
+
+-- Public projection of visible reviews, with the reviewer's first name only
+CREATE OR REPLACE VIEW public.public_creator_reviews AS
+SELECT
+    r.id,
+    r.creator_id,
+    r.rating,
+    r.comment,
+    r.creator_reply,
+    r.replied_at,
+    r.created_at,
+    split_part(COALESCE(p.full_name, ''), ' ', 1) AS reviewer_name
+FROM public.reviews r
+LEFT JOIN public.profiles p ON p.user_id = r.customer_id
+WHERE r.is_hidden = false
+  AND public.is_public_creator(r.creator_id);
+
+GRANT SELECT ON public.public_creator_reviews TO anon, authenticated;
+
+-- Rating aggregates on the public profile (hidden reviews don't count)
+CREATE OR REPLACE VIEW public.public_creator_profiles AS
+SELECT
+    cp.id,
+    p.full_name,
+    cp.profile_picture_url,
+    cp.bio,
+    cp.state,
+    cp.city,
+    cp.location,
+    cp.languages,
+    cp.created_at,
+    ratings.avg_rating,
+    COALESCE(ratings.review_count, 0) AS review_count
+FROM public.creator_profiles cp
+LEFT JOIN public.profiles p ON p.user_id = cp.user_id
+LEFT JOIN LATERAL (
+    SELECT ROUND(AVG(r.rating), 1) AS avg_rating, COUNT(*) AS review_count
+    FROM public.reviews r
+    WHERE r.creator_id = cp.id AND r.is_hidden = false
+) ratings ON true
+WHERE cp.onboarding_completed = true;
+
+-- Discovery results carry the rating and can be sorted by it
+DROP FUNCTION public.search_creators(specialization_category, skill_level, TEXT, TEXT, TEXT[], NUMERIC, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_creators(
+    _category specialization_category DEFAULT NULL,
+    _skill_level skill_level DEFAULT NULL,
+    _state TEXT DEFAULT NULL,
+    _city TEXT DEFAULT NULL,
+    _languages TEXT[] DEFAULT NULL,
+    _min_price NUMERIC DEFAULT NULL,
+    _max_price NUMERIC DEFAULT NULL,
+    _sort TEXT DEFAULT 'newest'
+)
+RETURNS TABLE (
+    id UUID,
+    full_name TEXT,
+    profile_picture_url TEXT,
+    bio TEXT,
+    state TEXT,
+    city TEXT,
+    languages TEXT[],
+    specializations JSONB,
+    min_price NUMERIC,
+    max_price NUMERIC,
+    portfolio_count BIGINT,
+    avg_rating NUMERIC,
+    review_count BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT
+      pcp.*,
+      (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('category', s.category, 'skill_level', s.skill_level)), '[]'::jsonb)
+        FROM public.creator_specializations s
+        WHERE s.creator_id = pcp.id
+      ) AS specializations,
+      (SELECT MIN(pr.price) FROM public.creator_pricing pr WHERE pr.creator_id = pcp.id AND pr.is_active) AS min_price,
+      (SELECT MAX(pr.price) FROM public.creator_pricing pr WHERE pr.creator_id = pcp.id AND pr.is_active) AS max_price,
+      (SELECT COUNT(*) FROM public.creator_portfolio po WHERE po.creator_id = pcp.id) AS portfolio_count
+    FROM public.public_creator_profiles pcp
+    WHERE (_state IS NULL OR pcp.state = _state)
+      AND (_city IS NULL OR pcp.city ILIKE '%' || _city || '%')
+      AND (_languages IS NULL OR cardinality(_languages) = 0 OR pcp.languages && _languages)
+      -- Skill level is a minimum: 'intermediate' also matches 'expert'
+      AND (
+        (_category IS NULL AND _skill_level IS NULL)
+        OR EXISTS (
+          SELECT 1
+          FROM public.creator_specializations s
+          WHERE s.creator_id = pcp.id
+            AND (_category IS NULL OR s.category = _category)
+            AND (_skill_level IS NULL OR s.skill_level >= _skill_level)
+        )
+      )
+      AND (
+        (_min_price IS NULL AND _max_price IS NULL)
+        OR EXISTS (
+          SELECT 1
+          FROM public.creator_pricing pr
+          WHERE pr.creator_id = pcp.id
+            AND pr.is_active
+            AND (_min_price IS NULL OR pr.price >= _min_price)
+            AND (_max_price IS NULL OR pr.price <= _max_price)
+        )
+      )
+  )
+  SELECT
+    m.id, m.full_name, m.profile_picture_url, m.bio, m.state, m.city, m.languages,
+    m.specializations, m.min_price, m.max_price, m.portfolio_count,
+    m.avg_rating, m.review_count, m.created_at
+  FROM matches m
+  ORDER BY
+    CASE WHEN _sort = 'price_asc' THEN m.min_price END ASC NULLS LAST,
+    CASE WHEN _sort = 'price_desc' THEN m.min_price END DESC NULLS LAST,
+    CASE WHEN _sort = 'portfolio' THEN m.portfolio_count END DESC,
+    CASE WHEN _sort = 'rating' THEN m.avg_rating END DESC NULLS LAST,
+    CASE WHEN _sort = 'rating' THEN m.review_count END DESC,
+    CASE WHEN _sort = 'name' THEN m.full_name END ASC,
+    m.created_at DESC
+$$;
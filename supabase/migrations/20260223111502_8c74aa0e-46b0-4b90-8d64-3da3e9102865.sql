@@ -0,0 +1,155 @@
+-- Booking payments held in escrow
+--
+-- Money moves with the booking:
+--   booking requested  -> payment authorized (card hold with the provider)
+--   booking confirmed  -> captured (held by the platform)
+--   booking completed  -> released to the creator
+--   booking cancelled  -> refunded if captured, voided if only authorized
+--
+-- The amount always comes from the booked package, never from the client.
+
+CREATE TABLE public.payments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    creator_id UUID NOT NULL REFERENCES public.creator_profiles(id) ON DELETE CASCADE,
+    amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+    currency TEXT NOT NULL DEFAULT 'INR',
+    status TEXT NOT NULL DEFAULT 'authorized'
+        CHECK (status IN ('authorized', 'captured', 'released', 'refunded', 'voided')),
+    provider TEXT NOT NULL,
+    provider_reference TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payments_creator_id ON public.payments(creator_id);
+CREATE INDEX idx_payments_customer_id ON public.payments(customer_id);
+
+-- Append-only record of every money movement
+CREATE TABLE public.payment_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('authorize', 'capture', 'release', 'refund', 'void')),
+    amount NUMERIC(10, 2) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_ledger_payment_id ON public.payment_ledger(payment_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_payments_updated_at
+BEFORE UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Read-only for clients; rows are written by the functions below
+CREATE POLICY "Customers can view their payments"
+ON public.payments FOR SELECT
+TO authenticated
+USING (customer_id = auth.uid());
+
+CREATE POLICY "Creators can view payments for their bookings"
+ON public.payments FOR SELECT
+TO authenticated
+USING (creator_id IN (SELECT id FROM public.creator_profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Admins can view all payments"
+ON public.payments FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Payment ledger follows payment visibility"
+ON public.payment_ledger FOR SELECT
+TO authenticated
+USING (payment_id IN (SELECT id FROM public.payments));
+
+-- Called by the influencer right after the provider authorized the card
+CREATE OR REPLACE FUNCTION public.record_booking_payment(
+    _booking_id UUID,
+    _provider TEXT,
+    _provider_reference TEXT
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _booking public.bookings;
+    _amount NUMERIC(10, 2);
+    _payment public.payments;
+BEGIN
+    SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+    IF NOT FOUND OR _booking.customer_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF _booking.status <> 'pending' THEN
+        RAISE EXCEPTION 'Only pending bookings can be paid' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT price INTO _amount FROM public.creator_pricing WHERE id = _booking.package_id;
+    IF _amount IS NULL THEN
+        RAISE EXCEPTION 'Booking has no package to pay for' USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.payments (booking_id, customer_id, creator_id, amount, provider, provider_reference)
+    VALUES (_booking.id, _booking.customer_id, _booking.creator_id, _amount, _provider, _provider_reference)
+    RETURNING * INTO _payment;
+
+    INSERT INTO public.payment_ledger (payment_id, entry_type, amount)
+    VALUES (_payment.id, 'authorize', _amount);
+
+    RETURN _payment;
+END;
+$$;
+
+-- Escrow follows the booking state machine
+CREATE OR REPLACE FUNCTION public.apply_booking_escrow()
+RETURNS TRIGGER AS $$
+DECLARE
+    _payment public.payments;
+    _next_status TEXT;
+    _entry_type TEXT;
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO _payment FROM public.payments WHERE booking_id = NEW.id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'confirmed' AND _payment.status = 'authorized' THEN
+        _next_status := 'captured';
+        _entry_type := 'capture';
+    ELSIF NEW.status = 'completed' AND _payment.status = 'captured' THEN
+        _next_status := 'released';
+        _entry_type := 'release';
+    ELSIF NEW.status = 'cancelled' AND _payment.status = 'captured' THEN
+        _next_status := 'refunded';
+        _entry_type := 'refund';
+    ELSIF NEW.status = 'cancelled' AND _payment.status = 'authorized' THEN
+        _next_status := 'voided';
+        _entry_type := 'void';
+    ELSE
+        RETURN NEW;
+    END IF;
+
+    UPDATE public.payments SET status = _next_status WHERE id = _payment.id;
+
+    INSERT INTO public.payment_ledger (payment_id, entry_type, amount)
+    VALUES (_payment.id, _entry_type, _payment.amount);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_booking_escrow
+AFTER UPDATE OF status ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_booking_escrow();
@@ -0,0 +1,261 @@
+-- Creator payouts
+--
+-- Released payments (completed, paid bookings) are grouped per creator into payout
+-- batches for a period. The platform keeps a configurable commission; the rest is
+-- paid to the creator's bank account or UPI from creator_banking.
+--
+--   batch:  scheduled -> processing (admin approved) -> paid | failed
+--   payout: scheduled -> processing -> paid | failed
+
+-- Single-row platform configuration
+CREATE TABLE public.platform_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    commission_percent NUMERIC(5, 2) NOT NULL DEFAULT 15 CHECK (commission_percent >= 0 AND commission_percent < 100),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.platform_settings (id) VALUES (true);
+
+ALTER TABLE public.platform_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_platform_settings_updated_at
+BEFORE UPDATE ON public.platform_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Authenticated users can view platform settings"
+ON public.platform_settings FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update platform settings"
+ON public.platform_settings FOR UPDATE
+TO authenticated
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE TABLE public.payout_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    commission_percent NUMERIC(5, 2) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'processing', 'paid', 'failed')),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (period_end >= period_start)
+);
+
+CREATE TABLE public.payouts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID NOT NULL REFERENCES public.payout_batches(id) ON DELETE CASCADE,
+    creator_id UUID NOT NULL REFERENCES public.creator_profiles(id) ON DELETE CASCADE,
+    gross_amount NUMERIC(10, 2) NOT NULL,
+    commission_amount NUMERIC(10, 2) NOT NULL,
+    net_amount NUMERIC(10, 2) NOT NULL,
+    payout_method TEXT CHECK (payout_method IN ('bank_transfer', 'upi')),
+    status TEXT NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'processing', 'paid', 'failed')),
+    failure_reason TEXT,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (batch_id, creator_id)
+);
+
+-- Each released payment is paid out exactly once
+CREATE TABLE public.payout_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payout_id UUID NOT NULL REFERENCES public.payouts(id) ON DELETE CASCADE,
+    payment_id UUID NOT NULL UNIQUE REFERENCES public.payments(id) ON DELETE CASCADE,
+    amount NUMERIC(10, 2) NOT NULL
+);
+
+CREATE INDEX idx_payouts_creator_id ON public.payouts(creator_id);
+CREATE INDEX idx_payout_items_payout_id ON public.payout_items(payout_id);
+
+ALTER TABLE public.payout_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payout_items ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_payout_batches_updated_at
+BEFORE UPDATE ON public.payout_batches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_payouts_updated_at
+BEFORE UPDATE ON public.payouts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Admins can view payout batches"
+ON public.payout_batches FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Creators can view batches with their payouts"
+ON public.payout_batches FOR SELECT
+TO authenticated
+USING (id IN (SELECT batch_id FROM public.payouts));
+
+CREATE POLICY "Creators can view their payouts"
+ON public.payouts FOR SELECT
+TO authenticated
+USING (creator_id IN (SELECT id FROM public.creator_profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Admins can view all payouts"
+ON public.payouts FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Payout items follow payout visibility"
+ON public.payout_items FOR SELECT
+TO authenticated
+USING (payout_id IN (SELECT id FROM public.payouts));
+
+-- Groups every released, not yet paid out payment for bookings in the period
+CREATE OR REPLACE FUNCTION public.create_payout_batch(_period_start DATE, _period_end DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _batch_id UUID;
+    _commission NUMERIC(5, 2);
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can create payout batches' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _period_end < _period_start THEN
+        RAISE EXCEPTION 'Period end must not be before its start' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT commission_percent INTO _commission FROM public.platform_settings WHERE id;
+
+    CREATE TEMP TABLE _eligible ON COMMIT DROP AS
+    SELECT p.id AS payment_id, p.creator_id, p.amount
+    FROM public.payments p
+    JOIN public.bookings b ON b.id = p.booking_id
+    WHERE p.status = 'released'
+      AND b.booking_date BETWEEN _period_start AND _period_end
+      AND NOT EXISTS (SELECT 1 FROM public.payout_items pi WHERE pi.payment_id = p.id);
+
+    IF NOT EXISTS (SELECT 1 FROM _eligible) THEN
+        RAISE EXCEPTION 'No completed, paid bookings to pay out in this period' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    INSERT INTO public.payout_batches (period_start, period_end, commission_percent, created_by)
+    VALUES (_period_start, _period_end, _commission, auth.uid())
+    RETURNING id INTO _batch_id;
+
+    INSERT INTO public.payouts (batch_id, creator_id, gross_amount, commission_amount, net_amount, payout_method)
+    SELECT
+        _batch_id,
+        e.creator_id,
+        SUM(e.amount),
+        ROUND(SUM(e.amount) * _commission / 100, 2),
+        SUM(e.amount) - ROUND(SUM(e.amount) * _commission / 100, 2),
+        (
+            SELECT CASE
+                WHEN cb.account_number IS NOT NULL AND cb.ifsc_code IS NOT NULL THEN 'bank_transfer'
+                WHEN cb.upi_id IS NOT NULL THEN 'upi'
+            END
+            FROM public.creator_banking cb
+            WHERE cb.creator_id = e.creator_id
+        )
+    FROM _eligible e
+    GROUP BY e.creator_id;
+
+    INSERT INTO public.payout_items (payout_id, payment_id, amount)
+    SELECT po.id, e.payment_id, e.amount
+    FROM _eligible e
+    JOIN public.payouts po ON po.batch_id = _batch_id AND po.creator_id = e.creator_id;
+
+    RETURN _batch_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_payout_batch(_batch_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can approve payouts' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE public.payout_batches
+    SET status = 'processing', approved_by = auth.uid(), approved_at = now()
+    WHERE id = _batch_id AND status = 'scheduled';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only scheduled batches can be approved' USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.payouts SET status = 'processing' WHERE batch_id = _batch_id;
+END;
+$$;
+
+-- Records the outcome of a transfer; the batch settles once every payout has one
+CREATE OR REPLACE FUNCTION public.set_payout_result(
+    _payout_id UUID,
+    _status TEXT,
+    _failure_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _payout public.payouts;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can settle payouts' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _status NOT IN ('paid', 'failed') THEN
+        RAISE EXCEPTION 'Payout result must be paid or failed' USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.payouts
+    SET status = _status,
+        paid_at = CASE WHEN _status = 'paid' THEN now() END,
+        failure_reason = CASE WHEN _status = 'failed' THEN _failure_reason END
+    WHERE id = _payout_id AND status = 'processing'
+    RETURNING * INTO _payout;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only processing payouts can be settled' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- A failed transfer frees its payments for a later batch
+    IF _status = 'failed' THEN
+        DELETE FROM public.payout_items WHERE payout_id = _payout_id;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.payouts WHERE batch_id = _payout.batch_id AND status = 'processing'
+    ) THEN
+        UPDATE public.payout_batches
+        SET status = CASE
+            WHEN EXISTS (SELECT 1 FROM public.payouts WHERE batch_id = _payout.batch_id AND status = 'failed')
+            THEN 'failed' ELSE 'paid' END
+        WHERE id = _payout.batch_id;
+    END IF;
+
+    IF _status = 'paid' THEN
+        INSERT INTO public.notifications (user_id, title, message, type)
+        SELECT cp.user_id, 'Payout sent', 'Your payout of ₹' || _payout.net_amount || ' is on its way.', 'success'
+        FROM public.creator_profiles cp
+        WHERE cp.id = _payout.creator_id;
+    END IF;
+END;
+$$;
@@ -0,0 +1,253 @@
+-- Encrypt creator banking details at rest
+--
+-- Account numbers and UPI IDs are encrypted with pgcrypto using a key kept in Supabase
+-- Vault. Clients only ever see masked values; the full details are available to admins
+-- through reveal_creator_banking, which records every access in banking_access_log.
+-- Creators write their details through save_creator_banking.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'banking_encryption_key') THEN
+        PERFORM vault.create_secret(encode(extensions.gen_random_bytes(32), 'hex'), 'banking_encryption_key');
+    END IF;
+END;
+$$;
+
+-- Only callable from other SECURITY DEFINER functions
+CREATE OR REPLACE FUNCTION public.banking_encryption_key()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'banking_encryption_key'
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.banking_encryption_key() FROM PUBLIC, anon, authenticated;
+
+-- "12345678901" -> "8901"
+CREATE OR REPLACE FUNCTION public.mask_account_number(_account_number TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT NULLIF(right(regexp_replace(_account_number, '\s', '', 'g'), 4), '')
+$$;
+
+-- "jane.doe@okaxis" -> "ja•••@okaxis"
+CREATE OR REPLACE FUNCTION public.mask_upi_id(_upi_id TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN NULLIF(trim(_upi_id), '') IS NULL THEN NULL
+        ELSE left(split_part(trim(_upi_id), '@', 1), 2) || '•••@' || split_part(trim(_upi_id), '@', 2)
+    END
+$$;
+
+ALTER TABLE public.creator_banking
+    ADD COLUMN account_number_encrypted BYTEA,
+    ADD COLUMN account_number_last4 TEXT,
+    ADD COLUMN upi_id_encrypted BYTEA,
+    ADD COLUMN upi_id_masked TEXT;
+
+UPDATE public.creator_banking
+SET account_number_encrypted = CASE
+        WHEN NULLIF(trim(account_number), '') IS NOT NULL
+        THEN extensions.pgp_sym_encrypt(trim(account_number), public.banking_encryption_key())
+    END,
+    account_number_last4 = public.mask_account_number(account_number),
+    upi_id_encrypted = CASE
+        WHEN NULLIF(trim(upi_id), '') IS NOT NULL
+        THEN extensions.pgp_sym_encrypt(trim(upi_id), public.banking_encryption_key())
+    END,
+    upi_id_masked = public.mask_upi_id(upi_id);
+
+ALTER TABLE public.creator_banking
+    DROP COLUMN account_number,
+    DROP COLUMN upi_id;
+
+-- Clients can read the masked columns only and never write the table directly
+REVOKE ALL ON public.creator_banking FROM anon, authenticated;
+GRANT SELECT (
+    id, creator_id, account_holder_name, bank_name, ifsc_code,
+    account_number_last4, upi_id_masked, created_at, updated_at
+) ON public.creator_banking TO authenticated;
+
+DROP POLICY "Creators can manage their banking details" ON public.creator_banking;
+DROP POLICY "Admins can view banking details" ON public.creator_banking;
+
+CREATE POLICY "Creators can view their masked banking details"
+ON public.creator_banking FOR SELECT
+TO authenticated
+USING (creator_id IN (SELECT id FROM public.creator_profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Admins can view masked banking details"
+ON public.creator_banking FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- A NULL argument keeps the stored value, an empty string clears it
+CREATE OR REPLACE FUNCTION public.save_creator_banking(
+    _creator_id UUID,
+    _account_holder_name TEXT,
+    _bank_name TEXT,
+    _ifsc_code TEXT,
+    _account_number TEXT DEFAULT NULL,
+    _upi_id TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _key TEXT := public.banking_encryption_key();
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.creator_profiles WHERE id = _creator_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'You can only update your own banking details' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    INSERT INTO public.creator_banking (creator_id, account_holder_name, bank_name, ifsc_code)
+    VALUES (_creator_id, NULLIF(trim(_account_holder_name), ''), NULLIF(trim(_bank_name), ''), NULLIF(upper(trim(_ifsc_code)), ''))
+    ON CONFLICT (creator_id) DO UPDATE
+    SET account_holder_name = EXCLUDED.account_holder_name,
+        bank_name = EXCLUDED.bank_name,
+        ifsc_code = EXCLUDED.ifsc_code;
+
+    IF _account_number IS NOT NULL THEN
+        UPDATE public.creator_banking
+        SET account_number_encrypted = CASE
+                WHEN NULLIF(trim(_account_number), '') IS NOT NULL
+                THEN extensions.pgp_sym_encrypt(trim(_account_number), _key)
+            END,
+            account_number_last4 = public.mask_account_number(_account_number)
+        WHERE creator_id = _creator_id;
+    END IF;
+
+    IF _upi_id IS NOT NULL THEN
+        UPDATE public.creator_banking
+        SET upi_id_encrypted = CASE
+                WHEN NULLIF(trim(_upi_id), '') IS NOT NULL
+                THEN extensions.pgp_sym_encrypt(trim(_upi_id), _key)
+            END,
+            upi_id_masked = public.mask_upi_id(_upi_id)
+        WHERE creator_id = _creator_id;
+    END IF;
+END;
+$$;
+
+CREATE TABLE public.banking_access_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    creator_id UUID NOT NULL REFERENCES public.creator_profiles(id) ON DELETE CASCADE,
+    accessed_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (char_length(trim(reason)) BETWEEN 3 AND 500),
+    accessed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_banking_access_log_creator_id ON public.banking_access_log(creator_id);
+
+ALTER TABLE public.banking_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view banking access log"
+ON public.banking_access_log FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- Full banking details for an admin, who must give a reason that is kept in the audit log
+CREATE OR REPLACE FUNCTION public.reveal_creator_banking(_creator_id UUID, _reason TEXT)
+RETURNS TABLE (account_number TEXT, upi_id TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _key TEXT := public.banking_encryption_key();
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can view full banking details' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    INSERT INTO public.banking_access_log (creator_id, accessed_by, reason)
+    VALUES (_creator_id, auth.uid(), trim(_reason));
+
+    RETURN QUERY
+    SELECT
+        extensions.pgp_sym_decrypt(cb.account_number_encrypted, _key),
+        extensions.pgp_sym_decrypt(cb.upi_id_encrypted, _key)
+    FROM public.creator_banking cb
+    WHERE cb.creator_id = _creator_id;
+END;
+$$;
+
+-- Payout method now comes from the encrypted columns
+CREATE OR REPLACE FUNCTION public.create_payout_batch(_period_start DATE, _period_end DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _batch_id UUID;
+    _commission NUMERIC(5, 2);
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can create payout batches' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _period_end < _period_start THEN
+        RAISE EXCEPTION 'Period end must not be before its start' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT commission_percent INTO _commission FROM public.platform_settings WHERE id;
+
+    CREATE TEMP TABLE _eligible ON COMMIT DROP AS
+    SELECT p.id AS payment_id, p.creator_id, p.amount
+    FROM public.payments p
+    JOIN public.bookings b ON b.id = p.booking_id
+    WHERE p.status = 'released'
+      AND b.booking_date BETWEEN _period_start AND _period_end
+      AND NOT EXISTS (SELECT 1 FROM public.payout_items pi WHERE pi.payment_id = p.id);
+
+    IF NOT EXISTS (SELECT 1 FROM _eligible) THEN
+        RAISE EXCEPTION 'No completed, paid bookings to pay out in this period' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    INSERT INTO public.payout_batches (period_start, period_end, commission_percent, created_by)
+    VALUES (_period_start, _period_end, _commission, auth.uid())
+    RETURNING id INTO _batch_id;
+
+    INSERT INTO public.payouts (batch_id, creator_id, gross_amount, commission_amount, net_amount, payout_method)
+    SELECT
+        _batch_id,
+        e.creator_id,
+        SUM(e.amount),
+        ROUND(SUM(e.amount) * _commission / 100, 2),
+        SUM(e.amount) - ROUND(SUM(e.amount) * _commission / 100, 2),
+        (
+            SELECT CASE
+                WHEN cb.account_number_encrypted IS NOT NULL AND cb.ifsc_code IS NOT NULL THEN 'bank_transfer'
+                WHEN cb.upi_id_encrypted IS NOT NULL THEN 'upi'
+            END
+            FROM public.creator_banking cb
+            WHERE cb.creator_id = e.creator_id
+        )
+    FROM _eligible e
+    GROUP BY e.creator_id;
+
+    INSERT INTO public.payout_items (payout_id, payment_id, amount)
+    SELECT po.id, e.payment_id, e.amount
+    FROM _eligible e
+    JOIN public.payouts po ON po.batch_id = _batch_id AND po.creator_id = e.creator_id;
+
+    RETURN _batch_id;
+END;
+$$;
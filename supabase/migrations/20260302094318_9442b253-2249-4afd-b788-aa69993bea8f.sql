@@ -0,0 +1,76 @@
+-- Banking identifier formats
+--
+-- Mirrors the validation in src/lib/banking.ts. Existing rows are left as they are
+-- (NOT VALID); every new write has to match.
+
+ALTER TABLE public.creator_banking
+    ADD CONSTRAINT creator_banking_ifsc_code_format
+        CHECK (ifsc_code ~ '^[A-Z]{4}0[A-Z0-9]{6}$') NOT VALID,
+    ADD CONSTRAINT creator_banking_account_number_last4_format
+        CHECK (account_number_last4 ~ '^[0-9]{4}$') NOT VALID,
+    ADD CONSTRAINT creator_banking_upi_id_masked_format
+        CHECK (upi_id_masked ~ '^[^@]{1,2}•••@[a-zA-Z][a-zA-Z0-9]{1,63}$') NOT VALID,
+    ADD CONSTRAINT creator_banking_account_holder_name_length
+        CHECK (char_length(account_holder_name) <= 100) NOT VALID,
+    ADD CONSTRAINT creator_banking_bank_name_length
+        CHECK (char_length(bank_name) <= 100) NOT VALID;
+
+CREATE OR REPLACE FUNCTION public.save_creator_banking(
+    _creator_id UUID,
+    _account_holder_name TEXT,
+    _bank_name TEXT,
+    _ifsc_code TEXT,
+    _account_number TEXT DEFAULT NULL,
+    _upi_id TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _key TEXT := public.banking_encryption_key();
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.creator_profiles WHERE id = _creator_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'You can only update your own banking details' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- The encrypted values cannot be checked by constraints, so validate them here
+    IF NULLIF(regexp_replace(_account_number, '\s', '', 'g'), '') !~ '^[0-9]{9,18}$' THEN
+        RAISE EXCEPTION 'Account number should be 9 to 18 digits' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NULLIF(trim(_upi_id), '') !~ '^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$' THEN
+        RAISE EXCEPTION 'UPI ID should look like yourname@bank' USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.creator_banking (creator_id, account_holder_name, bank_name, ifsc_code)
+    VALUES (_creator_id, NULLIF(trim(_account_holder_name), ''), NULLIF(trim(_bank_name), ''), NULLIF(upper(trim(_ifsc_code)), ''))
+    ON CONFLICT (creator_id) DO UPDATE
+    SET account_holder_name = EXCLUDED.account_holder_name,
+        bank_name = EXCLUDED.bank_name,
+        ifsc_code = EXCLUDED.ifsc_code;
+
+    IF _account_number IS NOT NULL THEN
+        UPDATE public.creator_banking
+        SET account_number_encrypted = CASE
+                WHEN NULLIF(trim(_account_number), '') IS NOT NULL
+                THEN extensions.pgp_sym_encrypt(regexp_replace(_account_number, '\s', '', 'g'), _key)
+            END,
+            account_number_last4 = public.mask_account_number(_account_number)
+        WHERE creator_id = _creator_id;
+    END IF;
+
+    IF _upi_id IS NOT NULL THEN
+        UPDATE public.creator_banking
+        SET upi_id_encrypted = CASE
+                WHEN NULLIF(trim(_upi_id), '') IS NOT NULL
+                THEN extensions.pgp_sym_encrypt(trim(_upi_id), _key)
+            END,
+            upi_id_masked = public.mask_upi_id(_upi_id)
+        WHERE creator_id = _creator_id;
+    END IF;
+END;
+$$;
@@ -0,0 +1,212 @@
+-- Creator verification (KYC)
+--
+-- Creators upload an ID document after onboarding and an admin reviews it. Only
+-- approved creators are discoverable and bookable.
+--
+--   pending_review -> approved | rejected
+--   rejected       -> pending_review (new document)
+--   approved      <-> suspended
+
+ALTER TABLE public.creator_profiles
+    ADD COLUMN verification_status TEXT NOT NULL DEFAULT 'pending_review'
+        CHECK (verification_status IN ('pending_review', 'approved', 'rejected', 'suspended')),
+    ADD COLUMN verification_reason TEXT,
+    ADD COLUMN id_document_path TEXT,
+    ADD COLUMN verification_submitted_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN verified_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN verified_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Creators who are already live stay live
+UPDATE public.creator_profiles
+SET verification_status = 'approved', verified_at = now()
+WHERE onboarding_completed = true;
+
+CREATE INDEX idx_creator_profiles_verification_status ON public.creator_profiles(verification_status);
+
+-- Creators can still update their own profile, but verification fields only change
+-- through submit_creator_verification and review_creator_verification
+CREATE OR REPLACE FUNCTION public.protect_creator_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (
+        NEW.verification_status IS DISTINCT FROM OLD.verification_status
+        OR NEW.verification_reason IS DISTINCT FROM OLD.verification_reason
+        OR NEW.id_document_path IS DISTINCT FROM OLD.id_document_path
+        OR NEW.verification_submitted_at IS DISTINCT FROM OLD.verification_submitted_at
+        OR NEW.verified_at IS DISTINCT FROM OLD.verified_at
+        OR NEW.verified_by IS DISTINCT FROM OLD.verified_by
+    ) AND COALESCE(current_setting('app.creator_verification_change', true), '') <> 'on' THEN
+        RAISE EXCEPTION 'Verification fields can only be changed through the review workflow'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_creator_verification
+BEFORE UPDATE ON public.creator_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_creator_verification();
+
+-- Discovery, bookings and public reviews all go through this helper
+CREATE OR REPLACE FUNCTION public.is_public_creator(_creator_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.creator_profiles
+    WHERE id = _creator_id
+      AND onboarding_completed = true
+      AND verification_status = 'approved'
+  )
+$$;
+
+CREATE OR REPLACE VIEW public.public_creator_profiles AS
+SELECT
+    cp.id,
+    p.full_name,
+    cp.profile_picture_url,
+    cp.bio,
+    cp.state,
+    cp.city,
+    cp.location,
+    cp.languages,
+    cp.created_at,
+    ratings.avg_rating,
+    COALESCE(ratings.review_count, 0) AS review_count
+FROM public.creator_profiles cp
+LEFT JOIN public.profiles p ON p.user_id = cp.user_id
+LEFT JOIN LATERAL (
+    SELECT ROUND(AVG(r.rating), 1) AS avg_rating, COUNT(*) AS review_count
+    FROM public.reviews r
+    WHERE r.creator_id = cp.id AND r.is_hidden = false
+) ratings ON true
+WHERE cp.onboarding_completed = true
+  AND cp.verification_status = 'approved';
+
+-- Private bucket for ID documents, stored as <creator_id>/<file>
+INSERT INTO storage.buckets (id, name, public) VALUES ('creator-verification', 'creator-verification', false);
+
+CREATE POLICY "Creators can upload their ID documents"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'creator-verification'
+    AND (storage.foldername(name))[1] IN (
+        SELECT id::text FROM public.creator_profiles WHERE user_id = auth.uid()
+    )
+);
+
+CREATE POLICY "Creators and admins can view ID documents"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'creator-verification'
+    AND (
+        (storage.foldername(name))[1] IN (
+            SELECT id::text FROM public.creator_profiles WHERE user_id = auth.uid()
+        )
+        OR has_role(auth.uid(), 'admin')
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.submit_creator_verification(_document_path TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _profile public.creator_profiles;
+BEGIN
+    SELECT * INTO _profile FROM public.creator_profiles WHERE user_id = auth.uid();
+
+    IF _profile.id IS NULL THEN
+        RAISE EXCEPTION 'Creator profile not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF _profile.verification_status NOT IN ('pending_review', 'rejected') THEN
+        RAISE EXCEPTION 'Verification has already been reviewed' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF split_part(_document_path, '/', 1) <> _profile.id::text THEN
+        RAISE EXCEPTION 'Document must be uploaded to your own folder' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM set_config('app.creator_verification_change', 'on', true);
+
+    UPDATE public.creator_profiles
+    SET verification_status = 'pending_review',
+        verification_reason = NULL,
+        id_document_path = _document_path,
+        verification_submitted_at = now()
+    WHERE id = _profile.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_creator_verification(
+    _creator_id UUID,
+    _status TEXT,
+    _reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _profile public.creator_profiles;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can review creators' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO _profile FROM public.creator_profiles WHERE id = _creator_id;
+
+    IF _profile.id IS NULL THEN
+        RAISE EXCEPTION 'Creator not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF NOT (
+        (_profile.verification_status = 'pending_review' AND _status IN ('approved', 'rejected'))
+        OR (_profile.verification_status = 'approved' AND _status = 'suspended')
+        OR (_profile.verification_status IN ('suspended', 'rejected') AND _status = 'approved')
+    ) THEN
+        RAISE EXCEPTION 'Cannot change verification from % to %', _profile.verification_status, _status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _status IN ('rejected', 'suspended') AND NULLIF(trim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required' USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('app.creator_verification_change', 'on', true);
+
+    UPDATE public.creator_profiles
+    SET verification_status = _status,
+        verification_reason = CASE WHEN _status = 'approved' THEN NULL ELSE trim(_reason) END,
+        verified_at = CASE WHEN _status = 'approved' THEN now() ELSE verified_at END,
+        verified_by = auth.uid()
+    WHERE id = _creator_id;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+        _profile.user_id,
+        CASE _status
+            WHEN 'approved' THEN 'Your profile is verified'
+            WHEN 'rejected' THEN 'Verification unsuccessful'
+            ELSE 'Your profile has been suspended'
+        END,
+        CASE _status
+            WHEN 'approved' THEN 'Influencers can now discover and book you.'
+            WHEN 'rejected' THEN 'We could not verify your ID: ' || trim(_reason) || ' Please upload a new document.'
+            ELSE 'Your profile is hidden from discovery: ' || trim(_reason)
+        END,
+        CASE _status WHEN 'approved' THEN 'success' WHEN 'rejected' THEN 'warning' ELSE 'error' END
+    );
+END;
+$$;
@@ -0,0 +1,175 @@
+-- Admin influencer management
+--
+-- Admins can list influencers with their booking activity, read their notifications
+-- and suspend or reinstate their accounts. Suspended influencers keep read access but
+-- cannot create bookings or send messages.
+
+ALTER TABLE public.profiles
+    ADD COLUMN suspended_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN suspended_reason TEXT,
+    ADD COLUMN suspended_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Users can update their own profile, but not lift their own suspension
+CREATE OR REPLACE FUNCTION public.protect_profile_suspension()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (
+        NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+        OR NEW.suspended_reason IS DISTINCT FROM OLD.suspended_reason
+        OR NEW.suspended_by IS DISTINCT FROM OLD.suspended_by
+    ) AND COALESCE(current_setting('app.account_suspension_change', true), '') <> 'on' THEN
+        RAISE EXCEPTION 'Suspension can only be changed by an admin'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_profile_suspension
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_suspension();
+
+CREATE OR REPLACE FUNCTION public.is_suspended(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = _user_id AND suspended_at IS NOT NULL
+  )
+$$;
+
+DROP POLICY "Customers can create their own bookings" ON public.bookings;
+
+CREATE POLICY "Customers can create their own bookings"
+ON public.bookings FOR INSERT
+TO authenticated
+WITH CHECK (
+    auth.uid() = customer_id
+    AND status = 'pending'
+    AND NOT public.is_suspended(auth.uid())
+    AND (
+        creator_id IS NULL
+        OR (
+            public.is_public_creator(creator_id)
+            AND package_id IN (
+                SELECT id FROM public.creator_pricing
+                WHERE creator_pricing.creator_id = bookings.creator_id
+                  AND is_active = true
+            )
+        )
+    )
+);
+
+DROP POLICY "Participants can send booking messages" ON public.messages;
+
+CREATE POLICY "Participants can send booking messages"
+ON public.messages FOR INSERT
+TO authenticated
+WITH CHECK (
+    sender_id = auth.uid()
+    AND read_at IS NULL
+    AND NOT public.is_suspended(auth.uid())
+    AND public.is_booking_participant(auth.uid(), booking_id)
+);
+
+CREATE POLICY "Admins can view all notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- Runs with the caller's rights, so only admins (through their RLS policies on
+-- user_roles, profiles, bookings and payments) see anything
+CREATE OR REPLACE FUNCTION public.admin_influencer_summaries(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+    user_id UUID,
+    full_name TEXT,
+    email TEXT,
+    phone TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    suspended_at TIMESTAMP WITH TIME ZONE,
+    suspended_reason TEXT,
+    booking_count BIGINT,
+    completed_count BIGINT,
+    total_spend NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.user_id,
+    p.full_name,
+    p.email,
+    p.phone,
+    p.created_at,
+    p.suspended_at,
+    p.suspended_reason,
+    (SELECT COUNT(*) FROM public.bookings b WHERE b.customer_id = p.user_id) AS booking_count,
+    (SELECT COUNT(*) FROM public.bookings b WHERE b.customer_id = p.user_id AND b.status = 'completed') AS completed_count,
+    (
+      SELECT COALESCE(SUM(pay.amount), 0)
+      FROM public.payments pay
+      WHERE pay.customer_id = p.user_id AND pay.status IN ('captured', 'released')
+    ) AS total_spend
+  FROM public.user_roles ur
+  JOIN public.profiles p ON p.user_id = ur.user_id
+  WHERE ur.role = 'customer'
+    AND (
+      NULLIF(trim(_search), '') IS NULL
+      OR p.full_name ILIKE '%' || trim(_search) || '%'
+      OR p.email ILIKE '%' || trim(_search) || '%'
+    )
+  ORDER BY p.created_at DESC
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_account_suspended(
+    _user_id UUID,
+    _suspended BOOLEAN,
+    _reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can suspend accounts' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF public.has_role(_user_id, 'admin') THEN
+        RAISE EXCEPTION 'Admin accounts cannot be suspended' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _suspended AND NULLIF(trim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required' USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('app.account_suspension_change', 'on', true);
+
+    UPDATE public.profiles
+    SET suspended_at = CASE WHEN _suspended THEN now() END,
+        suspended_reason = CASE WHEN _suspended THEN trim(_reason) END,
+        suspended_by = CASE WHEN _suspended THEN auth.uid() END
+    WHERE user_id = _user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Account not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+        _user_id,
+        CASE WHEN _suspended THEN 'Your account has been suspended' ELSE 'Your account has been reinstated' END,
+        CASE
+            WHEN _suspended THEN trim(_reason) || ' You can no longer make bookings or send messages.'
+            ELSE 'You can make bookings and send messages again.'
+        END,
+        CASE WHEN _suspended THEN 'error' ELSE 'success' END
+    );
+END;
+$$;
@@ -0,0 +1,74 @@
+-- Assign the signup role on the server
+--
+-- The role used to be inserted from the browser after auth.signUp. If that insert failed
+-- the account was left without a role, and the insert policy let any signed-in user grant
+-- themselves any role, including admin. handle_new_user now assigns it from the signup
+-- metadata in the same transaction that creates the auth user. Only 'customer' and 'team'
+-- can be chosen; admins are still provisioned out-of-band.
+
+DROP POLICY IF EXISTS "Users can insert their own role during signup" ON public.user_roles;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+    _role TEXT := NEW.raw_user_meta_data->>'role';
+BEGIN
+    INSERT INTO public.profiles (user_id, email, full_name)
+    VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name');
+
+    -- Users created from the dashboard carry no metadata and get their role by hand
+    IF _role IS NOT NULL THEN
+        IF _role NOT IN ('customer', 'team') THEN
+            RAISE EXCEPTION 'Cannot sign up as %', _role USING ERRCODE = 'insufficient_privilege';
+        END IF;
+
+        INSERT INTO public.user_roles (user_id, role)
+        VALUES (NEW.id, _role::app_role);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Repair accounts left without a role by the old client-side insert, where what they
+-- have done so far tells us which portal they signed up for
+INSERT INTO public.user_roles (user_id, role)
+SELECT u.id,
+       CASE
+           WHEN EXISTS (SELECT 1 FROM public.creator_profiles cp WHERE cp.user_id = u.id) THEN 'team'
+           ELSE 'customer'
+       END::app_role
+FROM auth.users u
+WHERE NOT EXISTS (SELECT 1 FROM public.user_roles ur WHERE ur.user_id = u.id)
+  AND (
+      EXISTS (SELECT 1 FROM public.creator_profiles cp WHERE cp.user_id = u.id)
+      OR EXISTS (SELECT 1 FROM public.bookings b WHERE b.customer_id = u.id)
+  );
+
+-- Anyone still without a role picks one the next time they sign in through a portal.
+-- Only works once and only for the signup roles.
+CREATE OR REPLACE FUNCTION public.claim_signup_role(_role TEXT)
+RETURNS app_role
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _role NOT IN ('customer', 'team') THEN
+        RAISE EXCEPTION 'Cannot claim the % role', _role USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'This account already has a role' USING ERRCODE = 'unique_violation';
+    END IF;
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (auth.uid(), _role::app_role);
+
+    RETURN _role::app_role;
+END;
+$$;
@@ -0,0 +1,79 @@
+-- Profile view tracking for the creator dashboard
+--
+-- A view is counted at most once per viewer per day. Signed-in viewers are keyed by
+-- their user id and anonymous ones by a random id kept in their browser. Views are
+-- recorded through record_creator_profile_view only; creators can read their own.
+
+CREATE TABLE public.creator_profile_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    creator_id UUID NOT NULL REFERENCES public.creator_profiles(id) ON DELETE CASCADE,
+    viewer_key TEXT NOT NULL,
+    viewed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (creator_id, viewer_key, viewed_on)
+);
+
+CREATE INDEX idx_creator_profile_views_creator_day ON public.creator_profile_views(creator_id, viewed_on);
+
+ALTER TABLE public.creator_profile_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Creators can view their profile views"
+ON public.creator_profile_views FOR SELECT
+TO authenticated
+USING (creator_id IN (SELECT id FROM public.creator_profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Admins can view all profile views"
+ON public.creator_profile_views FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+-- Called from the public profile page. Creators looking at their own profile and
+-- profiles that are not public yet are ignored.
+CREATE OR REPLACE FUNCTION public.record_creator_profile_view(_creator_id UUID, _visitor_id TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _viewer_key TEXT;
+BEGIN
+    IF auth.uid() IS NOT NULL THEN
+        _viewer_key := 'user:' || auth.uid();
+    ELSIF _visitor_id ~ '^[A-Za-z0-9-]{8,64}$' THEN
+        _viewer_key := 'visitor:' || _visitor_id;
+    ELSE
+        RAISE EXCEPTION 'Invalid visitor id' USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF NOT public.is_public_creator(_creator_id) THEN
+        RETURN;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.creator_profiles WHERE id = _creator_id AND user_id = auth.uid()) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.creator_profile_views (creator_id, viewer_key)
+    VALUES (_creator_id, _viewer_key)
+    ON CONFLICT (creator_id, viewer_key, viewed_on) DO NOTHING;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_creator_profile_view(UUID, TEXT) TO anon, authenticated;
+
+-- Views per day since _from, for the dashboard trend. Runs with the caller's rights,
+-- so creators only ever see their own.
+CREATE OR REPLACE FUNCTION public.get_creator_profile_view_trend(_creator_id UUID, _from DATE)
+RETURNS TABLE (viewed_on DATE, views INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT v.viewed_on, count(*)::INTEGER
+    FROM public.creator_profile_views v
+    WHERE v.creator_id = _creator_id
+      AND v.viewed_on >= _from
+    GROUP BY v.viewed_on
+    ORDER BY v.viewed_on
+$$;
@@ -0,0 +1,79 @@
+-- Check onboarding requirements before a creator profile goes live
+--
+-- The wizard used to set onboarding_completed straight from the browser, so a creator
+-- could finish with no bio, specializations, portfolio or packages. Completion now goes
+-- through complete_creator_onboarding, which checks the same rules as
+-- src/lib/onboarding.ts, and the flag cannot be changed by a plain update.
+
+CREATE OR REPLACE FUNCTION public.protect_creator_onboarding_completion()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.onboarding_completed IS DISTINCT FROM OLD.onboarding_completed
+       AND COALESCE(current_setting('app.creator_onboarding_change', true), '') <> 'on' THEN
+        RAISE EXCEPTION 'Onboarding can only be completed through complete_creator_onboarding'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_creator_onboarding_completion
+BEFORE UPDATE ON public.creator_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_creator_onboarding_completion();
+
+CREATE OR REPLACE FUNCTION public.complete_creator_onboarding()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _profile public.creator_profiles;
+    _missing TEXT[] := '{}';
+BEGIN
+    SELECT * INTO _profile FROM public.creator_profiles WHERE user_id = auth.uid();
+
+    IF _profile.id IS NULL THEN
+        RAISE EXCEPTION 'Creator profile not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF _profile.onboarding_completed THEN
+        RETURN;
+    END IF;
+
+    IF char_length(trim(COALESCE(_profile.bio, ''))) < 50 THEN
+        _missing := _missing || 'a bio of at least 50 characters';
+    END IF;
+
+    IF NULLIF(trim(_profile.state), '') IS NULL OR NULLIF(trim(_profile.city), '') IS NULL THEN
+        _missing := _missing || 'your state and city';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.creator_specializations WHERE creator_id = _profile.id) THEN
+        _missing := _missing || 'at least one specialization';
+    END IF;
+
+    IF (SELECT count(*) FROM public.creator_portfolio WHERE creator_id = _profile.id) < 6 THEN
+        _missing := _missing || 'at least 6 portfolio items';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.creator_pricing WHERE creator_id = _profile.id AND is_active = true
+    ) THEN
+        _missing := _missing || 'at least one active package';
+    END IF;
+
+    IF array_length(_missing, 1) > 0 THEN
+        RAISE EXCEPTION 'Before finishing, add %', array_to_string(_missing, ', ')
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('app.creator_onboarding_change', 'on', true);
+
+    UPDATE public.creator_profiles
+    SET onboarding_completed = true,
+        onboarding_step = 6
+    WHERE id = _profile.id;
+END;
+$$;
@@ -0,0 +1,201 @@
+-- Profile pictures
+--
+-- Everyone gets one avatar, uploaded already cropped and resized to fixed square sizes
+-- into the public avatars bucket as <user_id>/<file>. profiles.avatar_url points at it,
+-- and a creator's profile_picture_url follows it so the public views need no change.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp']);
+
+CREATE POLICY "Users can upload their avatar"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their avatar"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their avatar"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Avatars are publicly viewable"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'avatars');
+
+CREATE OR REPLACE FUNCTION public.sync_creator_profile_picture()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.creator_profiles
+    SET profile_picture_url = NEW.avatar_url
+    WHERE user_id = NEW.user_id
+      AND profile_picture_url IS DISTINCT FROM NEW.avatar_url;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_creator_profile_picture
+AFTER UPDATE OF avatar_url ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_creator_profile_picture();
+
+-- The admin lists show avatars too. Adding a column changes the return type, so the
+-- functions are recreated rather than replaced.
+DROP FUNCTION public.admin_influencer_summaries(TEXT);
+
+CREATE FUNCTION public.admin_influencer_summaries(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+    user_id UUID,
+    full_name TEXT,
+    email TEXT,
+    avatar_url TEXT,
+    phone TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    suspended_at TIMESTAMP WITH TIME ZONE,
+    suspended_reason TEXT,
+    booking_count BIGINT,
+    completed_count BIGINT,
+    total_spend NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.user_id,
+    p.full_name,
+    p.email,
+    p.avatar_url,
+    p.phone,
+    p.created_at,
+    p.suspended_at,
+    p.suspended_reason,
+    (SELECT COUNT(*) FROM public.bookings b WHERE b.customer_id = p.user_id) AS booking_count,
+    (SELECT COUNT(*) FROM public.bookings b WHERE b.customer_id = p.user_id AND b.status = 'completed') AS completed_count,
+    (
+      SELECT COALESCE(SUM(pay.amount), 0)
+      FROM public.payments pay
+      WHERE pay.customer_id = p.user_id AND pay.status IN ('captured', 'released')
+    ) AS total_spend
+  FROM public.user_roles ur
+  JOIN public.profiles p ON p.user_id = ur.user_id
+  WHERE ur.role = 'customer'
+    AND (
+      NULLIF(trim(_search), '') IS NULL
+      OR p.full_name ILIKE '%' || trim(_search) || '%'
+      OR p.email ILIKE '%' || trim(_search) || '%'
+    )
+  ORDER BY p.created_at DESC
+$$;
+
+DROP FUNCTION public.admin_creator_summaries(TEXT, TEXT, BOOLEAN, TEXT, INTEGER, INTEGER);
+
+CREATE FUNCTION public.admin_creator_summaries(
+    _search TEXT DEFAULT NULL,
+    _verification_status TEXT DEFAULT NULL,
+    _onboarding_completed BOOLEAN DEFAULT NULL,
+    _sort TEXT DEFAULT 'newest',
+    _limit INTEGER DEFAULT 20,
+    _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    full_name TEXT,
+    email TEXT,
+    avatar_url TEXT,
+    bio TEXT,
+    state TEXT,
+    city TEXT,
+    languages TEXT[],
+    onboarding_completed BOOLEAN,
+    verification_status TEXT,
+    verification_reason TEXT,
+    id_document_path TEXT,
+    verification_submitted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    specializations JSONB,
+    pricing JSONB,
+    availability JSONB,
+    banking JSONB,
+    portfolio_count BIGINT,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT cp.*, p.full_name, p.email, COUNT(*) OVER () AS total_count
+    FROM public.creator_profiles cp
+    LEFT JOIN public.profiles p ON p.user_id = cp.user_id
+    WHERE (_verification_status IS NULL OR cp.verification_status = _verification_status)
+      AND (_onboarding_completed IS NULL OR COALESCE(cp.onboarding_completed, false) = _onboarding_completed)
+      AND (
+        NULLIF(trim(_search), '') IS NULL
+        OR p.full_name ILIKE '%' || trim(_search) || '%'
+        OR p.email ILIKE '%' || trim(_search) || '%'
+        OR cp.city ILIKE '%' || trim(_search) || '%'
+      )
+    ORDER BY
+      CASE WHEN _sort = 'name' THEN p.full_name END ASC NULLS LAST,
+      CASE WHEN _sort = 'oldest' THEN cp.created_at END ASC,
+      -- Oldest submission first, so the review queue is worked in order
+      CASE WHEN _sort = 'submitted' THEN cp.verification_submitted_at END ASC NULLS LAST,
+      cp.created_at DESC
+    LIMIT LEAST(GREATEST(_limit, 1), 100)
+    OFFSET GREATEST(_offset, 0)
+  )
+  SELECT
+    m.id, m.user_id, m.full_name, m.email, m.profile_picture_url, m.bio, m.state, m.city, m.languages,
+    COALESCE(m.onboarding_completed, false),
+    m.verification_status, m.verification_reason, m.id_document_path,
+    m.verification_submitted_at, m.created_at,
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('category', s.category, 'skill_level', s.skill_level)), '[]'::jsonb)
+      FROM public.creator_specializations s
+      WHERE s.creator_id = m.id
+    ),
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'package_name', pr.package_name,
+        'hours_range', pr.hours_range,
+        'price', pr.price,
+        'includes', pr.includes
+      ) ORDER BY pr.price), '[]'::jsonb)
+      FROM public.creator_pricing pr
+      WHERE pr.creator_id = m.id
+    ),
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'day_of_week', a.day_of_week,
+        'start_time', a.start_time,
+        'end_time', a.end_time,
+        'is_available', a.is_available
+      ) ORDER BY a.day_of_week), '[]'::jsonb)
+      FROM public.creator_availability a
+      WHERE a.creator_id = m.id
+    ),
+    (
+      SELECT jsonb_build_object(
+        'account_holder_name', cb.account_holder_name,
+        'bank_name', cb.bank_name,
+        'ifsc_code', cb.ifsc_code,
+        'account_number_last4', cb.account_number_last4,
+        'upi_id_masked', cb.upi_id_masked
+      )
+      FROM public.creator_banking cb
+      WHERE cb.creator_id = m.id
+    ),
+    (SELECT COUNT(*) FROM public.creator_portfolio po WHERE po.creator_id = m.id),
+    m.total_count
+  FROM matches m
+  ORDER BY
+    CASE WHEN _sort = 'name' THEN m.full_name END ASC NULLS LAST,
+    CASE WHEN _sort = 'oldest' THEN m.created_at END ASC,
+    CASE WHEN _sort = 'submitted' THEN m.verification_submitted_at END ASC NULLS LAST,
+    m.created_at DESC
+$$;
@@ -0,0 +1,25 @@
+-- New creator profiles always start unverified
+--
+-- protect_creator_verification only guarded updates, so a creator could insert their
+-- own profile already approved and skip the review. Inserts now start at
+-- pending_review with no document or review details, whatever the client sends.
+
+CREATE OR REPLACE FUNCTION public.reset_creator_verification_on_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF COALESCE(current_setting('app.creator_verification_change', true), '') <> 'on' THEN
+        NEW.verification_status := 'pending_review';
+        NEW.verification_reason := NULL;
+        NEW.id_document_path := NULL;
+        NEW.verification_submitted_at := NULL;
+        NEW.verified_at := NULL;
+        NEW.verified_by := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reset_creator_verification_on_insert
+BEFORE INSERT ON public.creator_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_creator_verification_on_insert();
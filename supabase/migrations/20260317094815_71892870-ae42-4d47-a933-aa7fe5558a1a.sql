@@ -0,0 +1,29 @@
+-- New creator profiles always start with onboarding incomplete
+--
+-- protect_creator_onboarding_completion only guarded updates, so a creator could insert
+-- their profile already completed and never pass complete_creator_onboarding's checks.
+-- Inserts now start incomplete unless they come from that function.
+
+CREATE OR REPLACE FUNCTION public.protect_creator_onboarding_completion()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF COALESCE(current_setting('app.creator_onboarding_change', true), '') = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.onboarding_completed := false;
+    ELSIF NEW.onboarding_completed IS DISTINCT FROM OLD.onboarding_completed THEN
+        RAISE EXCEPTION 'Onboarding can only be completed through complete_creator_onboarding'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_creator_onboarding_completion ON public.creator_profiles;
+
+CREATE TRIGGER protect_creator_onboarding_completion
+BEFORE INSERT OR UPDATE ON public.creator_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_creator_onboarding_completion();
@@ -0,0 +1,267 @@
+-- Move booking money on the server
+--
+-- The browser used to authorize the card itself and report the hold through
+-- record_booking_payment, so anyone could record a made-up authorization, and
+-- apply_booking_escrow marked money as captured, refunded or voided without the
+-- provider ever being asked. Now:
+--
+--   create-booking (edge function)   authorizes the hold, then creates the booking and its
+--                                    payment in one create_paid_booking call; the hold is
+--                                    voided if that fails
+--   settle-payments (edge function)  moves the money a booking's status calls for, one
+--                                    step at a time, and the ledger only records a step
+--                                    once the provider has done it
+--
+-- A booking status change queues settle-payments through pg_net. It needs the project
+-- URL and service role key in Vault as 'project_url' and 'service_role_key'; without
+-- them, or if a provider call fails, the payment waits for the next sweep.
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+ALTER TABLE public.payments
+    ADD COLUMN last_error TEXT;
+
+DROP TRIGGER apply_booking_escrow ON public.bookings;
+DROP FUNCTION public.apply_booking_escrow();
+DROP FUNCTION public.record_booking_payment(UUID, TEXT, TEXT);
+
+-- Creator bookings are only created paid, by create_paid_booking. Clients can still
+-- create legacy service bookings.
+DROP POLICY "Customers can create their own bookings" ON public.bookings;
+
+CREATE POLICY "Customers can create their own bookings"
+ON public.bookings FOR INSERT
+TO authenticated
+WITH CHECK (
+    auth.uid() = customer_id
+    AND status = 'pending'
+    AND NOT public.is_suspended(auth.uid())
+    AND creator_id IS NULL
+);
+
+-- Where a payment goes next for its booking's status, or NULL when it is settled.
+-- Mirrors nextPaymentStatus in src/lib/payments.ts.
+CREATE OR REPLACE FUNCTION public.next_payment_status(_payment_status TEXT, _booking_status TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _booking_status IN ('confirmed', 'completed') AND _payment_status = 'authorized' THEN 'captured'
+    WHEN _booking_status = 'completed' AND _payment_status = 'captured' THEN 'released'
+    WHEN _booking_status = 'cancelled' AND _payment_status = 'captured' THEN 'refunded'
+    WHEN _booking_status = 'cancelled' AND _payment_status = 'authorized' THEN 'voided'
+  END
+$$;
+
+-- Called by create-booking once the provider has placed the hold
+CREATE OR REPLACE FUNCTION public.create_paid_booking(
+    _customer_id UUID,
+    _creator_id UUID,
+    _package_id UUID,
+    _booking_date DATE,
+    _booking_time TIME,
+    _duration_minutes INTEGER,
+    _notes TEXT,
+    _amount NUMERIC,
+    _provider TEXT,
+    _provider_reference TEXT
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _price NUMERIC(10, 2);
+    _booking public.bookings;
+    _payment_id UUID;
+BEGIN
+    IF public.is_suspended(_customer_id) THEN
+        RAISE EXCEPTION 'Your account is suspended' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NOT public.is_public_creator(_creator_id) THEN
+        RAISE EXCEPTION 'This creator is not available for booking' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT price INTO _price
+    FROM public.creator_pricing
+    WHERE id = _package_id AND creator_id = _creator_id AND is_active = true;
+
+    IF _price IS NULL THEN
+        RAISE EXCEPTION 'This package is no longer available' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- The hold must cover the package as it is priced now
+    IF _price <> _amount THEN
+        RAISE EXCEPTION 'The package price changed, please try again' USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.bookings (
+        customer_id, creator_id, package_id, booking_date, booking_time, duration_minutes, notes
+    )
+    VALUES (
+        _customer_id, _creator_id, _package_id, _booking_date, _booking_time, _duration_minutes, _notes
+    )
+    RETURNING * INTO _booking;
+
+    INSERT INTO public.payments (booking_id, customer_id, creator_id, amount, provider, provider_reference)
+    VALUES (_booking.id, _customer_id, _creator_id, _price, _provider, _provider_reference)
+    RETURNING id INTO _payment_id;
+
+    INSERT INTO public.payment_ledger (payment_id, entry_type, amount)
+    VALUES (_payment_id, 'authorize', _price);
+
+    RETURN _booking;
+END;
+$$;
+
+-- The next money movement settle-payments should make for a booking, if any
+CREATE OR REPLACE FUNCTION public.next_payment_step(_booking_id UUID)
+RETURNS TABLE (
+    payment_id UUID,
+    from_status TEXT,
+    to_status TEXT,
+    amount NUMERIC,
+    provider TEXT,
+    provider_reference TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.status, public.next_payment_status(p.status, b.status), p.amount, p.provider, p.provider_reference
+  FROM public.payments p
+  JOIN public.bookings b ON b.id = p.booking_id
+  WHERE p.booking_id = _booking_id
+    AND public.next_payment_status(p.status, b.status) IS NOT NULL
+$$;
+
+-- Records the provider's answer to a step. A step is only applied if the payment is
+-- still where it was when the step started, so a repeated call cannot apply it twice.
+CREATE OR REPLACE FUNCTION public.settle_payment_step(
+    _payment_id UUID,
+    _from_status TEXT,
+    _to_status TEXT,
+    _error TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _amount NUMERIC(10, 2);
+BEGIN
+    IF _error IS NOT NULL THEN
+        UPDATE public.payments SET last_error = _error WHERE id = _payment_id;
+        RETURN;
+    END IF;
+
+    UPDATE public.payments
+    SET status = _to_status, last_error = NULL
+    WHERE id = _payment_id AND status = _from_status
+    RETURNING amount INTO _amount;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.payment_ledger (payment_id, entry_type, amount)
+    VALUES (
+        _payment_id,
+        CASE _to_status
+            WHEN 'captured' THEN 'capture'
+            WHEN 'released' THEN 'release'
+            WHEN 'refunded' THEN 'refund'
+            WHEN 'voided' THEN 'void'
+        END,
+        _amount
+    );
+END;
+$$;
+
+-- Bookings whose payment still has a step to make, for the sweep
+CREATE OR REPLACE FUNCTION public.unsettled_payment_bookings()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.booking_id
+  FROM public.payments p
+  JOIN public.bookings b ON b.id = p.booking_id
+  WHERE public.next_payment_status(p.status, b.status) IS NOT NULL
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_paid_booking(UUID, UUID, UUID, DATE, TIME, INTEGER, TEXT, NUMERIC, TEXT, TEXT)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.next_payment_step(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.settle_payment_step(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unsettled_payment_bookings() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.create_paid_booking(UUID, UUID, UUID, DATE, TIME, INTEGER, TEXT, NUMERIC, TEXT, TEXT)
+    TO service_role;
+GRANT EXECUTE ON FUNCTION public.next_payment_step(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.settle_payment_step(UUID, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.unsettled_payment_bookings() TO service_role;
+
+-- Asks settle-payments to run, for one booking or (with NULL) for every unsettled one.
+-- The request is only sent once the calling transaction commits.
+CREATE OR REPLACE FUNCTION public.request_payment_settlement(_booking_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _project_url TEXT;
+    _service_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO _project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+    SELECT decrypted_secret INTO _service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+    IF _project_url IS NULL OR _service_key IS NULL THEN
+        RAISE WARNING 'Payment settlement is not configured; set project_url and service_role_key in Vault';
+        RETURN;
+    END IF;
+
+    PERFORM net.http_post(
+        url := _project_url || '/functions/v1/settle-payments',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || _service_key
+        ),
+        body := jsonb_build_object('bookingId', _booking_id)
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_payment_settlement(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.queue_payment_settlement()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status
+        AND EXISTS (SELECT 1 FROM public.next_payment_step(NEW.id)) THEN
+        PERFORM public.request_payment_settlement(NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_payment_settlement
+AFTER UPDATE OF status ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_payment_settlement();
+
+-- Retries anything a failed provider call or a missed request left behind
+SELECT cron.schedule(
+    'settle-payments',
+    '*/10 * * * *',
+    $$SELECT public.request_payment_settlement(NULL)$$
+);
@@ -0,0 +1,8 @@
+-- Count profile views per UTC day
+--
+-- viewed_on defaulted to CURRENT_DATE, which follows the session's time zone. The
+-- dashboard builds its trend from UTC dates, so pin the day to UTC whatever the
+-- database or connection is set to.
+
+ALTER TABLE public.creator_profile_views
+    ALTER COLUMN viewed_on SET DEFAULT (now() AT TIME ZONE 'utc')::DATE;
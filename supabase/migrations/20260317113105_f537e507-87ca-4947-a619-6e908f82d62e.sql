@@ -0,0 +1,37 @@
+-- Profile pictures must be the owner's own upload
+--
+-- avatar_url and profile_picture_url were free text, so a user could point them at
+-- another user's avatar or at any URL on the web, and it would be shown across the app.
+-- They now have to be a public URL for a file directly under the owner's folder in the
+-- avatars bucket (or empty). Only new values are checked, so existing rows can still
+-- be edited.
+
+CREATE OR REPLACE FUNCTION public.check_avatar_url()
+RETURNS TRIGGER AS $$
+DECLARE
+    _url TEXT := to_jsonb(NEW) ->> TG_ARGV[0];
+BEGIN
+    IF TG_OP = 'UPDATE' AND _url IS NOT DISTINCT FROM to_jsonb(OLD) ->> TG_ARGV[0] THEN
+        RETURN NEW;
+    END IF;
+
+    -- A single path segment, so "..", encoded slashes and subfolders are all rejected
+    IF _url IS NOT NULL
+       AND _url !~ ('^https?://[^/]+/storage/v1/object/public/avatars/' || NEW.user_id::text || '/[A-Za-z0-9_-][A-Za-z0-9._-]*$') THEN
+        RAISE EXCEPTION 'Profile pictures must be uploaded to your own avatar folder'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_avatar_url
+BEFORE INSERT OR UPDATE OF avatar_url ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.check_avatar_url('avatar_url');
+
+CREATE TRIGGER check_profile_picture_url
+BEFORE INSERT OR UPDATE OF profile_picture_url ON public.creator_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.check_avatar_url('profile_picture_url');
@@ -0,0 +1,113 @@
+-- Booking slot rules on the server
+--
+-- Slots were only checked in the browser (src/lib/scheduling.ts), so a booking made or
+-- moved through the API could land outside the creator's hours or on top of another
+-- booking. These are the same rules in SQL for the functions that write bookings.
+-- src/test/booking-slots.test.ts runs both versions over the same cases, so change
+-- them together.
+
+-- Mirrors parseDurationMinutes: the upper bound of a package's free-text hours_range,
+-- in hours unless it says minutes
+CREATE OR REPLACE FUNCTION public.package_duration_minutes(_hours_range TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN minutes > 0 THEN round(minutes)::INTEGER ELSE 60 END
+  FROM (
+    SELECT max(m[1]::NUMERIC) * CASE WHEN _hours_range ~* 'min' THEN 1 ELSE 60 END AS minutes
+    FROM regexp_matches(_hours_range, '\d+(?:\.\d+)?', 'g') AS m
+  ) upper_bound
+$$;
+
+-- Mirrors isSlotFree with DEFAULT_SCHEDULING_OPTIONS: why a booking of _duration_minutes
+-- can't start at _date/_time, or NULL when it can. Dates and times are the creator's
+-- wall clock, and so is _now. A booking being moved is left out of the clash check
+-- through _ignore_booking_id.
+CREATE OR REPLACE FUNCTION public.booking_slot_problem(
+    _creator_id UUID,
+    _date DATE,
+    _time TIME,
+    _duration_minutes INTEGER,
+    _ignore_booking_id UUID DEFAULT NULL,
+    _now TIMESTAMP DEFAULT (now() AT TIME ZONE 'Asia/Kolkata')
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    _buffer CONSTANT INTERVAL := INTERVAL '30 minutes';
+    _minimum_notice CONSTANT INTERVAL := INTERVAL '24 hours';
+    _start_minutes INTEGER := EXTRACT(EPOCH FROM _time)::INTEGER / 60;
+    _start TIMESTAMP := _date + _time;
+    _end TIMESTAMP := _date + _time + make_interval(mins => _duration_minutes);
+    _window public.creator_availability;
+BEGIN
+    SELECT * INTO _window
+    FROM public.creator_availability
+    WHERE creator_id = _creator_id
+      AND day_of_week = EXTRACT(DOW FROM _date)
+      AND is_available;
+
+    IF NOT FOUND THEN
+        RETURN 'The creator is not available on that day';
+    END IF;
+
+    IF _start_minutes < EXTRACT(EPOCH FROM _window.start_time)::INTEGER / 60
+       OR _start_minutes + _duration_minutes > EXTRACT(EPOCH FROM _window.end_time)::INTEGER / 60 THEN
+        RETURN 'That time is outside the creator''s hours';
+    END IF;
+
+    IF _start < _now + _minimum_notice THEN
+        RETURN 'Bookings need at least 24 hours'' notice';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.bookings b
+        WHERE b.creator_id = _creator_id
+          AND b.status IN ('pending', 'confirmed')
+          AND b.id IS DISTINCT FROM _ignore_booking_id
+          AND _start < b.booking_date + b.booking_time + make_interval(mins => b.duration_minutes) + _buffer
+          AND _end > b.booking_date + b.booking_time - _buffer
+    ) THEN
+        RETURN 'That time clashes with another booking';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- For functions about to write a booking into a slot. Holds the creator's calendar until
+-- the transaction ends, so two requests can't both take the same free slot.
+CREATE OR REPLACE FUNCTION public.claim_booking_slot(
+    _creator_id UUID,
+    _date DATE,
+    _time TIME,
+    _duration_minutes INTEGER,
+    _ignore_booking_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _problem TEXT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('booking_slots:' || _creator_id::text));
+
+    _problem := public.booking_slot_problem(_creator_id, _date, _time, _duration_minutes, _ignore_booking_id);
+    IF _problem IS NOT NULL THEN
+        RAISE EXCEPTION '%', _problem USING ERRCODE = 'check_violation';
+    END IF;
+END;
+$$;
+
+-- Only the booking functions need these; called directly they would only see the
+-- caller's own bookings
+REVOKE EXECUTE ON FUNCTION public.booking_slot_problem(UUID, DATE, TIME, INTEGER, UUID, TIMESTAMP)
+    FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_booking_slot(UUID, DATE, TIME, INTEGER, UUID)
+    FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,97 @@
+-- Proposed booking times must be free slots
+--
+-- propose_booking_time wrote whatever date and time the creator sent, so accepting a
+-- proposal could move a booking into the past, outside the creator's hours or on top of
+-- another booking. The proposal is now checked with the same slot rules as a new
+-- booking, leaving out the booking being moved, and checked again on acceptance since
+-- the slot may have been taken in the meantime.
+
+CREATE OR REPLACE FUNCTION public.propose_booking_time(
+    _booking_id UUID,
+    _date DATE,
+    _time TIME
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _booking public.bookings;
+BEGIN
+    SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF NOT (public.is_booking_creator(auth.uid(), _booking) OR public.has_role(auth.uid(), 'admin')) THEN
+        RAISE EXCEPTION 'Only the creator can propose a new time' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _booking.status NOT IN ('pending', 'confirmed') THEN
+        RAISE EXCEPTION 'Cannot reschedule a % booking', _booking.status USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM public.claim_booking_slot(_booking.creator_id, _date, _time, _booking.duration_minutes, _booking.id);
+
+    UPDATE public.bookings
+    SET proposed_date = _date, proposed_time = _time
+    WHERE id = _booking_id
+    RETURNING * INTO _booking;
+
+    RETURN _booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_booking_proposal(
+    _booking_id UUID,
+    _accept BOOLEAN
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _booking public.bookings;
+BEGIN
+    SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF _booking.customer_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only the influencer who booked can respond' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _booking.proposed_date IS NULL OR _booking.proposed_time IS NULL THEN
+        RAISE EXCEPTION 'There is no proposed time to respond to' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _accept THEN
+        PERFORM public.claim_booking_slot(
+            _booking.creator_id, _booking.proposed_date, _booking.proposed_time, _booking.duration_minutes, _booking.id
+        );
+
+        PERFORM set_config('app.booking_transition_reason', 'Proposed time accepted', true);
+
+        UPDATE public.bookings
+        SET booking_date = proposed_date,
+            booking_time = proposed_time,
+            proposed_date = NULL,
+            proposed_time = NULL,
+            status = 'confirmed'
+        WHERE id = _booking_id
+        RETURNING * INTO _booking;
+    ELSE
+        PERFORM set_config('app.booking_transition_reason', 'Proposed time declined', true);
+
+        UPDATE public.bookings
+        SET proposed_date = NULL, proposed_time = NULL, status = 'cancelled'
+        WHERE id = _booking_id
+        RETURNING * INTO _booking;
+    END IF;
+
+    RETURN _booking;
+END;
+$$;
@@ -0,0 +1,79 @@
+-- Check the slot when a paid booking is created
+--
+-- create_paid_booking took the date, time and length of the booking from the request,
+-- so calling create-booking directly could double-book a creator, book outside their
+-- hours or book any length. The length now comes from the package, and the slot is
+-- checked with the same rules as the booking page while the creator's calendar is held.
+-- The parameters change, so the function is recreated rather than replaced.
+
+DROP FUNCTION public.create_paid_booking(UUID, UUID, UUID, DATE, TIME, INTEGER, TEXT, NUMERIC, TEXT, TEXT);
+
+CREATE FUNCTION public.create_paid_booking(
+    _customer_id UUID,
+    _creator_id UUID,
+    _package_id UUID,
+    _booking_date DATE,
+    _booking_time TIME,
+    _notes TEXT,
+    _amount NUMERIC,
+    _provider TEXT,
+    _provider_reference TEXT
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _package public.creator_pricing;
+    _duration_minutes INTEGER;
+    _booking public.bookings;
+    _payment_id UUID;
+BEGIN
+    IF public.is_suspended(_customer_id) THEN
+        RAISE EXCEPTION 'Your account is suspended' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NOT public.is_public_creator(_creator_id) THEN
+        RAISE EXCEPTION 'This creator is not available for booking' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO _package
+    FROM public.creator_pricing
+    WHERE id = _package_id AND creator_id = _creator_id AND is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This package is no longer available' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- The hold must cover the package as it is priced now
+    IF _package.price <> _amount THEN
+        RAISE EXCEPTION 'The package price changed, please try again' USING ERRCODE = 'check_violation';
+    END IF;
+
+    _duration_minutes := public.package_duration_minutes(_package.hours_range);
+    PERFORM public.claim_booking_slot(_creator_id, _booking_date, _booking_time, _duration_minutes);
+
+    INSERT INTO public.bookings (
+        customer_id, creator_id, package_id, booking_date, booking_time, duration_minutes, notes
+    )
+    VALUES (
+        _customer_id, _creator_id, _package_id, _booking_date, _booking_time, _duration_minutes, _notes
+    )
+    RETURNING * INTO _booking;
+
+    INSERT INTO public.payments (booking_id, customer_id, creator_id, amount, provider, provider_reference)
+    VALUES (_booking.id, _customer_id, _creator_id, _package.price, _provider, _provider_reference)
+    RETURNING id INTO _payment_id;
+
+    INSERT INTO public.payment_ledger (payment_id, entry_type, amount)
+    VALUES (_payment_id, 'authorize', _package.price);
+
+    RETURN _booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_paid_booking(UUID, UUID, UUID, DATE, TIME, TEXT, NUMERIC, TEXT, TEXT)
+    FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_paid_booking(UUID, UUID, UUID, DATE, TIME, TEXT, NUMERIC, TEXT, TEXT)
+    TO service_role;
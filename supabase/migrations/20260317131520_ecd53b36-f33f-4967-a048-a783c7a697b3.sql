@@ -0,0 +1,41 @@
+-- Pin profile pictures to this project's storage
+--
+-- check_avatar_url accepted the avatars path on any host, so a URL such as
+-- https://elsewhere.example/storage/v1/object/public/avatars/<user_id>/x.jpg still let
+-- an outside image be shown across the app. The URL must now start with this project's
+-- own URL, read from Vault as 'project_url' (the same secret payment settlement uses).
+-- Without it no new picture is accepted.
+
+CREATE OR REPLACE FUNCTION public.check_avatar_url()
+RETURNS TRIGGER AS $$
+DECLARE
+    _url TEXT := to_jsonb(NEW) ->> TG_ARGV[0];
+    _project_url TEXT;
+    _prefix TEXT;
+BEGIN
+    IF TG_OP = 'UPDATE' AND _url IS NOT DISTINCT FROM to_jsonb(OLD) ->> TG_ARGV[0] THEN
+        RETURN NEW;
+    END IF;
+
+    IF _url IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT rtrim(decrypted_secret, '/') INTO _project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+    IF _project_url IS NULL THEN
+        RAISE EXCEPTION 'Profile pictures are not configured; set project_url in Vault'
+            USING ERRCODE = 'object_not_in_prerequisite_state';
+    END IF;
+
+    _prefix := _project_url || '/storage/v1/object/public/avatars/' || NEW.user_id::text || '/';
+
+    -- A single path segment, so "..", encoded slashes and subfolders are all rejected
+    IF left(_url, length(_prefix)) <> _prefix
+       OR substr(_url, length(_prefix) + 1) !~ '^[A-Za-z0-9_-][A-Za-z0-9._-]*$' THEN
+        RAISE EXCEPTION 'Profile pictures must be uploaded to your own avatar folder'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;